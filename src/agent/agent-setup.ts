@@ -1,6 +1,7 @@
 import { Agent } from "@mariozechner/pi-agent-core";
 import { getModel, streamSimple } from "@mariozechner/pi-ai";
 import type { AgentTool } from "@mariozechner/pi-agent-core";
+import type { RunReportCompaction } from "../app/run-report.js";
 import type { ReviewConfig } from "../types.js";
 import {
   buildContextSummaryMessage,
@@ -51,6 +52,8 @@ export function createAgentWithCompaction(params: {
   temperatureOverride?: number;
   thinkingLevelOverride?: ReviewConfig["reasoning"];
   overrides?: AgentSetupOverrides;
+  /** Called after each context compaction (run report). */
+  onCompaction?: (event: RunReportCompaction) => void;
 }): {
   agent: AgentLike;
   model: ReturnType<typeof getModel>;
@@ -102,6 +105,13 @@ export function createAgentWithCompaction(params: {
     logDebug(
       `context compaction: estimated=${estimated} threshold=${threshold} pruned=${prunedCount} kept=${kept.length} summaryChars=${summaryText.length}`
     );
+    params.onCompaction?.({
+      estimatedTokens: estimated,
+      threshold,
+      prunedMessages: prunedCount,
+      keptMessages: kept.length,
+      summary: compactionModel && summary ? "model" : "deterministic",
+    });
     return [
       contextSummary,
       {
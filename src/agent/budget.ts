@@ -0,0 +1,81 @@
+import type { BudgetLimits, LimitsConfig } from "../types.js";
+
+export interface BudgetGuard {
+  /** Compare accumulated usage with the limits; returns the reason once a limit is reached. */
+  check: (billing: { total: number; cost: number }) => string | null;
+  /** Why the budget ran out, or null while it has not. */
+  exhausted: () => string | null;
+  /** Start the wall-clock limit; `onExpire` runs once if the run is still going when it passes. */
+  start: (onExpire: (reason: string) => void) => void;
+  stop: () => void;
+}
+
+/** Budget fields of a command's `limits` override the global `review.limits` one by one. */
+export function resolveBudget(global: BudgetLimits | undefined, command?: LimitsConfig): BudgetLimits | undefined {
+  const merged: BudgetLimits = {
+    maxCostUsd: command?.maxCostUsd ?? global?.maxCostUsd,
+    maxTokens: command?.maxTokens ?? global?.maxTokens,
+    maxDurationSeconds: command?.maxDurationSeconds ?? global?.maxDurationSeconds,
+  };
+  return Object.values(merged).some((value) => value !== undefined) ? merged : undefined;
+}
+
+/** Returns null when no budget limit is set, so callers can skip all bookkeeping. */
+export function createBudgetGuard(
+  limits: BudgetLimits | undefined,
+  timers: { setTimeout: typeof setTimeout; clearTimeout: typeof clearTimeout } = { setTimeout, clearTimeout }
+): BudgetGuard | null {
+  if (!limits || Object.values(limits).every((value) => value === undefined)) return null;
+  let reason: string | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const check = (billing: { total: number; cost: number }): string | null => {
+    if (reason) return reason;
+    if (limits.maxCostUsd !== undefined && billing.cost >= limits.maxCostUsd) {
+      reason = `cost $${billing.cost.toFixed(4)} reached limits.maxCostUsd ($${limits.maxCostUsd})`;
+    } else if (limits.maxTokens !== undefined && billing.total >= limits.maxTokens) {
+      reason = `${billing.total} tokens reached limits.maxTokens (${limits.maxTokens})`;
+    }
+    return reason;
+  };
+
+  return {
+    check,
+    exhausted: () => reason,
+    start: (onExpire) => {
+      if (limits.maxDurationSeconds === undefined || timer) return;
+      timer = timers.setTimeout(() => {
+        timer = null;
+        if (reason) return;
+        reason = `run time reached limits.maxDurationSeconds (${limits.maxDurationSeconds}s)`;
+        onExpire(reason);
+      }, limits.maxDurationSeconds * 1000);
+    },
+    stop: () => {
+      if (timer) {
+        timers.clearTimeout(timer);
+        timer = null;
+      }
+    },
+  };
+}
+
+export function formatBudgetNote(reason: string): string {
+  return `⚠️ **Budget exhausted**: ${reason}. The run stopped early; this summary only covers what was recorded before then.`;
+}
+
+/**
+ * Publish the findings recorded so far through the run's own post_summary tool, with the budget note as
+ * preface. Returns false when the run has no post_summary tool (e.g. review-only comment type).
+ */
+export async function postBudgetExhaustedSummary(
+  tools: Array<{ name: string; execute?: unknown }>,
+  reason: string
+): Promise<boolean> {
+  const summaryTool = tools.find((tool) => tool.name === "post_summary") as
+    | { execute: (toolCallId: string, params: Record<string, unknown>) => Promise<unknown> }
+    | undefined;
+  if (!summaryTool) return false;
+  await summaryTool.execute("budget-exhausted", { preface: formatBudgetNote(reason), force: true });
+  return true;
+}
@@ -0,0 +1,150 @@
+import type { getOctokit } from "@actions/github";
+import type { PublishedSummary, SummarySeverity } from "../summary.js";
+
+type Octokit = ReturnType<typeof getOctokit>;
+
+export const CHECK_RUN_NAME = "shitty-reviewing-agent";
+const MAX_ANNOTATIONS_PER_REQUEST = 50;
+const MAX_SUMMARY_LENGTH = 65535;
+
+export type CheckConclusion = "success" | "failure" | "neutral";
+export type CheckAnnotationLevel = "notice" | "warning" | "failure";
+
+export interface CheckAnnotation {
+  path: string;
+  start_line: number;
+  end_line: number;
+  annotation_level: CheckAnnotationLevel;
+  title: string;
+  message: string;
+}
+
+export interface ReviewCheckRun {
+  /** Hook for post_summary; remembers what to report when the run finishes. */
+  onSummaryPublished: (summary: PublishedSummary) => void;
+  /** Complete the check run. Runs that ended without a summary conclude as neutral. */
+  finish: (fallback?: { title: string; summary: string }) => Promise<void>;
+}
+
+/**
+ * Open an in-progress check run for the reviewed head SHA. Returns null (after a warning)
+ * when the token cannot write checks, so reviews still run without `checks: write`.
+ */
+export async function startReviewCheckRun(params: {
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  headSha: string;
+  log?: (...args: unknown[]) => void;
+}): Promise<ReviewCheckRun | null> {
+  let checkRunId: number;
+  try {
+    const response = await params.octokit.rest.checks.create({
+      owner: params.owner,
+      repo: params.repo,
+      name: CHECK_RUN_NAME,
+      head_sha: params.headSha,
+      status: "in_progress",
+      started_at: new Date().toISOString(),
+    });
+    checkRunId = response.data.id;
+  } catch (error: any) {
+    const status = error?.status ?? error?.response?.status;
+    console.warn(
+      `[warn] Unable to create check run${status ? ` (HTTP ${status})` : ""}; grant \`checks: write\` to publish review checks.`
+    );
+    params.log?.("check run create failed", error);
+    return null;
+  }
+
+  let published: PublishedSummary | null = null;
+  let finished = false;
+  return {
+    onSummaryPublished: (summary) => {
+      published = summary;
+    },
+    finish: async (fallback) => {
+      if (finished) return;
+      finished = true;
+      const report = published as PublishedSummary | null;
+      const conclusion = report ? verdictToConclusion(report.verdict) : "neutral";
+      const title = report
+        ? `Verdict: ${report.verdict}`
+        : fallback?.title ?? "Review did not complete";
+      const summary = truncate(
+        report ? stripHiddenMarkers(report.body) : fallback?.summary ?? "The reviewer did not publish a summary for this run.",
+        MAX_SUMMARY_LENGTH
+      );
+      const annotations = report ? buildCheckAnnotations(report) : [];
+      try {
+        // GitHub accepts at most 50 annotations per request; earlier batches go out while in progress.
+        let offset = 0;
+        while (annotations.length - offset > MAX_ANNOTATIONS_PER_REQUEST) {
+          await params.octokit.rest.checks.update({
+            owner: params.owner,
+            repo: params.repo,
+            check_run_id: checkRunId,
+            output: { title, summary, annotations: annotations.slice(offset, offset + MAX_ANNOTATIONS_PER_REQUEST) },
+          });
+          offset += MAX_ANNOTATIONS_PER_REQUEST;
+        }
+        await params.octokit.rest.checks.update({
+          owner: params.owner,
+          repo: params.repo,
+          check_run_id: checkRunId,
+          status: "completed",
+          conclusion,
+          completed_at: new Date().toISOString(),
+          output: { title, summary, annotations: annotations.slice(offset) },
+        });
+      } catch (error) {
+        console.warn("[warn] Failed to complete check run.");
+        params.log?.("check run update failed", error);
+      }
+    },
+  };
+}
+
+export function verdictToConclusion(verdict: string): CheckConclusion {
+  if (verdict === "Approve") return "success";
+  if (verdict === "Request Changes") return "failure";
+  return "neutral";
+}
+
+export function severityToAnnotationLevel(severity: SummarySeverity): CheckAnnotationLevel {
+  if (severity === "high") return "failure";
+  if (severity === "medium") return "warning";
+  return "notice";
+}
+
+/** One annotation per unresolved finding location on the new side of the diff. */
+export function buildCheckAnnotations(summary: PublishedSummary): CheckAnnotation[] {
+  const annotations: CheckAnnotation[] = [];
+  for (const finding of summary.findings) {
+    if (finding.status === "resolved") continue;
+    const message = [finding.details, finding.action ? `Action: ${finding.action}` : ""]
+      .filter(Boolean)
+      .join("\n\n") || finding.title;
+    for (const location of finding.locations) {
+      if (location.side !== "RIGHT") continue;
+      annotations.push({
+        path: location.path,
+        start_line: location.line,
+        end_line: location.line,
+        annotation_level: severityToAnnotationLevel(finding.severity),
+        title: `[${finding.category}] ${finding.title}`,
+        message,
+      });
+    }
+  }
+  return annotations;
+}
+
+function stripHiddenMarkers(body: string): string {
+  return body.replace(/<!--[\s\S]*?-->/g, "").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+function truncate(value: string, max: number): string {
+  if (value.length <= max) return value;
+  return `${value.slice(0, max - 3)}...`;
+}
@@ -2,6 +2,7 @@ import { minimatch } from "minimatch";
 import path from "node:path";
 import { execFile } from "node:child_process";
 import { promisify } from "node:util";
+import { isIgnoredPath } from "../app/ignore.js";
 import type { ChangedFile } from "../types.js";
 
 const execFileAsync = promisify(execFile);
@@ -9,7 +10,7 @@ const generatedCache = new Map<string, boolean>();
 
 export function filterIgnoredFiles(files: ChangedFile[], ignorePatterns: string[]): ChangedFile[] {
   if (ignorePatterns.length === 0) return files;
-  return files.filter((file) => !ignorePatterns.some((pattern) => minimatch(file.filename, pattern)));
+  return files.filter((file) => !isIgnoredPath(file.filename, ignorePatterns));
 }
 
 export async function filterDiagramFiles(files: ChangedFile[], repoRoot: string): Promise<ChangedFile[]> {
@@ -0,0 +1,78 @@
+import { createAssistantMessageEventStream, streamSimple } from "@mariozechner/pi-ai";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+
+export interface LlmLimiter {
+  /** Wrap a stream function so each model request waits for a free slot before it starts. */
+  wrap: (streamFn?: typeof streamSimple) => typeof streamSimple;
+  /** Requests currently holding a slot. */
+  active: () => number;
+}
+
+/**
+ * Cap on model requests in flight across agents running side by side (the review and `review.run`
+ * commands). A slot is held from the request until its stream ends, not for the tool calls in between.
+ */
+export function createLlmLimiter(maxConcurrent: number): LlmLimiter {
+  const limit = Math.max(1, Math.floor(maxConcurrent));
+  let active = 0;
+  const waiting: Array<() => void> = [];
+
+  const acquire = async (): Promise<void> => {
+    if (active < limit) {
+      active += 1;
+      return;
+    }
+    // The releasing request hands its slot straight to the next waiter, so `active` stays put.
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active -= 1;
+    }
+  };
+
+  return {
+    active: () => active,
+    wrap: (streamFn = streamSimple) => (model, context, options) => {
+      const outer = createAssistantMessageEventStream();
+      void (async () => {
+        await acquire();
+        try {
+          for await (const event of streamFn(model, context, options)) {
+            outer.push(event);
+          }
+        } catch (error) {
+          outer.push({ type: "error", reason: "error", error: failedMessage(model, error) });
+        } finally {
+          release();
+          outer.end();
+        }
+      })();
+      return outer;
+    },
+  };
+}
+
+function failedMessage(model: Parameters<typeof streamSimple>[0], error: unknown): AssistantMessage {
+  return {
+    role: "assistant",
+    content: [],
+    api: model.api,
+    provider: model.provider,
+    model: model.id,
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "error",
+    errorMessage: error instanceof Error ? error.message : String(error),
+    timestamp: Date.now(),
+  };
+}
@@ -1,11 +1,13 @@
 import type { getOctokit } from "@actions/github";
 import { Agent } from "@mariozechner/pi-agent-core";
 import type { AgentTool } from "@mariozechner/pi-agent-core";
-import { streamSimple } from "@mariozechner/pi-ai";
+import { getModel, streamSimple } from "@mariozechner/pi-ai";
 import type { Usage } from "@mariozechner/pi-ai";
-import { isGeneratedPath } from "./file-filters.js";
-import { validateMermaidDiagram } from "../tools/fs.js";
-import type { ChangedFile, ExistingComment, PullRequestInfo, ReviewConfig } from "../types.js";
+import { countDistinctDirectories, filterDiagramFiles, filterIgnoredFiles, isGeneratedPath } from "./file-filters.js";
+import { createReadOnlyTools, validateMermaidDiagram } from "../tools/fs.js";
+import { createGithubTools } from "../tools/github.js";
+import type { ChangedFile, ExistingComment, PullRequestInfo, ReviewConfig, ReviewContext } from "../types.js";
+import { isGemini3, mapThinkingLevelForGemini3 } from "./model.js";
 import type { ThinkingLevel } from "./model.js";
 
 type Octokit = ReturnType<typeof getOctokit>;
@@ -106,6 +108,58 @@ export async function maybePostPrExplainer(params: {
   }
 }
 
+/**
+ * Post (or refresh) the PR explainer outside a review run, e.g. for `!explain`.
+ * Runs whether or not `experimentalPrExplainer` is on.
+ */
+export async function runPrExplainer(params: {
+  config: ReviewConfig;
+  context: ReviewContext;
+  octokit: Octokit;
+  prInfo: PullRequestInfo;
+  changedFiles: ChangedFile[];
+  existingComments: ExistingComment[];
+  overrides?: { model?: ReturnType<typeof getModel>; generateFn?: PrExplainerGenerateFn };
+}): Promise<void> {
+  const { config, context } = params;
+  const log = (...args: unknown[]) => {
+    if (config.debug) {
+      console.log("[debug]", ...args);
+    }
+  };
+  const changedFiles = filterIgnoredFiles(params.changedFiles, config.ignorePatterns);
+  const diagramFiles = await filterDiagramFiles(changedFiles, config.repoRoot);
+  const cache = { prInfo: params.prInfo, changedFiles };
+  await maybePostPrExplainer({
+    enabled: true,
+    model: params.overrides?.model ?? getModel(config.provider as any, config.modelId as any),
+    tools: [
+      ...createReadOnlyTools(config.repoRoot),
+      ...createGithubTools({
+        octokit: params.octokit,
+        owner: context.owner,
+        repo: context.repo,
+        pullNumber: context.prNumber,
+        cache,
+      }),
+    ],
+    config,
+    octokit: params.octokit,
+    owner: context.owner,
+    repo: context.repo,
+    pullNumber: context.prNumber,
+    headSha: params.prInfo.headSha,
+    prInfo: params.prInfo,
+    changedFiles,
+    existingComments: params.existingComments,
+    effectiveThinkingLevel: isGemini3(config.modelId) ? mapThinkingLevelForGemini3(config.reasoning) : config.reasoning,
+    effectiveTemperature: isGemini3(config.modelId) ? config.temperature ?? 1.0 : config.temperature,
+    log,
+    requireDiagrams: countDistinctDirectories(diagramFiles.map((file) => file.filename)) > 3,
+    generateFn: params.overrides?.generateFn,
+  });
+}
+
 async function generatePrExplainerContent(params: {
   model: any;
   tools: AgentTool<any>[];
@@ -3,14 +3,32 @@ import type { Usage } from "@mariozechner/pi-ai";
 import { buildSystemPrompt, buildUserPrompt } from "../prompts/review.js";
 import { createGithubTools, createReadOnlyTools, createReviewTools, createSubagentTool, createWebSearchTool, RateLimitError } from "../tools/index.js";
 import { filterToolsByAllowlist } from "../tools/categories.js";
-import type { ChangedFile, ExistingComment, ModelEndpoint, PullRequestInfo, ReviewConfig, ReviewContext, ReviewThreadInfo, ToolCategory } from "../types.js";
+import type {
+  ChangedFile,
+  ExistingComment,
+  ModelEndpoint,
+  PullRequestInfo,
+  ReviewConfig,
+  ReviewContext,
+  ReviewOutcome,
+  ReviewThreadInfo,
+  ToolCategory,
+} from "../types.js";
 import { createAgentWithCompaction } from "./agent-setup.js";
+import { startReviewCheckRun } from "./check-run.js";
+import { writeSarifReport } from "./sarif.js";
+import type { PublishedSummary } from "../summary.js";
+import type { RunRecorder, RunReport } from "../app/run-report.js";
+import { findDismissal } from "../finding-state.js";
+import type { FindingDismissal, FindingStateEntry } from "../finding-state.js";
 import { countDistinctDirectories, filterDiagramFiles, filterIgnoredFiles } from "./file-filters.js";
 import { maybeGenerateSequenceDiagram } from "./diagram.js";
 import { isGemini3 } from "./model.js";
 import { maybePostPrExplainer } from "./pr-explainer.js";
 import type { PrExplainerGenerateFn } from "./pr-explainer.js";
 import { QuotaExhaustedError, withRetries } from "./retries.js";
+import { createBudgetGuard, postBudgetExhaustedSummary } from "./budget.js";
+import type { BudgetGuard } from "./budget.js";
 import { deriveErrorReason, postFailureSummary, postFallbackSummary } from "./summary.js";
 
 export interface ReviewRunInput {
@@ -28,7 +46,12 @@ export interface ReviewRunInput {
   previousReviewUrl?: string | null;
   previousReviewAt?: string | null;
   previousReviewBody?: string | null;
+  /** Finding lifecycle state from the previous summary; unresolved findings are carried as still_open. */
+  previousFindings?: FindingStateEntry[];
+  /** Findings dismissed on the PR (`!dismiss`, 👎); never carried, reported or commented on again. */
+  dismissedFindings?: FindingDismissal[];
   toolAllowlist?: ToolCategory[];
+  runReport?: RunReport;
   overrides?: {
     agentFactory?: (params: {
       initialState: {
@@ -76,7 +99,80 @@ const RISKY_PATH_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
   { pattern: /(billing|payment|invoice|checkout)/i, label: "billing/payment path" },
 ];
 
-export async function runReview(input: ReviewRunInput): Promise<void> {
+export async function runReview(input: ReviewRunInput): Promise<ReviewOutcome> {
+  const { config, context } = input;
+  const checkRun = config.checkRun
+    ? await startReviewCheckRun({
+      octokit: input.octokit,
+      owner: context.owner,
+      repo: context.repo,
+      headSha: input.prInfo.headSha,
+      log: config.debug ? (...args: unknown[]) => console.log("[debug]", ...args) : undefined,
+    })
+    : null;
+  const recorder = input.runReport?.startRun({ kind: "review", id: "review", model: config.modelId }) ?? null;
+  let published: PublishedSummary | null = null;
+  const onSummaryPublished = (summary: PublishedSummary) => {
+    published = summary;
+    checkRun?.onSummaryPublished(summary);
+    recorder?.setSummary(summary);
+  };
+  let stats: ReviewRunStats;
+  const budget = createBudgetGuard(config.budget);
+  try {
+    stats = await executeReview(input, onSummaryPublished, budget, recorder);
+  } catch (error) {
+    recorder?.finish("failed", errorMessage(error));
+    await checkRun?.finish({ title: "Review failed", summary: `The reviewer failed before publishing a summary: ${errorMessage(error)}` });
+    throw error;
+  } finally {
+    budget?.stop();
+    if (config.sarifOutput) {
+      try {
+        writeSarifReport(config.sarifOutput, published, {
+          repositoryUri: `${process.env.GITHUB_SERVER_URL || "https://github.com"}/${context.owner}/${context.repo}`,
+          revisionId: input.prInfo.headSha,
+        });
+      } catch (error) {
+        console.warn(`[warn] Failed to write SARIF report: ${errorMessage(error)}`);
+      }
+    }
+  }
+  recorder?.finish("completed");
+  await checkRun?.finish();
+  return buildReviewOutcome(published, stats);
+}
+
+function buildReviewOutcome(published: PublishedSummary | null, stats: ReviewRunStats): ReviewOutcome {
+  const outcome: ReviewOutcome = {
+    verdict: published?.verdict ?? "Skipped",
+    findingsBySeverity: { high: 0, medium: 0, low: 0 },
+    findingsByStatus: { new: 0, still_open: 0, resolved: 0 },
+    inlineComments: stats.inlineComments,
+    suggestions: stats.suggestions,
+    billing: { ...stats.billing },
+  };
+  for (const finding of published?.findings ?? []) {
+    outcome.findingsByStatus[finding.status] += 1;
+    if (finding.status !== "resolved") {
+      outcome.findingsBySeverity[finding.severity] += 1;
+    }
+  }
+  return outcome;
+}
+
+interface ReviewRunStats {
+  inlineComments: number;
+  suggestions: number;
+  billing: ReviewOutcome["billing"];
+}
+
+async function executeReview(
+  input: ReviewRunInput,
+  onSummaryPublished: (summary: PublishedSummary) => void,
+  budget: BudgetGuard | null,
+  recorder: RunRecorder | null
+): Promise<ReviewRunStats> {
   const { config, context, octokit } = input;
   const log = (...args: unknown[]) => {
     if (config.debug) {
@@ -103,6 +199,7 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
     abortedByLimit: false,
     abortedByCancellation: false,
     terminatedByTool: false,
+    budgetExhausted: null as string | null,
     billing: {
       input: 0,
       output: 0,
@@ -134,6 +231,8 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       : "standard";
   const summaryRiskHints = detectSummaryRiskHints(filteredFiles);
   log(`filtered files: ${filteredFiles.length}`);
+  recorder?.setFiles(filteredFiles.map((file) => file.filename));
+  recorder?.setBilling(summaryState.billing);
 
   const readTools = createReadOnlyTools(config.repoRoot);
   const githubTools = createGithubTools({
@@ -143,6 +242,16 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
     pullNumber: context.prNumber,
     cache,
   });
+  let flushQueuedComments: (() => Promise<void>) | null = null;
+  // Fallback and failure summaries are plain comments, so inline comments still queued for a batched review
+  // are posted first instead of being lost with the run.
+  const postQueuedComments = async () => {
+    try {
+      await flushQueuedComments?.();
+    } catch (error) {
+      console.warn(`[warn] Failed to post queued inline comments: ${errorMessage(error)}`);
+    }
+  };
   const reviewTools = createReviewTools({
     octokit,
     owner: context.owner,
@@ -172,6 +281,15 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       changedLineCount,
       riskHints: summaryRiskHints,
     },
+    batchReview: config.batchReview,
+    onDeferredComments: (flush) => {
+      flushQueuedComments = flush;
+    },
+    onSummaryPublished,
+    stoppedEarly: () => summaryState.budgetExhausted,
+    findingState: { previous: input.previousFindings ?? [], dismissed: input.dismissedFindings ?? [] },
+    repoRoot: config.repoRoot,
+    fullPrChangedFiles: input.fullPrChangedFiles,
   });
   const webSearchTools = createWebSearchTool({
     apiKey: config.apiKey,
@@ -195,6 +313,13 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
     input.toolAllowlist.includes("github.pr.feedback");
 
   const fallbackQuotaThreshold = getFallbackQuotaThreshold();
+  const stopForBudget = (agent: AgentLike, reason: string) => {
+    if (summaryState.budgetExhausted) return;
+    summaryState.budgetExhausted = reason;
+    recorder?.setBudgetExhausted(reason);
+    console.warn(`[warn] Review budget exhausted: ${reason}. Stopping the agent.`);
+    agent.abort();
+  };
 
   function buildAgentForEndpoint(endpoint: ModelEndpoint, temperatureOvr?: number, clearCompactionModel = false) {
     const agentConfig: ReviewConfig = {
@@ -212,12 +337,14 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       summaryState,
       temperatureOverride: temperatureOvr,
       overrides: input.overrides,
+      onCompaction: recorder?.onCompaction,
     });
 
     const maxIterations = 10 + agentConfig.maxFiles * 5;
     let toolExecutions = 0;
 
     result.agent.subscribe((event) => {
+      recorder?.onAgentEvent(event);
       if (event.type === "tool_execution_start") {
         toolExecutions += 1;
         if (summaryState.posted && event.toolName !== "terminate") {
@@ -276,6 +403,10 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
           log(
             `billing model=${event.message.model} input=${usage.input} output=${usage.output} total=${usage.totalTokens} cost=${cost.total.toFixed(6)}`
           );
+          const exhausted = budget?.check(summaryState.billing);
+          if (exhausted && !summaryState.posted) {
+            stopForBudget(result.agent, exhausted);
+          }
         }
       }
       if (event.type === "agent_end") {
@@ -294,6 +425,10 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
 
   const { agent: primaryAgent, model, effectiveThinkingLevel } = buildAgentForEndpoint(primaryEndpoint, effectiveTemperature);
   let activeAgent: AgentLike = primaryAgent;
+  // The wall-clock budget covers the diagram and explainer passes too; promptAgent checks it before starting.
+  budget?.start((reason) => {
+    if (!summaryState.posted) stopForBudget(activeAgent, reason);
+  });
 
   const diagramFiles = await filterDiagramFiles(filteredFiles, config.repoRoot);
   const directoryCount = countDistinctDirectories(diagramFiles.map((file) => file.filename));
@@ -331,6 +466,10 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
     previousReviewUrl: input.previousReviewUrl ?? null,
     previousReviewAt: input.previousReviewAt ?? null,
     previousReviewBody: input.previousReviewBody ?? null,
+    carriedFindings: (input.previousFindings ?? []).filter(
+      (finding) => finding.status !== "resolved" && !findDismissal(finding, input.dismissedFindings ?? [])
+    ),
+    dismissedFindings: input.dismissedFindings ?? [],
     sequenceDiagram,
     changedLineCount,
     summaryModeCandidate,
@@ -374,6 +513,7 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
   }
 
   const promptAgent = async (agent: AgentLike) => {
+    if (summaryState.budgetExhausted) return;
     await agent.prompt(userPrompt);
     if (!summaryState.posted && agent.state.errorMessage) {
       log("agent state error after prompt", safeStringify(agent.state.errorMessage));
@@ -406,7 +546,7 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       await withRetries(
         () => promptAgent(activeAgent),
         3,
-        (error) => !summaryState.abortedByLimit && !isCancellationError(error),
+        (error) => !summaryState.abortedByLimit && !summaryState.budgetExhausted && !isCancellationError(error),
         { maxConsecutiveQuotaErrors: isLast ? undefined : fallbackQuotaThreshold }
       );
       log(isFallback ? `prompt done (fallback: ${endpoint.modelId})` : "prompt done");
@@ -418,14 +558,24 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
           `[fallback] ${endpoint.modelId} quota exhausted after ${error.consecutiveQuotaErrors} consecutive 429s. ` +
           `Switching to ${next.provider}/${next.modelId}.`
         );
+        recorder?.onFallback(
+          endpoint.modelId,
+          next.modelId,
+          `quota exhausted after ${error.consecutiveQuotaErrors} consecutive 429s`
+        );
         continue;
       }
 
+      if (summaryState.budgetExhausted) {
+        log("run stopped by budget; posting partial summary");
+        break;
+      }
+
       if (isCancellationError(error)) {
         if (!summaryState.terminatedByTool) {
           summaryState.abortedByCancellation = true;
           log("run canceled; skipping summary");
-          return;
+          return summaryState;
         }
         log("run terminated by tool; finishing gracefully");
         break;
@@ -442,6 +592,7 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
           ? `LLM request failed after retries (fallback: ${endpoint.modelId}).`
           : "LLM request failed after retries.";
       if (feedbackAllowed) {
+        await postQueuedComments();
         await postFailureSummary({
           octokit,
           owner: context.owner,
@@ -461,14 +612,25 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
     log(`agent error: ${activeAgent.state.errorMessage}`);
   }
 
-  if (isCancellationError(activeAgent.state.errorMessage) && !summaryState.terminatedByTool) {
+  if (
+    isCancellationError(activeAgent.state.errorMessage) &&
+    !summaryState.terminatedByTool &&
+    !summaryState.budgetExhausted
+  ) {
     summaryState.abortedByCancellation = true;
     log("run canceled; skipping summary");
-    return;
+    return summaryState;
+  }
+
+  if (summaryState.budgetExhausted && !summaryState.posted && feedbackAllowed) {
+    if (await postBudgetExhaustedSummary(tools, summaryState.budgetExhausted)) {
+      return summaryState;
+    }
   }
 
   if (!summaryState.posted && activeAgent.state.errorMessage && feedbackAllowed) {
     const reason = deriveErrorReason(activeAgent.state.errorMessage);
+    await postQueuedComments();
     await postFailureSummary({
       octokit,
       owner: context.owner,
@@ -479,18 +641,21 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       billing: summaryState.billing,
       reviewSha: input.prInfo.headSha,
     });
-    return;
+    return summaryState;
   }
 
   if (summaryState.abortedByCancellation) {
-    return;
+    return summaryState;
   }
 
   if (!summaryState.posted && feedbackAllowed) {
     const verdict = "Skipped";
-    const reason = summaryState.abortedByLimit || abortedByLimit
-      ? "Agent exceeded iteration limit before posting summary."
-      : "Agent failed to produce a review summary.";
+    const reason = summaryState.budgetExhausted
+      ? `Budget exhausted: ${summaryState.budgetExhausted}.`
+      : summaryState.abortedByLimit || abortedByLimit
+        ? "Agent exceeded iteration limit before posting summary."
+        : "Agent failed to produce a review summary.";
+    await postQueuedComments();
     await postFallbackSummary({
       octokit,
       owner: context.owner,
@@ -503,6 +668,7 @@ export async function runReview(input: ReviewRunInput): Promise<void> {
       reviewSha: input.prInfo.headSha,
     });
   }
+  return summaryState;
 }
 
 function detectSummaryRiskHints(files: ChangedFile[]): string[] {
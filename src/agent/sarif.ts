@@ -0,0 +1,77 @@
+import fs from "node:fs";
+import path from "node:path";
+import { SUMMARY_CATEGORIES } from "../summary.js";
+import type { PublishedSummary, SummaryCategory, SummarySeverity } from "../summary.js";
+
+const SARIF_SCHEMA = "https://json.schemastore.org/sarif-2.1.0.json";
+const TOOL_NAME = "shitty-reviewing-agent";
+const TOOL_URI = "https://github.com/victorarias/shitty-reviewing-agent";
+
+export type SarifLevel = "error" | "warning" | "note";
+
+/** Recorded as version control provenance so consumers know which commit the findings refer to. */
+export interface SarifRunMeta {
+  repositoryUri: string;
+  revisionId: string;
+}
+
+export function categoryToRuleId(category: SummaryCategory): string {
+  return category.toLowerCase().replace(/\s+/g, "-");
+}
+
+export function severityToSarifLevel(severity: SummarySeverity): SarifLevel {
+  if (severity === "high") return "error";
+  if (severity === "medium") return "warning";
+  return "note";
+}
+
+/**
+ * Build a SARIF 2.1.0 log from the findings post_summary published. Resolved findings and
+ * findings without a new-side anchor are left out: code scanning needs a location per result
+ * and closes alerts that disappear from later uploads.
+ */
+export function buildSarifLog(summary: PublishedSummary | null, meta?: SarifRunMeta): Record<string, unknown> {
+  const results = [];
+  for (const finding of summary?.findings ?? []) {
+    if (finding.status === "resolved") continue;
+    const locations = finding.locations.filter((location) => location.side === "RIGHT");
+    if (locations.length === 0) continue;
+    results.push({
+      ruleId: categoryToRuleId(finding.category),
+      level: severityToSarifLevel(finding.severity),
+      message: { text: [finding.title, finding.details, finding.action].filter(Boolean).join("\n\n") },
+      locations: locations.map((location) => ({
+        physicalLocation: {
+          artifactLocation: { uri: location.path, uriBaseId: "%SRCROOT%" },
+          region: { startLine: location.line },
+        },
+      })),
+      ...(finding.findingRef ? { partialFingerprints: { "findingRef/v1": finding.findingRef } } : {}),
+      properties: { severity: finding.severity, status: finding.status },
+    });
+  }
+  const run: Record<string, unknown> = {
+    tool: {
+      driver: {
+        name: TOOL_NAME,
+        informationUri: TOOL_URI,
+        rules: SUMMARY_CATEGORIES.map((category) => ({
+          id: categoryToRuleId(category),
+          name: category,
+          shortDescription: { text: `${category} finding` },
+        })),
+      },
+    },
+    results,
+  };
+  if (meta) {
+    run.versionControlProvenance = [{ repositoryUri: meta.repositoryUri, revisionId: meta.revisionId }];
+  }
+  return { $schema: SARIF_SCHEMA, version: "2.1.0", runs: [run] };
+}
+
+/** Write the SARIF log to `filePath`, creating parent directories as needed. */
+export function writeSarifReport(filePath: string, summary: PublishedSummary | null, meta?: SarifRunMeta): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(buildSarifLog(summary, meta), null, 2)}\n`, "utf8");
+}
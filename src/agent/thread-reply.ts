@@ -0,0 +1,173 @@
+import fs from "node:fs";
+import { calculateCost } from "@mariozechner/pi-ai";
+import path from "node:path";
+import { buildThreadReplySystemPrompt, buildThreadReplyUserPrompt } from "../prompts/thread-reply.js";
+import { filterToolsByAllowlist } from "../tools/categories.js";
+import { createReadOnlyTools, createReviewTools, createTerminateTool } from "../tools/index.js";
+import type {
+  ChangedFile,
+  ExistingComment,
+  PullRequestInfo,
+  ReviewConfig,
+  ReviewContext,
+  ReviewThreadInfo,
+  ToolCategory,
+} from "../types.js";
+import { createAgentWithCompaction } from "./agent-setup.js";
+import type { AgentSetupOverrides } from "./agent-setup.js";
+
+const BOT_COMMENT_MARKER = "<!-- sri:bot-comment -->";
+const READ_TOOLS = new Set(["read", "grep", "find", "ls"]);
+const THREAD_TOOLS = new Set(["reply_comment", "resolve_thread"]);
+const FILE_CONTEXT_LINES = 40;
+const MAX_TOOL_CALLS = 20;
+
+export interface ThreadReplyInput {
+  config: ReviewConfig;
+  context: ReviewContext;
+  octokit: ReturnType<typeof import("@actions/github").getOctokit>;
+  prInfo: PullRequestInfo;
+  changedFiles: ChangedFile[];
+  existingComments: ExistingComment[];
+  reviewThreads: ReviewThreadInfo[];
+  /** The review comment that triggered the run. */
+  commentId: number;
+  toolAllowlist?: ToolCategory[];
+  logInfo?: (message: string) => void;
+  overrides?: AgentSetupOverrides;
+}
+
+export interface BotThread {
+  root: ExistingComment;
+  thread: ReviewThreadInfo | null;
+  /** Root comment first, then replies in posting order. */
+  history: ExistingComment[];
+}
+
+/**
+ * Find the thread a human reply belongs to, provided this bot opened it.
+ * Returns null for replies by bots, on threads started by someone else, or on resolved threads.
+ */
+export function findBotThreadForReply(
+  commentId: number,
+  existingComments: ExistingComment[],
+  reviewThreads: ReviewThreadInfo[]
+): BotThread | null {
+  const reply = existingComments.find((comment) => comment.type === "review" && comment.id === commentId);
+  if (!reply?.inReplyToId || reply.body.includes(BOT_COMMENT_MARKER)) return null;
+  const root = existingComments.find((comment) => comment.type === "review" && comment.id === reply.inReplyToId);
+  if (!root?.body.includes(BOT_COMMENT_MARKER)) return null;
+  const thread = reviewThreads.find((item) => item.rootCommentId === root.id) ?? null;
+  if (thread?.resolved) return null;
+  const history = existingComments
+    .filter((comment) => comment.type === "review" && (comment.id === root.id || comment.inReplyToId === root.id))
+    .sort((a, b) => a.id - b.id);
+  return { root, thread, history };
+}
+
+/** Answer a human reply on a bot review thread: reply, concede, or resolve. */
+export async function runThreadReply(input: ThreadReplyInput): Promise<void> {
+  const logInfo = input.logInfo ?? (() => {});
+  const found = findBotThreadForReply(input.commentId, input.existingComments, input.reviewThreads);
+  if (!found) {
+    logInfo(`Review comment ${input.commentId} is not a human reply on an open bot thread. Nothing to do.`);
+    return;
+  }
+
+  const billing = { input: 0, output: 0, total: 0, cost: 0 };
+  const reviewTools = createReviewTools({
+    octokit: input.octokit,
+    owner: input.context.owner,
+    repo: input.context.repo,
+    pullNumber: input.context.prNumber,
+    headSha: input.prInfo.headSha,
+    modelId: input.config.modelId,
+    reviewSha: input.prInfo.headSha,
+    changedFiles: input.changedFiles,
+    getBilling: () => billing,
+    existingComments: input.existingComments,
+    reviewThreads: input.reviewThreads,
+    replyFooter: true,
+  });
+  const tools = filterToolsByAllowlist(
+    [
+      ...createReadOnlyTools(input.config.repoRoot).filter((tool) => READ_TOOLS.has(tool.name)),
+      ...reviewTools.filter((tool) => THREAD_TOOLS.has(tool.name)),
+      createTerminateTool(),
+    ],
+    input.toolAllowlist
+  );
+  if (!tools.some((tool) => tool.name === "reply_comment")) {
+    logInfo("reply_comment is not allowed by the tools allowlist. Skipping thread reply.");
+    return;
+  }
+
+  const { agent, model } = createAgentWithCompaction({
+    config: input.config,
+    systemPrompt: buildThreadReplySystemPrompt(tools.map((tool) => tool.name)),
+    tools,
+    contextState: {
+      filesRead: new Set<string>(),
+      filesDiffed: new Set<string>(),
+      truncatedReads: new Set<string>(),
+      partialReads: new Set<string>(),
+    },
+    summaryState: { posted: false, inlineComments: 0, suggestions: 0 },
+    overrides: input.overrides,
+  });
+
+  let toolCalls = 0;
+  agent.subscribe((event) => {
+    if (event.type === "message_end" && event.message.role === "assistant" && event.message.usage) {
+      const usage = event.message.usage;
+      billing.input += usage.input;
+      billing.output += usage.output;
+      billing.total += usage.totalTokens;
+      billing.cost += calculateCost(model, usage).total;
+    }
+    if (event.type === "tool_execution_start") {
+      toolCalls += 1;
+      if (toolCalls >= MAX_TOOL_CALLS) {
+        agent.abort();
+      }
+    }
+    if (event.type === "tool_execution_end" && event.toolName === "terminate") {
+      agent.abort();
+    }
+  });
+
+  const { root, thread, history } = found;
+  const line = thread?.line ?? root.line ?? null;
+  logInfo(`Replying on review thread ${thread?.id ?? root.id} (${root.path ?? "unknown path"}).`);
+  await agent.prompt(
+    buildThreadReplyUserPrompt({
+      prTitle: input.prInfo.title,
+      headSha: input.prInfo.headSha,
+      path: root.path ?? "(unknown)",
+      line,
+      threadId: thread?.id ?? root.id,
+      rootCommentId: root.id,
+      history: history.map((comment) => ({ author: comment.author, body: stripHiddenMarkers(comment.body) })),
+      fileExcerpt: readFileExcerpt(input.config.repoRoot, root.path, line),
+    })
+  );
+}
+
+/** Numbered lines around `line` (or the head of the file) from the checked-out tree. */
+export function readFileExcerpt(repoRoot: string, filePath: string | undefined, line: number | null): string {
+  if (!filePath) return "(no file path on this thread)";
+  const resolved = path.resolve(repoRoot, filePath);
+  if (!resolved.startsWith(path.resolve(repoRoot) + path.sep) || !fs.existsSync(resolved)) {
+    return `(${filePath} does not exist at head)`;
+  }
+  const lines = fs.readFileSync(resolved, "utf8").split(/\r?\n/);
+  const center = line && line > 0 ? line : 1;
+  const start = Math.max(1, center - FILE_CONTEXT_LINES);
+  const end = Math.min(lines.length, center + FILE_CONTEXT_LINES);
+  const numbered = lines.slice(start - 1, end).map((text, index) => `${start + index}: ${text}`);
+  return `${filePath} lines ${start}-${end} of ${lines.length}:\n\`\`\`\n${numbered.join("\n")}\n\`\`\``;
+}
+
+function stripHiddenMarkers(body: string): string {
+  return body.replace(/<!--[\s\S]*?-->/g, "").replace(/\n{3,}/g, "\n\n").trim();
+}
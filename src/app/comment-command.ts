@@ -0,0 +1,264 @@
+import type * as github from "@actions/github";
+import { runPrExplainer } from "../agent/pr-explainer.js";
+import { matchesBotMention, parseCommandInvocation } from "../commands/args.js";
+import type { CommandInvocation } from "../commands/args.js";
+import { findBuiltinCommand, formatCommandHelp, listAvailableCommands } from "../commands/builtins.js";
+import { runCommand } from "../commands/command-runner.js";
+import { checkCommandPermission, createTeamMembershipCheck } from "../commands/permissions.js";
+import { runPipeline } from "../commands/pipeline.js";
+import type { CommandRegistry } from "../commands/registry.js";
+import { createCommandReporter } from "../commands/report.js";
+import type { CommandReporter } from "../commands/report.js";
+import type { ActionConfig, PipelineDefinition, ReviewConfig, ReviewContext } from "../types.js";
+import { buildFindingDismissalOutcome } from "./finding-dismissals.js";
+import { runActionFlow } from "./flow.js";
+import { fetchReviewIgnore } from "./ignore.js";
+import { findLastFindingState } from "./last-review.js";
+import type { RunMode } from "./mode.js";
+import type { RunReport } from "./run-report.js";
+import { fetchExistingComments, fetchPrData, resolveSelfLogin } from "./pr-data.js";
+
+interface CommentCommandParams {
+  config: ActionConfig;
+  octokit: ReturnType<typeof github.getOctokit>;
+  context: ReviewContext;
+  mode: Extract<RunMode, { mode: "issue_comment" }>;
+  commandRegistry: CommandRegistry;
+  fetchPrDataFn?: typeof fetchPrData;
+  fetchExistingCommentsFn?: typeof fetchExistingComments;
+  fetchReviewIgnoreFn?: typeof fetchReviewIgnore;
+  runCommandFn?: typeof runCommand;
+  runActionFlowFn?: typeof runActionFlow;
+  runPrExplainerFn?: typeof runPrExplainer;
+  logInfo?: (message: string) => void;
+  runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
+  runReport?: RunReport;
+}
+
+/**
+ * Run a `!command` / `@bot command` from a PR comment: a `.reviewerc` command or pipeline, or a built-in
+ * (`help`, `review`, `explain`, `dismiss`, `reopen`). The invoking comment gets an eyes reaction straight away and a
+ * reply with the outcome once the command is done.
+ */
+export async function runCommentCommand(params: CommentCommandParams): Promise<void> {
+  const { config, octokit, context, mode } = params;
+  const logInfo = params.logInfo ?? console.info;
+  const invocation = parseCommandInvocation(mode.commentBody);
+  if (!invocation) return;
+  if (invocation.mention) {
+    if (!config.botName) {
+      logInfo(`Ignoring @${invocation.mention} command because bot-name is not configured.`);
+      return;
+    }
+    if (!matchesBotMention(invocation.mention, config.botName)) {
+      logInfo(`Ignoring @${invocation.mention} command (expected @${config.botName}).`);
+      return;
+    }
+  }
+
+  const reporter = createCommandReporter({
+    octokit,
+    context,
+    commentId: mode.commentId,
+    invocation: formatInvocation(invocation),
+    logInfo,
+  });
+  await reporter.acknowledge();
+
+  const builtin = findBuiltinCommand(invocation.command);
+  const command = params.commandRegistry.get(invocation.command) ?? builtin;
+  if (!command) {
+    const pipeline = params.commandRegistry.getPipeline(invocation.command);
+    if (pipeline) {
+      await runPipelineCommand({ ...params, pipeline, reporter, logInfo });
+      return;
+    }
+    logInfo(`Unknown command ${invocation.command}.`);
+    await reporter.report({
+      status: "unknown",
+      command: invocation.command,
+      available: [
+        ...listAvailableCommands(params.commandRegistry.list()).map((item) => item.id),
+        ...params.commandRegistry.listPipelines().map((item) => item.id),
+      ],
+    });
+    return;
+  }
+  if (command === builtin && builtin.id === "help") {
+    await reporter.report({
+      status: "completed",
+      command: builtin.id,
+      message: formatCommandHelp(params.commandRegistry.list(), params.commandRegistry.listPipelines()),
+    });
+    return;
+  }
+
+  try {
+    const { prInfo, changedFiles } = await (params.fetchPrDataFn ?? fetchPrData)(octokit, context);
+    const refusal = await checkCommandPermission({
+      command,
+      requester: { login: mode.author, authorAssociation: mode.authorAssociation },
+      prInfo,
+      isTeamMember: createTeamMembershipCheck(octokit, context.owner, logInfo),
+    });
+    if (refusal) {
+      logInfo(`Refusing command ${command.id}: ${refusal}`);
+      await reporter.report({ status: "refused", command: command.id, reason: refusal });
+      return;
+    }
+    if (command === builtin && builtin.id === "review") {
+      const outcome = await (params.runActionFlowFn ?? runActionFlow)({
+        config,
+        context,
+        octokit,
+        fullReview: true,
+        commandIds: config.reviewRun,
+        commandRegistry: params.commandRegistry,
+        toolsAllowlist: config.toolsAllowlist,
+        defaultCommentType: config.outputCommentType,
+        logInfo,
+        runGitFn: params.runGitFn,
+        runReport: params.runReport,
+      });
+      await reporter.report(
+        outcome.verdict === "Skipped"
+          ? { status: "skipped", command: command.id, reason: "the review was skipped; the summary comment says why." }
+          : { status: "completed", command: command.id, message: `Verdict: **${outcome.verdict}**.` }
+      );
+      return;
+    }
+    const { existingComments, reviewThreads } = await (params.fetchExistingCommentsFn ?? fetchExistingComments)(
+      octokit,
+      context
+    );
+    if (command === builtin && (builtin.id === "dismiss" || builtin.id === "reopen")) {
+      const selfLogin = await resolveSelfLogin(octokit, config.botName);
+      await reporter.report(
+        buildFindingDismissalOutcome({
+          action: builtin.id,
+          argv: invocation.argv,
+          requester: mode.author,
+          commentId: mode.commentId,
+          existingComments,
+          findingState: findLastFindingState(existingComments, selfLogin),
+          selfLogin,
+        })
+      );
+      return;
+    }
+    const reviewIgnore = await (params.fetchReviewIgnoreFn ?? fetchReviewIgnore)(octokit, context, prInfo.baseSha);
+    const reviewConfig: ReviewConfig = { ...config.review, ignorePatterns: [...config.review.ignorePatterns, ...reviewIgnore] };
+    if (command === builtin && builtin.id === "explain") {
+      await (params.runPrExplainerFn ?? runPrExplainer)({
+        config: reviewConfig,
+        context,
+        octokit,
+        prInfo,
+        changedFiles,
+        existingComments,
+      });
+      await reporter.report({ status: "completed", command: command.id });
+      return;
+    }
+    const result = await (params.runCommandFn ?? runCommand)({
+      mode: "pr",
+      command,
+      config: reviewConfig,
+      context,
+      octokit,
+      prInfo,
+      changedFiles,
+      existingComments,
+      reviewThreads,
+      commandArgs: { args: invocation.args, argv: invocation.argv },
+      commentType: command.comment?.type ?? config.outputCommentType,
+      allowlist: config.toolsAllowlist,
+      runGitFn: params.runGitFn,
+      runReport: params.runReport,
+    });
+    if (result.status === "invalid") {
+      await reporter.report({ status: "invalid", command: command.id, reason: result.reason, usage: result.usage });
+    } else if (result.status === "skipped") {
+      await reporter.report({ status: "skipped", command: command.id, reason: result.reason });
+    } else {
+      await reporter.report({ status: "completed", command: command.id });
+    }
+  } catch (error: any) {
+    const reason = error instanceof Error ? error.message : String(error);
+    await reporter.report({ status: "failed", command: command.id, reason }).catch((reportError: any) => {
+      logInfo(`[warn] Failed to report command failure: ${reportError?.message ?? reportError}`);
+    });
+    throw error;
+  }
+}
+
+/**
+ * `!<pipeline>`: run the steps the way `review.run` would, replying once for the whole pipeline.
+ * The commenter needs permission for every step's command, since the pipeline runs all of them.
+ */
+async function runPipelineCommand(
+  params: CommentCommandParams & {
+    pipeline: PipelineDefinition;
+    reporter: CommandReporter;
+    logInfo: (message: string) => void;
+  }
+): Promise<void> {
+  const { config, octokit, context, mode, pipeline, reporter, logInfo } = params;
+  try {
+    const { prInfo, changedFiles } = await (params.fetchPrDataFn ?? fetchPrData)(octokit, context);
+    const isTeamMember = createTeamMembershipCheck(octokit, context.owner, logInfo);
+    for (const step of pipeline.steps) {
+      const command = params.commandRegistry.get(step.command);
+      if (!command) continue;
+      const refusal = await checkCommandPermission({
+        command,
+        requester: { login: mode.author, authorAssociation: mode.authorAssociation },
+        prInfo,
+        isTeamMember,
+      });
+      if (refusal) {
+        logInfo(`Refusing pipeline ${pipeline.id} (step ${command.id}): ${refusal}`);
+        await reporter.report({ status: "refused", command: pipeline.id, reason: refusal });
+        return;
+      }
+    }
+    const { existingComments, reviewThreads } = await (params.fetchExistingCommentsFn ?? fetchExistingComments)(
+      octokit,
+      context
+    );
+    const reviewIgnore = await (params.fetchReviewIgnoreFn ?? fetchReviewIgnore)(octokit, context, prInfo.baseSha);
+    const reviewConfig: ReviewConfig = { ...config.review, ignorePatterns: [...config.review.ignorePatterns, ...reviewIgnore] };
+    await runPipeline({
+      pipeline,
+      commandRegistry: params.commandRegistry,
+      runCommandFn: params.runCommandFn ?? runCommand,
+      input: {
+        mode: "pr",
+        config: reviewConfig,
+        context,
+        octokit,
+        prInfo,
+        changedFiles,
+        existingComments,
+        reviewThreads,
+        allowlist: config.toolsAllowlist,
+        runGitFn: params.runGitFn,
+        runReport: params.runReport,
+      },
+      defaultCommentType: config.outputCommentType,
+      logInfo,
+    });
+    await reporter.report({ status: "completed", command: pipeline.id });
+  } catch (error: any) {
+    const reason = error instanceof Error ? error.message : String(error);
+    await reporter.report({ status: "failed", command: pipeline.id, reason }).catch((reportError: any) => {
+      logInfo(`[warn] Failed to report command failure: ${reportError?.message ?? reportError}`);
+    });
+    throw error;
+  }
+}
+
+function formatInvocation(invocation: CommandInvocation): string {
+  const prefix = invocation.mention ? `@${invocation.mention} ` : "!";
+  return `${prefix}${invocation.command}${invocation.args ? ` ${invocation.args}` : ""}`;
+}
@@ -1,11 +1,14 @@
 import * as core from "@actions/core";
 import fs from "node:fs";
+import os from "node:os";
 import path from "node:path";
 import { readReviewerc } from "./reviewerc.js";
-import type { ActionConfig, CommentType, ModelEndpoint, ReviewConfig, ToolCategory } from "../types.js";
+import { parseFailOn } from "./outcome.js";
+import type { ActionConfig, CommandDefinition, CommentType, ModelEndpoint, ReviewConfig, ToolCategory } from "../types.js";
 
 const DEFAULT_IGNORE_PATTERNS = "*.lock,*.generated.*";
 const DEFAULT_MAX_FILES = 50;
+const DEFAULT_DRY_RUN_DIR = "sri-dry-run";
 const DEFAULT_COMMENT_TYPE: CommentType = "both";
 const DEFAULT_TOOLS_ALLOWLIST: ToolCategory[] = [
   "agent.subagent",
@@ -49,6 +52,13 @@ export function readConfig(): ActionConfig {
   const botNameInput = getOptionalInput("bot-name");
   const allowPrToolsInput = getOptionalInput("allow-pr-tools");
   const experimentalPrExplainerInput = getOptionalInput("experimental-pr-explainer");
+  const batchReviewInput = getOptionalInput("batch-review");
+  const checkRunInput = getOptionalInput("check-run");
+  const sarifOutputInput = getOptionalInput("sarif-output");
+  const runReportInput = getOptionalInput("run-report");
+  const failOnInput = getOptionalInput("fail-on");
+  const dryRunInput = getOptionalInput("dry-run");
+  const dryRunDirInput = getOptionalInput("dry-run-dir");
 
   const providerRaw = providerInput ?? reviewDefaults.provider ?? "";
   if (!providerRaw) {
@@ -91,6 +101,26 @@ export function readConfig(): ActionConfig {
     experimentalPrExplainerInput !== undefined
       ? experimentalPrExplainerInput.toLowerCase() === "true"
       : reviewerc?.review?.experimental?.prExplainer ?? false;
+  const batchReview =
+    batchReviewInput !== undefined
+      ? batchReviewInput.toLowerCase() === "true"
+      : reviewerc?.review?.batchReview ?? false;
+  const checkRun =
+    checkRunInput !== undefined
+      ? checkRunInput.toLowerCase() === "true"
+      : reviewerc?.review?.checkRun ?? false;
+  const sarifOutputRaw = sarifOutputInput ?? reviewerc?.review?.sarifOutput;
+  const sarifOutput = sarifOutputRaw ? path.resolve(repoRoot, sarifOutputRaw) : undefined;
+  const runReportRaw = runReportInput ?? reviewerc?.review?.runReport;
+  const runReport = runReportRaw ? path.resolve(repoRoot, runReportRaw) : undefined;
+  const failOn = parseFailOn(failOnInput ?? reviewerc?.review?.failOn ?? "");
+  const dryRun =
+    dryRunInput !== undefined
+      ? dryRunInput.toLowerCase() === "true"
+      : reviewerc?.review?.dryRun ?? false;
+  const dryRunDir = dryRunDirInput
+    ? path.resolve(repoRoot, dryRunDirInput)
+    : path.join(process.env.RUNNER_TEMP || os.tmpdir(), DEFAULT_DRY_RUN_DIR);
 
   if (!apiKeyInput && provider !== "google-vertex") {
     throw new Error("api-key is required for non-Vertex providers. For Vertex AI, api-key is optional (ADC or key).");
@@ -131,18 +161,82 @@ export function readConfig(): ActionConfig {
     reasoning,
     temperature,
     allowPrToolsInReview: allowPrTools,
+    batchReview,
+    checkRun,
+    sarifOutput,
     experimentalPrExplainer,
     fallback,
+    budget: reviewerc?.review?.limits,
   };
 
   return {
     review,
     reviewRun: reviewerc?.review?.run ?? [],
     commands: reviewerc?.commands ?? [],
+    pipelines: reviewerc?.pipelines ?? [],
     schedule: reviewerc?.schedule,
     toolsAllowlist: reviewerc?.tools?.allowlist ?? DEFAULT_TOOLS_ALLOWLIST,
     outputCommentType: reviewerc?.output?.commentType ?? DEFAULT_COMMENT_TYPE,
     botName: botNameInput,
+    dryRun,
+    dryRunDir,
+    runReport,
+    failOn,
+    triggers: {
+      actions: reviewerc?.review?.triggers,
+      skipDrafts: reviewerc?.review?.skipDrafts ?? false,
+      runOnLabels: reviewerc?.review?.runOnLabels ?? {},
+      mergeGroup: reviewerc?.review?.mergeGroup ?? [],
+    },
+    concurrency: {
+      limit: reviewerc?.review?.concurrency ?? 1,
+      includeReview: reviewerc?.review?.concurrentReview ?? false,
+    },
+  };
+}
+
+/**
+ * Apply a command's `model` block on top of the review config. A command on another provider reuses
+ * the primary api-key (or fallback-api-key when the fallback provider matches), as with review fallbacks.
+ */
+export function resolveCommandReviewConfig(
+  base: ReviewConfig,
+  command: CommandDefinition,
+  logWarning: (message: string) => void = console.warn
+): ReviewConfig {
+  const override = command.model;
+  if (!override) return base;
+
+  const provider = override.provider ? normalizeProvider(override.provider) : base.provider;
+  if (provider !== base.provider && !override.model) {
+    throw new Error(`Command ${command.id}: model.model is required when model.provider differs from the review provider.`);
+  }
+  const modelId = override.model ?? base.modelId;
+  const keyFor = (target: string) =>
+    base.fallback && base.fallback.provider === target && target !== base.provider ? base.fallback.apiKey : base.apiKey;
+  if (provider !== base.provider && keyFor(provider) === base.apiKey) {
+    logWarning(
+      `[warn] Command ${command.id} uses provider ${provider} but the api-key is for ${base.provider}. The primary api-key will be used, which may not work.`
+    );
+  }
+  const reasoning = override.reasoning !== undefined ? parseReasoning(override.reasoning) : base.reasoning;
+
+  let fallback = base.fallback;
+  if (override.fallback?.model) {
+    const fallbackProvider = override.fallback.provider ? normalizeProvider(override.fallback.provider) : provider;
+    fallback = { provider: fallbackProvider, modelId: override.fallback.model, apiKey: keyFor(fallbackProvider) };
+  }
+
+  return {
+    ...base,
+    provider,
+    modelId,
+    apiKey: keyFor(provider),
+    reasoning,
+    temperature: override.temperature ?? base.temperature,
+    // compaction-model names a model on the review provider.
+    compactionModel: provider === base.provider ? base.compactionModel : undefined,
+    fallback,
   };
 }
 
@@ -0,0 +1,36 @@
+import fs from "node:fs";
+import path from "node:path";
+import { renderRecordedWrites } from "./recording-octokit.js";
+import type { RecordedWrite } from "./recording-octokit.js";
+
+export interface DryRunArtifactMeta {
+  eventName: string;
+  repository: string;
+  prNumber?: number;
+}
+
+export interface DryRunArtifactPaths {
+  jsonPath: string;
+  markdownPath: string;
+}
+
+/** Persist what a dry run would have posted as `dry-run.json` + `dry-run.md` in `dir`. */
+export function writeDryRunArtifacts(
+  dir: string,
+  writes: RecordedWrite[],
+  meta: DryRunArtifactMeta
+): DryRunArtifactPaths {
+  fs.mkdirSync(dir, { recursive: true });
+  const jsonPath = path.join(dir, "dry-run.json");
+  const markdownPath = path.join(dir, "dry-run.md");
+  const payload = {
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    ...meta,
+    writes,
+  };
+  const target = meta.prNumber ? `${meta.repository}#${meta.prNumber}` : meta.repository;
+  fs.writeFileSync(jsonPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  fs.writeFileSync(markdownPath, renderRecordedWrites(writes, `Dry run: ${target} (${meta.eventName})`), "utf8");
+  return { jsonPath, markdownPath };
+}
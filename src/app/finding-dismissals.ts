@@ -0,0 +1,170 @@
+import type * as github from "@actions/github";
+import { parseCommandInvocation } from "../commands/args.js";
+import { parseDismissalRecord, renderDismissalRecord } from "../finding-state.js";
+import type { FindingDismissal, FindingDismissalRecord, FindingState } from "../finding-state.js";
+import type { CommandOutcome } from "../commands/report.js";
+import type { ExistingComment, ReviewContext } from "../types.js";
+import { TRUSTED_AUTHOR_ASSOCIATIONS } from "./permissions.js";
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+const FINDING_REF_MARKER = /<!--\s*sri:finding-ref:([a-z0-9][a-z0-9._:-]{0,79})\s*-->/;
+const FINDING_REF_PATTERN = /^[a-z0-9][a-z0-9._:-]{0,79}$/;
+const WRITE_PERMISSIONS = new Set(["admin", "maintain", "write"]);
+
+/**
+ * Findings dismissed on this PR. `!dismiss` / `!reopen` records in bot replies decide a ref with
+ * command history (newest wins); a record only counts while the comment it answers still invokes
+ * that command for that ref and its author is trusted to run it. Both are checked again on every run: the previous finding state only
+ * supplies the fingerprint and title of a finding that already left its `findings`. Only comments by
+ * `selfLogin` (see resolveSelfLogin) count as the bot's; other apps and workflows can comment too.
+ */
+export async function collectFindingDismissals(params: {
+  octokit: Octokit;
+  context: ReviewContext;
+  existingComments: ExistingComment[];
+  findingState: FindingState | null;
+  selfLogin: string;
+  logInfo?: (message: string) => void;
+}): Promise<FindingDismissal[]> {
+  const { octokit, context, existingComments, findingState, selfLogin } = params;
+  const logInfo = params.logInfo ?? console.info;
+  const dismissed = new Map<string, FindingDismissal>();
+  const commandRefs = new Set<string>();
+
+  const records = existingComments
+    .filter((comment) => comment.type === "issue" && isBotAuthor(comment, selfLogin))
+    .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+    .flatMap((comment) => {
+      const record = parseDismissalRecord(comment.body);
+      return record && isTrustedInvocation(record, existingComments) ? [record] : [];
+    });
+  for (const record of records) {
+    commandRefs.add(record.ref);
+    if (record.action === "reopen") {
+      dismissed.delete(record.ref);
+      continue;
+    }
+    dismissed.set(record.ref, {
+      ref: record.ref,
+      ...(record.fingerprint ? { fingerprint: record.fingerprint } : {}),
+      ...(record.title ? { title: record.title } : {}),
+      reason: record.reason ?? "",
+      by: record.by,
+      source: "command",
+    });
+  }
+  const canWrite = new Map<string, Promise<boolean>>();
+  const hasWriteAccess = (login: string) => {
+    if (!canWrite.has(login)) {
+      canWrite.set(
+        login,
+        octokit.rest.repos
+          .getCollaboratorPermissionLevel({ owner: context.owner, repo: context.repo, username: login })
+          .then((response) => WRITE_PERMISSIONS.has(response.data?.permission ?? ""))
+          .catch(() => false)
+      );
+    }
+    return canWrite.get(login)!;
+  };
+  for (const comment of existingComments) {
+    if (comment.type !== "review" || comment.inReplyToId || !comment.thumbsDown || !isBotAuthor(comment, selfLogin)) continue;
+    const ref = comment.body.match(FINDING_REF_MARKER)?.[1];
+    if (!ref || commandRefs.has(ref) || dismissed.has(ref)) continue;
+    try {
+      const reactions = await octokit.paginate(octokit.rest.reactions.listForPullRequestReviewComment, {
+        owner: context.owner,
+        repo: context.repo,
+        comment_id: comment.id,
+        content: "-1",
+        per_page: 100,
+      });
+      for (const reaction of reactions as Array<{ user?: { login?: string } | null }>) {
+        const login = reaction.user?.login;
+        if (!login || !(await hasWriteAccess(login))) continue;
+        const entry =
+          findingState?.findings.find((finding) => finding.ref === ref) ??
+          findingState?.dismissed?.find((finding) => finding.ref === ref);
+        dismissed.set(ref, {
+          ref,
+          ...(entry?.fingerprint ? { fingerprint: entry.fingerprint } : {}),
+          ...(entry?.title ? { title: entry.title } : {}),
+          reason: `👎 on comment ${comment.id}`,
+          by: login,
+          source: "reaction",
+        });
+        break;
+      }
+    } catch (error: any) {
+      logInfo(`[warn] Failed to read reactions on comment ${comment.id}: ${error?.message ?? error}`);
+    }
+  }
+  return [...dismissed.values()];
+}
+
+/**
+ * `!dismiss <finding_ref> "reason"` / `!reopen <finding_ref>`. The outcome message carries the
+ * dismissal record, so the command reply is what persists the decision on the PR.
+ */
+export function buildFindingDismissalOutcome(params: {
+  action: FindingDismissalRecord["action"];
+  argv: string[];
+  requester: string;
+  /** The invoking comment; later runs check its author before trusting the record. */
+  commentId: number;
+  existingComments: ExistingComment[];
+  findingState: FindingState | null;
+  selfLogin: string;
+}): CommandOutcome {
+  const { action, argv, findingState } = params;
+  const usage = action === "dismiss"
+    ? 'Usage: `!dismiss <finding_ref> "reason"`. Finding refs are listed under "Finding refs" in the review summary.'
+    : "Usage: `!reopen <finding_ref>`.";
+  const ref = argv[0]?.trim().toLowerCase();
+  if (!ref || !FINDING_REF_PATTERN.test(ref)) {
+    return { status: "invalid", command: action, reason: "a finding_ref is required.", usage };
+  }
+  const reason = argv.slice(1).join(" ").trim();
+  if (action === "dismiss" && !reason) {
+    return { status: "invalid", command: action, reason: "give a reason for the dismissal.", usage };
+  }
+  const entry = findingState?.findings.find((finding) => finding.ref === ref);
+  const previous = findingState?.dismissed?.find((finding) => finding.ref === ref);
+  const known =
+    entry ||
+    previous ||
+    params.existingComments.some(
+      (comment) => isBotAuthor(comment, params.selfLogin) && (comment.body.match(FINDING_REF_MARKER)?.[1] === ref || parseDismissalRecord(comment.body)?.ref === ref)
+    );
+  if (!known) {
+    return { status: "invalid", command: action, reason: `no finding with ref \`${ref}\` on this PR.`, usage };
+  }
+  const fingerprint = entry?.fingerprint ?? previous?.fingerprint;
+  const title = entry?.title ?? previous?.title;
+  const record: FindingDismissalRecord = {
+    action,
+    ref,
+    ...(fingerprint ? { fingerprint } : {}),
+    ...(title ? { title } : {}),
+    ...(action === "dismiss" ? { reason } : {}),
+    by: params.requester,
+    commentId: params.commentId,
+  };
+  const label = title ? `\`${ref}\` (${title})` : `\`${ref}\``;
+  const message = action === "dismiss"
+    ? `Dismissed ${label}. Later reviews will not report it again; \`!reopen ${ref}\` undoes this.`
+    : `Reopened ${label}. Later reviews may report it again.`;
+  return { status: "completed", command: action, message: `${message}\n\n${renderDismissalRecord(record)}` };
+}
+
+function isTrustedInvocation(record: FindingDismissalRecord, comments: ExistingComment[]): boolean {
+  const invoking = comments.find((comment) => comment.type === "issue" && comment.id === record.commentId);
+  if (!invoking || invoking.author.toLowerCase() !== record.by.toLowerCase()) return false;
+  if (!TRUSTED_AUTHOR_ASSOCIATIONS.includes(invoking.authorAssociation ?? "")) return false;
+  const invocation = parseCommandInvocation(invoking.body);
+  return invocation?.command === record.action && invocation.argv[0]?.trim().toLowerCase() === record.ref;
+}
+
+function isBotAuthor(comment: ExistingComment, selfLogin: string): boolean {
+  return comment.author.toLowerCase() === selfLogin.toLowerCase();
+}
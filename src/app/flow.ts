@@ -1,11 +1,14 @@
 import type {
   ActionConfig,
   ChangedFile,
+  CommandDefinition,
   CommentType,
   ExistingComment,
+  PipelineDefinition,
   PullRequestInfo,
   ReviewConfig,
   ReviewContext,
+  ReviewOutcome,
   ReviewThreadInfo,
   ToolCategory,
 } from "../types.js";
@@ -13,16 +16,26 @@ import type * as github from "@actions/github";
 import {
   fetchChangesSinceReview,
   fetchExistingComments,
+  fetchMergeGroupData,
   fetchPrData,
+  resolveSelfLogin,
   REVIEW_SCOPE_DECISIONS,
   REVIEW_SCOPE_REASON_CODES,
 } from "./pr-data.js";
-import { findLastReviewedSha, findLastSummary } from "./last-review.js";
-import { applyIgnorePatterns } from "./ignore.js";
+import { findLastFindingState, findLastReviewedSha, findLastSummary } from "./last-review.js";
+import { collectFindingDismissals } from "./finding-dismissals.js";
+import { applyIgnorePatterns, fetchReviewIgnore } from "./ignore.js";
+import { commandOutcome, skippedReviewOutcome } from "./outcome.js";
 import { postNoNewChangesSummary, postSkipSummary } from "./summary.js";
 import { runReview } from "../agent.js";
 import type { CommandRegistry } from "../commands/registry.js";
 import { runCommand } from "../commands/command-runner.js";
+import type { CommandOutput } from "../commands/command-runner.js";
+import { runPipeline } from "../commands/pipeline.js";
+import type { AgentSetupOverrides } from "../agent/agent-setup.js";
+import { createLlmLimiter } from "../agent/llm-limiter.js";
+import { writeSarifReport } from "../agent/sarif.js";
+import type { RunReport } from "./run-report.js";
 
 export async function runActionFlow(params: {
   config: ActionConfig;
@@ -35,15 +48,20 @@ export async function runActionFlow(params: {
   runReviewFn?: typeof runReview;
   postSkipSummaryFn?: typeof postSkipSummary;
   postNoNewChangesSummaryFn?: typeof postNoNewChangesSummary;
+  collectFindingDismissalsFn?: typeof collectFindingDismissals;
+  fetchReviewIgnoreFn?: typeof fetchReviewIgnore;
   commandIds?: string[];
   commandRegistry?: CommandRegistry;
   runCommandFn?: typeof runCommand;
   toolsAllowlist?: ToolCategory[];
   defaultCommentType?: CommentType;
   logInfo?: (message: string) => void;
-}): Promise<void> {
+  runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
+  /** Review the whole PR even when a previous review SHA would narrow the scope (e.g. `!review`). */
+  fullReview?: boolean;
+  runReport?: RunReport;
+}): Promise<ReviewOutcome> {
   const { config, context, octokit } = params;
-  const reviewConfig: ReviewConfig = config.review;
   const fetchPrDataImpl = params.fetchPrDataFn ?? fetchPrData;
   const fetchExistingCommentsImpl = params.fetchExistingCommentsFn ?? fetchExistingComments;
   const fetchChangesSinceReviewImpl = params.fetchChangesSinceReviewFn ?? fetchChangesSinceReview;
@@ -51,23 +69,39 @@ export async function runActionFlow(params: {
   const postSkipSummaryImpl = params.postSkipSummaryFn ?? postSkipSummary;
   const postNoNewChangesSummaryImpl = params.postNoNewChangesSummaryFn ?? postNoNewChangesSummary;
   const runCommandImpl = params.runCommandFn ?? runCommand;
+  const collectFindingDismissalsImpl = params.collectFindingDismissalsFn ?? collectFindingDismissals;
+  const fetchReviewIgnoreImpl = params.fetchReviewIgnoreFn ?? fetchReviewIgnore;
   const logInfo = params.logInfo ?? console.info;
 
   const { prInfo, changedFiles } = await fetchPrDataImpl(octokit, context);
+  const reviewConfig: ReviewConfig = {
+    ...config.review,
+    ignorePatterns: [...config.review.ignorePatterns, ...(await fetchReviewIgnoreImpl(octokit, context, prInfo.baseSha))],
+  };
   const { existingComments, reviewThreads } = await fetchExistingCommentsImpl(octokit, context);
   const lastReviewedSha = findLastReviewedSha(existingComments);
   const lastSummary = findLastSummary(existingComments);
-  const scopedResult = lastReviewedSha
+  const selfLogin = await resolveSelfLogin(octokit, config.botName);
+  const lastFindingState = findLastFindingState(existingComments, selfLogin);
+  const scopedResult = lastReviewedSha && !params.fullReview
     ? await fetchChangesSinceReviewImpl(octokit, context, lastReviewedSha, prInfo.headSha, changedFiles, {
       repoRoot: reviewConfig.repoRoot,
     })
-    : {
-      files: changedFiles,
-      warning: null,
-      decision: REVIEW_SCOPE_DECISIONS.REVIEW,
-      reasonCode: REVIEW_SCOPE_REASON_CODES.NO_PREVIOUS_REVIEW_SHA_REVIEW_FULL_PR,
-      reason: "No previous review SHA marker found. Reviewing current PR diff.",
-    };
+    : params.fullReview
+      ? {
+        files: changedFiles,
+        warning: null,
+        decision: REVIEW_SCOPE_DECISIONS.REVIEW,
+        reasonCode: REVIEW_SCOPE_REASON_CODES.FULL_REVIEW_REQUESTED,
+        reason: "Full re-review requested. Reviewing current PR diff.",
+      }
+      : {
+        files: changedFiles,
+        warning: null,
+        decision: REVIEW_SCOPE_DECISIONS.REVIEW,
+        reasonCode: REVIEW_SCOPE_REASON_CODES.NO_PREVIOUS_REVIEW_SHA_REVIEW_FULL_PR,
+        reason: "No previous review SHA marker found. Reviewing current PR diff.",
+      };
 
   if (reviewConfig.debug && params.logDebug) {
     params.logDebug(`[debug] PR #${prInfo.number} ${prInfo.title}`);
@@ -80,8 +114,8 @@ export async function runActionFlow(params: {
     params.logDebug(`[debug] Existing comments: ${existingComments.length}`);
   }
 
-  const filtered = applyIgnorePatterns(scopedResult.files, reviewConfig.ignorePatterns);
-  const filteredFullPrFiles = applyIgnorePatterns(changedFiles, reviewConfig.ignorePatterns);
+  const filtered = applyIgnorePatterns(scopedResult.files, reviewConfig.ignorePatterns, reviewConfig.repoRoot, changedFiles);
+  const filteredFullPrFiles = applyIgnorePatterns(changedFiles, reviewConfig.ignorePatterns, reviewConfig.repoRoot);
   logScopeShadowTelemetry({
     logInfo,
     prNumber: prInfo.number,
@@ -93,6 +127,15 @@ export async function runActionFlow(params: {
     scopedFilesAfterIgnore: filtered.length,
     fullPrFilesAfterIgnore: filteredFullPrFiles.length,
   });
+  params.runReport?.setScope({
+    decision: scopedResult.decision,
+    reasonCode: scopedResult.reasonCode,
+    reason: scopedResult.reason,
+    lastReviewedSha: params.fullReview ? null : lastReviewedSha,
+    headSha: prInfo.headSha,
+    scopedFiles: filtered.length,
+    prFiles: filteredFullPrFiles.length,
+  });
   if (scopedResult.decision === REVIEW_SCOPE_DECISIONS.SKIP_CONFIDENT) {
     await postNoNewChangesSummaryImpl(
       octokit,
@@ -101,56 +144,270 @@ export async function runActionFlow(params: {
       prInfo.headSha,
       scopedResult.reason
     );
-    return;
+    writeSkippedSarifReport(reviewConfig, context, prInfo.headSha, logInfo);
+    return skippedReviewOutcome();
   }
   if (filtered.length > reviewConfig.maxFiles) {
     await postSkipSummaryImpl(octokit, context, reviewConfig.modelId, filtered.length, reviewConfig.maxFiles);
-    return;
+    writeSkippedSarifReport(reviewConfig, context, prInfo.headSha, logInfo);
+    return skippedReviewOutcome();
+  }
+
+  // With review.concurrency > 1 every agent in this run shares one cap on model requests in flight.
+  const concurrency = config.concurrency?.limit ?? 1;
+  const overrides = concurrency > 1 ? { streamFn: createLlmLimiter(concurrency).wrap() } : undefined;
+  const dismissedFindings = await collectFindingDismissalsImpl({
+    octokit,
+    context,
+    existingComments,
+    findingState: lastFindingState,
+    selfLogin,
+    logInfo,
+  });
+  const runMainReview = () =>
+    runReviewImpl({
+      config: reviewConfig,
+      context,
+      octokit,
+      prInfo,
+      changedFiles: filtered,
+      fullPrChangedFiles: filteredFullPrFiles,
+      existingComments,
+      reviewThreads,
+      lastReviewedSha: params.fullReview ? null : lastReviewedSha,
+      scopeWarning: scopedResult.warning ?? null,
+      previousVerdict: lastSummary?.verdict ?? null,
+      previousReviewUrl: lastSummary?.url ?? null,
+      previousReviewAt: lastSummary?.updatedAt ?? null,
+      previousReviewBody: lastSummary?.body ?? null,
+      previousFindings: lastFindingState?.findings ?? [],
+      dismissedFindings,
+      toolAllowlist: params.toolsAllowlist,
+      runReport: params.runReport,
+      overrides,
+    });
+  const runConfiguredCommands = async (postAfter?: Promise<unknown>) => {
+    if (!params.commandIds || params.commandIds.length === 0 || !params.commandRegistry) return;
+    await runCommandIds({
+      source: "review.run",
+      commandIds: params.commandIds,
+      commandRegistry: params.commandRegistry,
+      runCommandFn: runCommandImpl,
+      config: reviewConfig,
+      context,
+      octokit,
+      prInfo,
+      changedFiles: filtered,
+      existingComments,
+      reviewThreads,
+      defaultCommentType: params.defaultCommentType,
+      toolsAllowlist: params.toolsAllowlist,
+      logInfo,
+      runGitFn: params.runGitFn,
+      concurrency,
+      overrides,
+      postAfter,
+      runReport: params.runReport,
+    });
+  };
+
+  if (concurrency > 1 && config.concurrency?.includeReview) {
+    const review = runMainReview();
+    // Commands start straight away but post their summaries only after the review has posted its own.
+    const [reviewResult, commandsResult] = await Promise.allSettled([review, runConfiguredCommands(review)]);
+    if (reviewResult.status === "rejected") throw reviewResult.reason;
+    if (commandsResult.status === "rejected") throw commandsResult.reason;
+    return reviewResult.value;
   }
+  const outcome = await runMainReview();
+  await runConfiguredCommands();
+  return outcome;
+}
 
-  await runReviewImpl({
+/**
+ * Run commands against a PR without the full review, e.g. for label or merge queue triggers.
+ * With `mergeGroup` the commands see the merge group head and its diff against the queue base.
+ */
+export async function runPrCommands(params: {
+  config: ActionConfig;
+  context: ReviewContext;
+  octokit: ReturnType<typeof github.getOctokit>;
+  source: string;
+  commandIds: string[];
+  commandRegistry: CommandRegistry;
+  mergeGroup?: { baseSha: string; headSha: string };
+  fetchPrDataFn?: typeof fetchPrData;
+  fetchMergeGroupDataFn?: typeof fetchMergeGroupData;
+  fetchExistingCommentsFn?: typeof fetchExistingComments;
+  fetchReviewIgnoreFn?: typeof fetchReviewIgnore;
+  runCommandFn?: typeof runCommand;
+  logInfo?: (message: string) => void;
+  runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
+  runReport?: RunReport;
+}): Promise<ReviewOutcome> {
+  const { config, context, octokit } = params;
+  const fetchPrDataImpl = params.fetchPrDataFn ?? fetchPrData;
+  const fetchMergeGroupDataImpl = params.fetchMergeGroupDataFn ?? fetchMergeGroupData;
+  const fetchExistingCommentsImpl = params.fetchExistingCommentsFn ?? fetchExistingComments;
+  const fetchReviewIgnoreImpl = params.fetchReviewIgnoreFn ?? fetchReviewIgnore;
+  const { prInfo, changedFiles } = params.mergeGroup
+    ? await fetchMergeGroupDataImpl(octokit, context, params.mergeGroup)
+    : await fetchPrDataImpl(octokit, context);
+  const reviewConfig: ReviewConfig = {
+    ...config.review,
+    ignorePatterns: [...config.review.ignorePatterns, ...(await fetchReviewIgnoreImpl(octokit, context, prInfo.baseSha))],
+  };
+  const { existingComments, reviewThreads } = await fetchExistingCommentsImpl(octokit, context);
+  const concurrency = config.concurrency?.limit ?? 1;
+  const outputs = await runCommandIds({
+    source: params.source,
+    commandIds: params.commandIds,
+    commandRegistry: params.commandRegistry,
+    runCommandFn: params.runCommandFn ?? runCommand,
     config: reviewConfig,
     context,
     octokit,
     prInfo,
-    changedFiles: filtered,
-    fullPrChangedFiles: filteredFullPrFiles,
+    changedFiles: applyIgnorePatterns(changedFiles, reviewConfig.ignorePatterns, reviewConfig.repoRoot),
     existingComments,
     reviewThreads,
-    lastReviewedSha,
-    scopeWarning: scopedResult.warning ?? null,
-    previousVerdict: lastSummary?.verdict ?? null,
-    previousReviewUrl: lastSummary?.url ?? null,
-    previousReviewAt: lastSummary?.updatedAt ?? null,
-    previousReviewBody: lastSummary?.body ?? null,
-    toolAllowlist: params.toolsAllowlist,
+    defaultCommentType: config.outputCommentType,
+    toolsAllowlist: config.toolsAllowlist,
+    logInfo: params.logInfo ?? console.info,
+    runGitFn: params.runGitFn,
+    concurrency,
+    overrides: concurrency > 1 ? { streamFn: createLlmLimiter(concurrency).wrap() } : undefined,
+    runReport: params.runReport,
   });
+  return commandOutcome(outputs);
+}
 
-  if (params.commandIds && params.commandIds.length > 0 && params.commandRegistry) {
-    for (const commandId of params.commandIds) {
-      const command = params.commandRegistry.get(commandId);
-      if (!command) {
-        logInfo(`[warn] Unknown command id in review.run: ${commandId}`);
-        continue;
+async function runCommandIds(params: {
+  source: string;
+  commandIds: string[];
+  commandRegistry: CommandRegistry;
+  runCommandFn: typeof runCommand;
+  config: ReviewConfig;
+  context: ReviewContext;
+  octokit: ReturnType<typeof github.getOctokit>;
+  prInfo: PullRequestInfo;
+  changedFiles: ChangedFile[];
+  existingComments: ExistingComment[];
+  reviewThreads: ReviewThreadInfo[];
+  defaultCommentType?: CommentType;
+  toolsAllowlist?: ToolCategory[];
+  logInfo: (message: string) => void;
+  runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
+  /** Commands running at once; 1 (the default) runs them one after another. */
+  concurrency?: number;
+  overrides?: AgentSetupOverrides;
+  /** Settles once the main review is done; the first command's summary waits for it. */
+  postAfter?: Promise<unknown>;
+  runReport?: RunReport;
+}): Promise<CommandOutput[]> {
+  const commands = params.commandIds.flatMap((commandId) => {
+    const command = params.commandRegistry.get(commandId) ?? params.commandRegistry.getPipeline(commandId);
+    if (!command) {
+      params.logInfo(`[warn] Unknown command id in ${params.source}: ${commandId}`);
+      return [];
+    }
+    return [command];
+  });
+  const limit = Math.max(1, Math.floor(params.concurrency ?? 1));
+  const finished = commands.map(() => createDeferred());
+  const outputs: CommandOutput[][] = commands.map(() => []);
+
+  const runOne = async (command: CommandDefinition | PipelineDefinition, index: number) => {
+    // Summaries are posted in `commandIds` order: each command's summary waits for the previous command.
+    const turn = index === 0 ? params.postAfter : finished[index - 1].promise;
+    const input = {
+      mode: "pr" as const,
+      config: params.config,
+      context: params.context,
+      octokit: params.octokit,
+      prInfo: params.prInfo,
+      changedFiles: params.changedFiles,
+      existingComments: params.existingComments,
+      reviewThreads: params.reviewThreads,
+      allowlist: params.toolsAllowlist ?? [],
+      runGitFn: params.runGitFn,
+      ...(limit > 1 && turn ? { summaryTurn: turn.then(() => undefined, () => undefined) } : {}),
+      ...(params.overrides ? { overrides: params.overrides } : {}),
+      ...(params.runReport ? { runReport: params.runReport } : {}),
+    };
+    try {
+      if ("steps" in command) {
+        outputs[index] = await runPipeline({
+          pipeline: command,
+          commandRegistry: params.commandRegistry,
+          runCommandFn: params.runCommandFn,
+          input,
+          defaultCommentType: params.defaultCommentType,
+          logInfo: params.logInfo,
+        });
+        return;
       }
-      const commentType = command.comment?.type ?? params.defaultCommentType ?? "both";
-      await runCommandImpl({
-        mode: "pr",
+      const result = await params.runCommandFn({
+        ...input,
         command,
-        config: reviewConfig,
-        context,
-        octokit,
-        prInfo,
-        changedFiles: filtered,
-        existingComments,
-        reviewThreads,
-        commentType,
-        allowlist: params.toolsAllowlist ?? [],
+        commentType: command.comment?.type ?? params.defaultCommentType ?? "both",
       });
+      if (result?.status === "invalid") {
+        params.logInfo(`[warn] Command ${command.id} in ${params.source} not run: ${result.reason}`);
+      }
+      if (result?.status === "completed" && result.output) {
+        outputs[index] = [result.output];
+      }
+    } finally {
+      finished[index].resolve();
+    }
+  };
+
+  // A failed command stops new ones from starting; commands already running finish first.
+  let next = 0;
+  const errors: unknown[] = [];
+  const worker = async () => {
+    while (next < commands.length && errors.length === 0) {
+      const index = next;
+      next += 1;
+      try {
+        await runOne(commands[index], index);
+      } catch (error) {
+        errors.push(error);
+      }
     }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, commands.length) }, () => worker()));
+  if (errors.length > 0) throw errors[0];
+  return outputs.flat();
+}
+
+/** A skipped review still writes an empty SARIF log, so an upload step after the action finds its file. */
+function writeSkippedSarifReport(
+  config: ReviewConfig,
+  context: ReviewContext,
+  headSha: string,
+  logInfo: (message: string) => void
+): void {
+  if (!config.sarifOutput) return;
+  try {
+    writeSarifReport(config.sarifOutput, null, {
+      repositoryUri: `${process.env.GITHUB_SERVER_URL || "https://github.com"}/${context.owner}/${context.repo}`,
+      revisionId: headSha,
+    });
+  } catch (error: any) {
+    logInfo(`[warn] Failed to write SARIF report: ${error?.message ?? error}`);
   }
 }
 
+function createDeferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve: () => void = () => {};
+  const promise = new Promise<void>((done) => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
 export type { ChangedFile, ExistingComment, PullRequestInfo, ReviewThreadInfo };
 
 function logScopeShadowTelemetry(params: {
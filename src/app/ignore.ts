@@ -1,7 +1,97 @@
+import type * as github from "@actions/github";
 import { minimatch } from "minimatch";
-import type { ChangedFile } from "../types.js";
+import type { ChangedFile, ReviewContext } from "../types.js";
+import { readFileAtRef } from "./local-git.js";
+import { addedLinesInFile, hasIgnoreFileDirective } from "./suppressions.js";
 
-export function applyIgnorePatterns(files: ChangedFile[], patterns: string[]): ChangedFile[] {
-  if (patterns.length === 0) return files;
-  return files.filter((file) => !patterns.some((pattern) => minimatch(file.filename, pattern)));
+export const REVIEW_IGNORE_FILE = ".reviewignore";
+
+/**
+ * Drop files matched by `patterns` and, when `repoRoot` is given, files whose checked-out
+ * source carries an `sri-ignore-file` directive. A directive on a line the change adds is not in
+ * effect yet; `prFiles` supplies the whole change's patches when `files` is a narrower scope.
+ */
+export function applyIgnorePatterns(
+  files: ChangedFile[],
+  patterns: string[],
+  repoRoot?: string,
+  prFiles: ChangedFile[] = files
+): ChangedFile[] {
+  if (patterns.length === 0 && !repoRoot) return files;
+  const prFileByPath = new Map(prFiles.map((file) => [file.filename, file]));
+  return files.filter(
+    (file) =>
+      !isIgnoredPath(file.filename, patterns) &&
+      !(
+        repoRoot &&
+        file.status !== "removed" &&
+        hasIgnoreFileDirective(repoRoot, file.filename, addedLinesInFile(prFileByPath.get(file.filename) ?? file))
+      )
+  );
+}
+
+/** Patterns are checked in order and the last match wins, so `!pattern` re-includes a path. */
+export function isIgnoredPath(filename: string, patterns: string[]): boolean {
+  let ignored = false;
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith("!");
+    if (minimatch(filename, negated ? pattern.slice(1) : pattern, { dot: true })) {
+      ignored = !negated;
+    }
+  }
+  return ignored;
+}
+
+/**
+ * `.reviewignore` at the repo root of the PR's base commit, so a PR cannot exempt its own files.
+ * A missing or unreadable file adds no patterns.
+ */
+export async function fetchReviewIgnore(
+  octokit: ReturnType<typeof github.getOctokit>,
+  context: Pick<ReviewContext, "owner" | "repo">,
+  ref: string
+): Promise<string[]> {
+  try {
+    const response = await octokit.rest.repos.getContent({
+      owner: context.owner,
+      repo: context.repo,
+      path: REVIEW_IGNORE_FILE,
+      ref,
+    });
+    const data = response.data as { type?: string; content?: string; encoding?: string };
+    if (data.type !== "file" || typeof data.content !== "string") return [];
+    return parseReviewIgnore(Buffer.from(data.content, (data.encoding ?? "base64") as BufferEncoding).toString("utf8"));
+  } catch {
+    return [];
+  }
+}
+
+/** `.reviewignore` at `ref` in the local checkout; a missing file or ref adds no patterns. */
+export async function readReviewIgnore(repoRoot: string, ref: string): Promise<string[]> {
+  const content = await readFileAtRef(repoRoot, ref, REVIEW_IGNORE_FILE);
+  return content === null ? [] : parseReviewIgnore(content);
+}
+
+/**
+ * Translate gitignore lines into minimatch globs: `#` comments, `!` negation, a leading or inner `/`
+ * anchors to the repo root, a trailing `/` matches directories only, and a name matches at any depth.
+ */
+export function parseReviewIgnore(content: string): string[] {
+  const patterns: string[] = [];
+  for (const rawLine of content.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, "");
+    if (!line || line.startsWith("#")) continue;
+    const negated = line.startsWith("!");
+    if (negated) line = line.slice(1);
+    line = line.replace(/^\\([#!])/, "$1").replace(/\\ /g, " ");
+    const directoryOnly = line.endsWith("/");
+    line = line.replace(/\/+$/, "");
+    if (!line) continue;
+    const anchored = line.includes("/");
+    const glob = anchored ? line.replace(/^\/+/, "") : `**/${line}`;
+    const prefix = negated ? "!" : "";
+    if (!directoryOnly) patterns.push(`${prefix}${glob}`);
+    patterns.push(`${prefix}${glob}/**`);
+  }
+  return patterns;
 }
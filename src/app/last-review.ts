@@ -1,9 +1,13 @@
+import { parseFindingState } from "../finding-state.js";
+import type { FindingState } from "../finding-state.js";
 import type { ExistingComment } from "../types.js";
 
+const BOT_COMMENT_MARKER = "<!-- sri:bot-comment -->";
+
 export function findLastReviewedSha(comments: ExistingComment[]): string | null {
   const marker = "<!-- sri:last-reviewed-sha:";
   const candidates = comments
-    .filter((comment) => comment.type === "issue" && comment.body.includes(marker))
+    .filter((comment) => isSummaryCarrier(comment) && comment.body.includes(marker))
     .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
   for (const comment of candidates) {
     const match = comment.body.match(/<!--\s*sri:last-reviewed-sha:([a-f0-9]{7,40})\s*-->/i);
@@ -16,7 +20,7 @@ export function findLastReviewedSha(comments: ExistingComment[]): string | null
 
 export function findLastSummary(comments: ExistingComment[]): { verdict: string; url: string; updatedAt: string; body: string } | null {
   const candidates = comments
-    .filter((comment) => comment.type === "issue" && comment.body.includes("## Review Summary"))
+    .filter((comment) => isSummaryCarrier(comment) && comment.body.includes("## Review Summary"))
     .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
   for (const comment of candidates) {
     const match = comment.body.match(/\*\*Verdict:\*\*\s*(Request Changes|Approve|Skipped)/i);
@@ -31,3 +35,30 @@ export function findLastSummary(comments: ExistingComment[]): { verdict: string;
   }
   return null;
 }
+
+/**
+ * Finding lifecycle state from the newest bot summary that carries a readable state block.
+ * Anyone can post a comment with a state block, so only comments by `selfLogin` (the account the
+ * action posts as, see resolveSelfLogin) are read.
+ */
+export function findLastFindingState(comments: ExistingComment[], selfLogin: string): FindingState | null {
+  const candidates = comments
+    .filter((comment) => isSummaryCarrier(comment) && isBotComment(comment, selfLogin) && comment.body.includes("sri:finding-state:"))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  for (const comment of candidates) {
+    const state = parseFindingState(comment.body);
+    if (state) {
+      return state;
+    }
+  }
+  return null;
+}
+
+function isBotComment(comment: ExistingComment, selfLogin: string): boolean {
+  if (comment.author?.toLowerCase() === selfLogin.toLowerCase()) return true;
+  return !comment.authorType && comment.body.includes(BOT_COMMENT_MARKER);
+}
+
+function isSummaryCarrier(comment: ExistingComment): boolean {
+  return comment.type === "issue" || comment.type === "pull_review";
+}
@@ -0,0 +1,147 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { ChangedFile, PullRequestInfo } from "../types.js";
+
+const execFileAsync = promisify(execFile);
+
+export interface LocalRange {
+  repoRoot: string;
+  base: string;
+  head: string;
+}
+
+/**
+ * Build the same PR-shaped data that fetchPrData returns, but from the local git
+ * history of `base...head` (merge-base diff, like a GitHub PR).
+ */
+export async function readLocalPrData(
+  range: LocalRange
+): Promise<{ prInfo: PullRequestInfo; changedFiles: ChangedFile[] }> {
+  const baseSha = await resolveCommit(range.repoRoot, range.base);
+  const headSha = await resolveCommit(range.repoRoot, range.head);
+  const mergeBase = (await git(range.repoRoot, ["merge-base", baseSha, headSha])).trim();
+  if (!mergeBase) {
+    throw new Error(`No merge base between ${range.base} and ${range.head}.`);
+  }
+
+  const subjects = (await git(range.repoRoot, ["log", "--format=%s", `${mergeBase}..${headSha}`]))
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean);
+  const author = (await git(range.repoRoot, ["log", "-1", "--format=%an", headSha])).trim();
+
+  const prInfo: PullRequestInfo = {
+    number: 0,
+    title: subjects[subjects.length - 1] ?? `${range.base}...${range.head}`,
+    body: subjects.length > 1 ? subjects.map((subject) => `- ${subject}`).join("\n") : "",
+    author: author || "unknown",
+    baseRef: range.base,
+    headRef: range.head,
+    baseSha: mergeBase,
+    headSha,
+    url: "",
+  };
+
+  const diff = await git(range.repoRoot, ["diff", "-M", "--no-color", "--no-ext-diff", mergeBase, headSha]);
+  return { prInfo, changedFiles: parseGitDiff(diff) };
+}
+
+/**
+ * Make `ref` and the history leading to it available locally. A shallow checkout (actions/checkout
+ * defaults to `fetch-depth: 1`) is unshallowed from origin; otherwise a missing `ref` is fetched.
+ * Returns false when `ref` is still unknown afterwards.
+ */
+export async function ensureLocalHistory(repoRoot: string, ref: string): Promise<boolean> {
+  const shallow = (await git(repoRoot, ["rev-parse", "--is-shallow-repository"]).catch(() => "")).trim() === "true";
+  if (shallow) {
+    await git(repoRoot, ["fetch", "--no-tags", "--unshallow", "origin"]).catch(() => "");
+  }
+  if (await hasCommit(repoRoot, ref)) return true;
+  await git(repoRoot, ["fetch", "--no-tags", "origin", ref]).catch(() => "");
+  return hasCommit(repoRoot, ref);
+}
+
+/** Content of `filePath` at `ref`, or null when the file or ref does not exist. */
+export async function readFileAtRef(repoRoot: string, ref: string, filePath: string): Promise<string | null> {
+  try {
+    return await git(repoRoot, ["show", `${ref}:${filePath}`]);
+  } catch {
+    return null;
+  }
+}
+
+/** Split a unified `git diff` into GitHub-style ChangedFile entries (patch starts at the first hunk). */
+export function parseGitDiff(diff: string): ChangedFile[] {
+  const files: ChangedFile[] = [];
+  const sections = diff.split(/^(?=diff --git )/m).filter((section) => section.startsWith("diff --git "));
+  for (const section of sections) {
+    const lines = section.replace(/\n$/, "").split("\n");
+    const header = /^diff --git a\/(.+) b\/(.+)$/.exec(lines[0] ?? "");
+    let oldPath = header?.[1] ?? "";
+    let newPath = header?.[2] ?? "";
+    let status: ChangedFile["status"] = "modified";
+    let hunkStart = -1;
+    for (let i = 1; i < lines.length; i += 1) {
+      const line = lines[i];
+      if (line.startsWith("@@")) {
+        hunkStart = i;
+        break;
+      }
+      if (line.startsWith("new file mode")) status = "added";
+      else if (line.startsWith("deleted file mode")) status = "removed";
+      else if (line.startsWith("rename from ")) {
+        status = "renamed";
+        oldPath = line.slice("rename from ".length);
+      } else if (line.startsWith("rename to ")) {
+        newPath = line.slice("rename to ".length);
+      } else if (line.startsWith("--- a/")) {
+        oldPath = line.slice("--- a/".length);
+      } else if (line.startsWith("+++ b/")) {
+        newPath = line.slice("+++ b/".length);
+      }
+    }
+
+    const hunkLines = hunkStart === -1 ? [] : lines.slice(hunkStart);
+    let additions = 0;
+    let deletions = 0;
+    for (const line of hunkLines) {
+      if (line.startsWith("+")) additions += 1;
+      else if (line.startsWith("-")) deletions += 1;
+    }
+
+    const filename = status === "removed" ? oldPath : newPath;
+    if (!filename) continue;
+    files.push({
+      filename,
+      status,
+      additions,
+      deletions,
+      changes: additions + deletions,
+      patch: hunkLines.length > 0 ? `${hunkLines.join("\n")}\n` : undefined,
+      previous_filename: status === "renamed" ? oldPath : undefined,
+    });
+  }
+  return files;
+}
+
+async function resolveCommit(repoRoot: string, ref: string): Promise<string> {
+  try {
+    return (await git(repoRoot, ["rev-parse", "--verify", `${ref}^{commit}`])).trim();
+  } catch {
+    throw new Error(`Unknown git ref: ${ref}`);
+  }
+}
+
+async function hasCommit(repoRoot: string, ref: string): Promise<boolean> {
+  try {
+    await git(repoRoot, ["cat-file", "-e", `${ref}^{commit}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function git(repoRoot: string, args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("git", args, { cwd: repoRoot, maxBuffer: 64 * 1024 * 1024 });
+  return stdout.toString();
+}
@@ -0,0 +1,66 @@
+import type { getOctokit } from "@actions/github";
+import type { ChangedFile, PullRequestInfo } from "../types.js";
+import { createWriteRecorder, isGraphqlMutation, RECORDED_METHODS } from "./recording-octokit.js";
+import type { RecordedWrite } from "./recording-octokit.js";
+
+type Octokit = ReturnType<typeof getOctokit>;
+
+/**
+ * Octokit stand-in for local runs: reads are answered from the local git range,
+ * writes are captured in order so they can be rendered instead of posted.
+ */
+export function createLocalOctokit(params: {
+  prInfo: PullRequestInfo;
+  changedFiles: ChangedFile[];
+}): { octokit: Octokit; writes: RecordedWrite[] } {
+  const recorder = createWriteRecorder({ urlPrefix: "local://" });
+
+  const rest: Record<string, Record<string, (args: any) => Promise<any>>> = {
+    issues: {
+      listComments: async () => ({ data: [] }),
+    },
+    pulls: {
+      get: async () => ({
+        data: {
+          number: params.prInfo.number,
+          title: params.prInfo.title,
+          body: params.prInfo.body,
+          user: { login: params.prInfo.author },
+          base: { ref: params.prInfo.baseRef, sha: params.prInfo.baseSha },
+          head: { ref: params.prInfo.headRef, sha: params.prInfo.headSha },
+          html_url: params.prInfo.url,
+        },
+      }),
+      listFiles: async () => ({ data: params.changedFiles }),
+      listReviewComments: async () => ({ data: [] }),
+      listReviews: async () => ({ data: [] }),
+      listCommits: async () => ({ data: [] }),
+      list: async () => ({ data: [] }),
+    },
+    repos: {
+      get: async () => ({ data: { default_branch: params.prInfo.baseRef } }),
+    },
+    checks: {},
+    reactions: {},
+  };
+  for (const [namespace, methods] of Object.entries(RECORDED_METHODS)) {
+    for (const method of methods) {
+      rest[namespace][method] = async (args: any) => recorder.record(`${namespace}.${method}`, args ?? {});
+    }
+  }
+
+  const octokit = {
+    rest,
+    paginate: async (fn: (args: any) => Promise<{ data: any }>, args: any) => {
+      const response = await fn(args);
+      return Array.isArray(response.data) ? response.data : [];
+    },
+    graphql: async (query: string, variables: Record<string, any>) => {
+      if (isGraphqlMutation(query)) {
+        return recorder.record("graphql", { query, ...variables }).data;
+      }
+      return { repository: { pullRequest: { reviewThreads: { nodes: [], pageInfo: { hasNextPage: false } } } } };
+    },
+  };
+  return { octokit: octokit as unknown as Octokit, writes: recorder.writes };
+}
@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import path from "node:path";
+import { runReview } from "../agent.js";
+import type { ActionConfig, ReviewContext } from "../types.js";
+import { applyIgnorePatterns, readReviewIgnore } from "./ignore.js";
+import { readLocalPrData } from "./local-git.js";
+import { createLocalOctokit } from "./local-octokit.js";
+import { renderRecordedWrites } from "./recording-octokit.js";
+import type { RecordedWrite } from "./recording-octokit.js";
+
+export interface LocalReviewArgs {
+  base: string;
+  head: string;
+  output?: string;
+  provider?: string;
+  model?: string;
+  apiKey?: string;
+}
+
+const FLAG_TO_KEY: Record<string, keyof LocalReviewArgs> = {
+  "--base": "base",
+  "--head": "head",
+  "--output": "output",
+  "--provider": "provider",
+  "--model": "model",
+  "--api-key": "apiKey",
+};
+
+export function parseLocalReviewArgs(argv: string[]): LocalReviewArgs {
+  const args: LocalReviewArgs = { base: "main", head: "HEAD" };
+  for (let i = 0; i < argv.length; i += 1) {
+    const raw = argv[i];
+    const [flag, inlineValue] = raw.includes("=") ? [raw.slice(0, raw.indexOf("=")), raw.slice(raw.indexOf("=") + 1)] : [raw, undefined];
+    const key = FLAG_TO_KEY[flag];
+    if (!key) {
+      throw new Error(`Unknown option: ${raw}`);
+    }
+    const value = inlineValue ?? argv[++i];
+    if (!value || value.startsWith("--")) {
+      throw new Error(`Missing value for ${flag}`);
+    }
+    args[key] = value;
+  }
+  return args;
+}
+
+/** Map CLI flags onto the action inputs readConfig() understands. */
+export function applyLocalReviewInputs(args: LocalReviewArgs, env: NodeJS.ProcessEnv = process.env): void {
+  if (args.provider) env["INPUT_PROVIDER"] = args.provider;
+  if (args.model) env["INPUT_MODEL"] = args.model;
+  if (args.apiKey) env["INPUT_API-KEY"] = args.apiKey;
+}
+
+export async function runLocalReview(params: {
+  config: ActionConfig;
+  args: LocalReviewArgs;
+  runReviewFn?: typeof runReview;
+  logInfo?: (message: string) => void;
+  writeOutput?: (text: string) => void;
+}): Promise<RecordedWrite[]> {
+  const { config, args } = params;
+  const runReviewImpl = params.runReviewFn ?? runReview;
+  const logInfo = params.logInfo ?? console.info;
+  const writeOutput = params.writeOutput ?? ((text: string) => process.stdout.write(text));
+
+  const { prInfo, changedFiles } = await readLocalPrData({
+    repoRoot: config.review.repoRoot,
+    base: args.base,
+    head: args.head,
+  });
+  const reviewConfig = {
+    ...config.review,
+    ignorePatterns: [...config.review.ignorePatterns, ...(await readReviewIgnore(config.review.repoRoot, prInfo.baseSha))],
+  };
+  const filtered = applyIgnorePatterns(changedFiles, reviewConfig.ignorePatterns, reviewConfig.repoRoot);
+  if (filtered.length === 0) {
+    logInfo(`No reviewable changes between ${args.base} and ${args.head}.`);
+    return [];
+  }
+  if (filtered.length > reviewConfig.maxFiles) {
+    logInfo(`Skipping local review: ${filtered.length} files exceed max-files (${reviewConfig.maxFiles}).`);
+    return [];
+  }
+
+  const context: ReviewContext = {
+    owner: "local",
+    repo: path.basename(path.resolve(reviewConfig.repoRoot)),
+    prNumber: prInfo.number,
+  };
+  const { octokit, writes } = createLocalOctokit({ prInfo, changedFiles });
+  await runReviewImpl({
+    config: reviewConfig,
+    context,
+    octokit,
+    prInfo,
+    changedFiles: filtered,
+    existingComments: [],
+    reviewThreads: [],
+    toolAllowlist: config.toolsAllowlist,
+  });
+
+  const markdown = renderLocalReview(writes, { base: args.base, head: args.head });
+  if (args.output) {
+    fs.writeFileSync(path.resolve(args.output), markdown, "utf8");
+    logInfo(`Local review written to ${args.output}`);
+  } else {
+    writeOutput(markdown);
+  }
+  return writes;
+}
+
+export function renderLocalReview(writes: RecordedWrite[], range: { base: string; head: string }): string {
+  return renderRecordedWrites(writes, `Local review: ${range.base}...${range.head}`);
+}
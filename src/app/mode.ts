@@ -1,8 +1,29 @@
 import * as github from "@actions/github";
+import { TRUSTED_AUTHOR_ASSOCIATIONS } from "./permissions.js";
 
 export type RunMode =
-  | { mode: "pull_request"; prNumber: number }
-  | { mode: "issue_comment"; prNumber: number | null; isPullRequest: boolean; commentBody: string }
+  | { mode: "pull_request"; prNumber: number; action: string; draft: boolean; label?: string }
+  | { mode: "merge_group"; prNumber: number | null; headSha: string; baseSha: string; headRef: string }
+  | { mode: "push"; ref: string; before: string; after: string; defaultBranch: string | null }
+  | {
+      mode: "issue_comment";
+      prNumber: number | null;
+      isPullRequest: boolean;
+      commentBody: string;
+      commentId: number;
+      author: string;
+      authorAssociation: string;
+    }
+  | {
+      mode: "review_comment";
+      prNumber: number;
+      action: string;
+      commentId: number;
+      inReplyToId: number | null;
+      author: string;
+      authorType?: string;
+      authorAssociation: string;
+    }
   | { mode: "schedule"; trigger: "schedule" | "workflow_dispatch" }
   | { mode: "unknown"; eventName: string };
 
@@ -20,20 +41,101 @@ export function shouldHandleIssueComment(mode: RunMode, logInfo?: (message: stri
   return true;
 }
 
+/**
+ * Only human replies on existing review threads get a conversational answer, and only from the
+ * author associations trusted to run the model-backed built-in commands.
+ */
+export function shouldHandleReviewComment(mode: RunMode, logInfo?: (message: string) => void): boolean {
+  if (mode.mode !== "review_comment") return false;
+  if (mode.action !== "created") {
+    logInfo?.(`Review comment action ${mode.action} ignored.`);
+    return false;
+  }
+  if (!mode.inReplyToId) {
+    logInfo?.("Review comment starts a new thread. Skipping thread reply.");
+    return false;
+  }
+  if (mode.authorType?.toLowerCase() === "bot" || mode.author.toLowerCase().endsWith("[bot]")) {
+    logInfo?.(`Review comment by ${mode.author} is from a bot. Skipping thread reply.`);
+    return false;
+  }
+  const association = mode.authorAssociation.toUpperCase();
+  if (!TRUSTED_AUTHOR_ASSOCIATIONS.includes(association)) {
+    logInfo?.(
+      `Review comment by ${mode.author} (${association || "NONE"}) is not from ${TRUSTED_AUTHOR_ASSOCIATIONS.join("/")}. Skipping thread reply.`
+    );
+    return false;
+  }
+  return true;
+}
+
 export function resolveRunModeFromEvent(eventName: string, payload: any): RunMode {
   if (eventName === "pull_request" || eventName === "pull_request_target") {
     const prNumber = payload.pull_request?.number ?? payload.issue?.number;
     if (!prNumber) {
       return { mode: "unknown", eventName };
     }
-    return { mode: "pull_request", prNumber };
+    return {
+      mode: "pull_request",
+      prNumber,
+      action: payload.action ?? "",
+      draft: Boolean(payload.pull_request?.draft),
+      label: payload.label?.name ?? undefined,
+    };
+  }
+
+  if (eventName === "merge_group") {
+    const headRef = payload.merge_group?.head_ref ?? "";
+    return {
+      mode: "merge_group",
+      prNumber: parseMergeQueuePrNumber(headRef),
+      headSha: payload.merge_group?.head_sha ?? "",
+      baseSha: payload.merge_group?.base_sha ?? "",
+      headRef,
+    };
   }
 
   if (eventName === "issue_comment") {
     const prNumber = payload.issue?.number ?? null;
     const isPullRequest = Boolean(payload.issue?.pull_request);
     const commentBody = payload.comment?.body ?? "";
-    return { mode: "issue_comment", prNumber, isPullRequest, commentBody };
+    return {
+      mode: "issue_comment",
+      prNumber,
+      isPullRequest,
+      commentBody,
+      commentId: payload.comment?.id ?? 0,
+      author: payload.comment?.user?.login ?? "unknown",
+      authorAssociation: payload.comment?.author_association ?? "NONE",
+    };
+  }
+
+  if (eventName === "pull_request_review_comment") {
+    const prNumber = payload.pull_request?.number;
+    const commentId = payload.comment?.id;
+    if (!prNumber || !commentId) {
+      return { mode: "unknown", eventName };
+    }
+    return {
+      mode: "review_comment",
+      prNumber,
+      action: payload.action ?? "created",
+      commentId,
+      inReplyToId: payload.comment?.in_reply_to_id ?? null,
+      author: payload.comment?.user?.login ?? "unknown",
+      authorType: payload.comment?.user?.type ?? undefined,
+      authorAssociation: payload.comment?.author_association ?? "NONE",
+    };
+  }
+
+  if (eventName === "push") {
+    return {
+      mode: "push",
+      ref: payload.ref ?? "",
+      before: payload.before ?? "",
+      after: payload.after ?? "",
+      defaultBranch: payload.repository?.default_branch ?? null,
+    };
   }
 
   if (eventName === "schedule") {
@@ -46,3 +148,9 @@ export function resolveRunModeFromEvent(eventName: string, payload: any): RunMod
 
   return { mode: "unknown", eventName };
 }
+
+/** Merge queue branches look like `refs/heads/gh-readonly-queue/<base>/pr-<number>-<sha>`. */
+export function parseMergeQueuePrNumber(headRef: string): number | null {
+  const match = headRef.match(/\/pr-(\d+)-[0-9a-f]+$/);
+  return match ? Number.parseInt(match[1], 10) : null;
+}
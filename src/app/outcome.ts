@@ -0,0 +1,90 @@
+import type { CommandOutput } from "../commands/command-runner.js";
+import type { FailOnCondition, ReviewOutcome, Severity } from "../types.js";
+
+const FAIL_ON_CONDITIONS: FailOnCondition[] = ["high", "medium", "low", "request-changes"];
+const SEVERITY_ORDER: Severity[] = ["high", "medium", "low"];
+
+/** Outcome for runs that post a skip summary without running the agent. */
+export function skippedReviewOutcome(): ReviewOutcome {
+  return {
+    verdict: "Skipped",
+    findingsBySeverity: { high: 0, medium: 0, low: 0 },
+    findingsByStatus: { new: 0, still_open: 0, resolved: 0 },
+    inlineComments: 0,
+    suggestions: 0,
+    billing: { input: 0, output: 0, total: 0, cost: 0 },
+  };
+}
+
+/**
+ * Outcome of command-only runs (e.g. merge queue checks), so `fail-on` can gate them too.
+ * The verdict is the strictest one any command posted; token usage is not tracked per command.
+ */
+export function commandOutcome(outputs: CommandOutput[]): ReviewOutcome {
+  const outcome = skippedReviewOutcome();
+  const verdicts = outputs.map((output) => output.verdict);
+  if (verdicts.includes("Request Changes")) {
+    outcome.verdict = "Request Changes";
+  } else if (verdicts.includes("Approve")) {
+    outcome.verdict = "Approve";
+  }
+  for (const finding of outputs.flatMap((output) => output.findings)) {
+    outcome.findingsByStatus[finding.status] += 1;
+    if (finding.status !== "resolved") {
+      outcome.findingsBySeverity[finding.severity] += 1;
+    }
+  }
+  return outcome;
+}
+
+/** Parse a comma-separated `fail-on` policy. `none` (or empty) disables the gate. */
+export function parseFailOn(raw: string): FailOnCondition[] {
+  const conditions: FailOnCondition[] = [];
+  for (const entry of raw.split(",").map((value) => value.trim().toLowerCase()).filter(Boolean)) {
+    if (entry === "none") continue;
+    if (!FAIL_ON_CONDITIONS.includes(entry as FailOnCondition)) {
+      throw new Error(`Invalid fail-on: ${entry}. Expected one of: none, ${FAIL_ON_CONDITIONS.join(", ")}`);
+    }
+    if (!conditions.includes(entry as FailOnCondition)) {
+      conditions.push(entry as FailOnCondition);
+    }
+  }
+  return conditions;
+}
+
+/** Returns the reason the job should fail, or null when the outcome passes the policy. */
+export function evaluateFailOn(conditions: FailOnCondition[], outcome: ReviewOutcome): string | null {
+  const reasons: string[] = [];
+  if (conditions.includes("request-changes") && outcome.verdict === "Request Changes") {
+    reasons.push("verdict is Request Changes");
+  }
+  const thresholds = SEVERITY_ORDER.filter((severity) => conditions.includes(severity));
+  if (thresholds.length > 0) {
+    const lowest = thresholds[thresholds.length - 1];
+    const gated = SEVERITY_ORDER.slice(0, SEVERITY_ORDER.indexOf(lowest) + 1);
+    const counts = gated
+      .filter((severity) => outcome.findingsBySeverity[severity] > 0)
+      .map((severity) => `${outcome.findingsBySeverity[severity]} ${severity}`);
+    if (counts.length > 0) {
+      reasons.push(`unresolved findings at or above ${lowest} severity (${counts.join(", ")})`);
+    }
+  }
+  if (reasons.length === 0) return null;
+  return `Review failed the fail-on policy: ${reasons.join("; ")}.`;
+}
+
+export function setReviewOutputs(outcome: ReviewOutcome, setOutput: (name: string, value: string) => void): void {
+  setOutput("verdict", outcome.verdict);
+  for (const severity of SEVERITY_ORDER) {
+    setOutput(`findings-${severity}`, String(outcome.findingsBySeverity[severity]));
+  }
+  setOutput("findings-new", String(outcome.findingsByStatus.new));
+  setOutput("findings-still-open", String(outcome.findingsByStatus.still_open));
+  setOutput("findings-resolved", String(outcome.findingsByStatus.resolved));
+  setOutput("inline-comments", String(outcome.inlineComments));
+  setOutput("suggestions", String(outcome.suggestions));
+  setOutput("tokens-input", String(outcome.billing.input));
+  setOutput("tokens-output", String(outcome.billing.output));
+  setOutput("tokens-total", String(outcome.billing.total));
+  setOutput("cost", outcome.billing.cost.toFixed(6));
+}
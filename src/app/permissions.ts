@@ -0,0 +1,2 @@
+/** Author associations trusted to run model-backed built-ins, to dismiss findings and to get thread replies. */
+export const TRUSTED_AUTHOR_ASSOCIATIONS = ["OWNER", "MEMBER", "COLLABORATOR"];
@@ -24,6 +24,7 @@ export const REVIEW_SCOPE_REASON_CODES = {
   DIVERGED_SCOPED_REVIEW: "DIVERGED_SCOPED_REVIEW",
   SCOPED_REVIEW: "SCOPED_REVIEW",
   NO_COMPARE_OVERLAP_REVIEW_FULL_PR: "NO_COMPARE_OVERLAP_REVIEW_FULL_PR",
+  FULL_REVIEW_REQUESTED: "FULL_REVIEW_REQUESTED",
 } as const;
 
 export type ReviewScopeReasonCode = typeof REVIEW_SCOPE_REASON_CODES[keyof typeof REVIEW_SCOPE_REASON_CODES];
@@ -56,6 +57,8 @@ export async function fetchPrData(
     baseSha: pr.data.base?.sha ?? "",
     headSha: pr.data.head?.sha ?? "",
     url: pr.data.html_url ?? "",
+    // A deleted fork leaves head.repo null; treat it as a fork too.
+    isFork: pr.data.head?.repo?.full_name !== pr.data.base?.repo?.full_name,
   };
 
   const files = await octokit.paginate(octokit.rest.pulls.listFiles, {
@@ -65,7 +68,33 @@ export async function fetchPrData(
     per_page: 100,
   });
 
-  const changedFiles: ChangedFile[] = files.map((file: any) => ({
+  return { prInfo, changedFiles: files.map(normalizeChangedFile) };
+}
+
+/**
+ * PR data for a merge queue run: the PR's metadata with the merge group's commits, and the files
+ * changed between the queue's base and the merge group head rather than the PR head.
+ */
+export async function fetchMergeGroupData(
+  octokit: ReturnType<typeof github.getOctokit>,
+  context: ReviewContext,
+  range: { baseSha: string; headSha: string }
+): Promise<{ prInfo: PullRequestInfo; changedFiles: ChangedFile[] }> {
+  const { prInfo } = await fetchPrData(octokit, context);
+  const comparison = await octokit.rest.repos.compareCommits({
+    owner: context.owner,
+    repo: context.repo,
+    base: range.baseSha,
+    head: range.headSha,
+  });
+  return {
+    prInfo: { ...prInfo, baseSha: range.baseSha, headSha: range.headSha },
+    changedFiles: (comparison.data.files ?? []).map(normalizeChangedFile),
+  };
+}
+
+function normalizeChangedFile(file: any): ChangedFile {
+  return {
     filename: file.filename,
     status: file.status,
     additions: file.additions ?? 0,
@@ -73,16 +102,42 @@ export async function fetchPrData(
     changes: file.changes ?? 0,
     patch: file.patch,
     previous_filename: file.previous_filename,
-  }));
+  };
+}
+
+/**
+ * Login of the token the action runs with. A personal access token posts as that user rather than
+ * as a `[bot]` account; installation tokens cannot read `/user` and resolve to null.
+ */
+export async function fetchAuthenticatedLogin(octokit: ReturnType<typeof github.getOctokit>): Promise<string | null> {
+  try {
+    const response = await octokit.rest.users.getAuthenticated();
+    return response.data?.login ?? null;
+  } catch {
+    return null;
+  }
+}
 
-  return { prInfo, changedFiles };
+/**
+ * Login the action's own comments are posted as: the token's user when `/user` answers (a personal
+ * access token), otherwise the app named by `bot-name` (`<bot-name>[bot]`), otherwise
+ * `github-actions[bot]` for the workflow's GITHUB_TOKEN.
+ */
+export async function resolveSelfLogin(
+  octokit: ReturnType<typeof github.getOctokit>,
+  botName?: string
+): Promise<string> {
+  const login = await fetchAuthenticatedLogin(octokit);
+  if (login) return login;
+  const app = botName?.trim().replace(/^@/, "").replace(/\[bot\]$/i, "");
+  return app ? `${app}[bot]` : "github-actions[bot]";
 }
 
 export async function fetchExistingComments(
   octokit: ReturnType<typeof github.getOctokit>,
   context: ReviewContext
 ): Promise<{ existingComments: ExistingComment[]; reviewThreads: ReviewThreadInfo[] }> {
-  const [issueComments, reviewComments] = await Promise.all([
+  const [issueComments, reviewComments, reviews] = await Promise.all([
     octokit.paginate(octokit.rest.issues.listComments, {
       owner: context.owner,
       repo: context.repo,
@@ -95,6 +150,12 @@ export async function fetchExistingComments(
       pull_number: context.prNumber,
       per_page: 100,
     }),
+    octokit.paginate(octokit.rest.pulls.listReviews, {
+      owner: context.owner,
+      repo: context.repo,
+      pull_number: context.prNumber,
+      per_page: 100,
+    }),
   ]);
 
   const normalizedIssue = issueComments.map((comment: any) => ({
@@ -119,10 +180,25 @@ export async function fetchExistingComments(
     path: comment.path ?? undefined,
     line: comment.line ?? undefined,
     side: comment.side ?? undefined,
+    subjectType: comment.subject_type === "file" ? ("file" as const) : undefined,
     inReplyToId: comment.in_reply_to_id ?? undefined,
     updatedAt: comment.updated_at ?? comment.created_at ?? "",
+    thumbsDown: comment.reactions?.["-1"] || undefined,
   }));
 
+  const normalizedReviews = reviews
+    .filter((review: any) => (review.body ?? "").trim())
+    .map((review: any) => ({
+      id: review.id,
+      author: review.user?.login ?? "unknown",
+      authorType: review.user?.type ?? undefined,
+      authorAssociation: review.author_association ?? undefined,
+      body: review.body ?? "",
+      url: review.html_url ?? "",
+      type: "pull_review" as const,
+      updatedAt: review.submitted_at ?? "",
+    }));
+
   const threads = await fetchReviewThreadsGraphQL(octokit, {
     owner: context.owner,
     repo: context.repo,
@@ -130,7 +206,7 @@ export async function fetchExistingComments(
   });
   const normalizedThreads = normalizeReviewThreadsGraphQL(threads);
 
-  const existingComments = [...normalizedIssue, ...normalizedReview];
+  const existingComments = [...normalizedIssue, ...normalizedReview, ...normalizedReviews];
   return { existingComments, reviewThreads: normalizedThreads };
 }
 
@@ -0,0 +1,161 @@
+import type * as github from "@actions/github";
+import { runReview } from "../agent.js";
+import type { ActionConfig, ReviewContext, ReviewOutcome } from "../types.js";
+import { applyIgnorePatterns, readReviewIgnore } from "./ignore.js";
+import { findLastReviewedSha } from "./last-review.js";
+import { ensureLocalHistory, readLocalPrData } from "./local-git.js";
+import { createLocalOctokit } from "./local-octokit.js";
+import type { RunMode } from "./mode.js";
+import { skippedReviewOutcome } from "./outcome.js";
+import { fetchExistingComments } from "./pr-data.js";
+import { renderRecordedWrites } from "./recording-octokit.js";
+import type { RunReport } from "./run-report.js";
+
+const PUSH_AUDIT_MARKER = "<!-- sri:push-audit -->";
+const EMPTY_SHA = /^0+$/;
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface MergedPullRequest {
+  number: number;
+  headSha: string;
+  url: string;
+}
+
+/**
+ * Review the commits a push added to the default branch, then file the findings
+ * on the merged PR (when the push came from one) or as a new issue (direct pushes).
+ * The review runs against a local octokit so its output is collected, not posted inline.
+ */
+export async function runPushAudit(params: {
+  config: ActionConfig;
+  octokit: Octokit;
+  owner: string;
+  repo: string;
+  mode: Extract<RunMode, { mode: "push" }>;
+  runReviewFn?: typeof runReview;
+  findMergedPullRequestFn?: typeof findMergedPullRequest;
+  fetchExistingCommentsFn?: typeof fetchExistingComments;
+  ensureLocalHistoryFn?: typeof ensureLocalHistory;
+  logInfo?: (message: string) => void;
+  runReport?: RunReport;
+}): Promise<ReviewOutcome> {
+  const { config, octokit, owner, repo, mode } = params;
+  const reviewConfig = config.review;
+  const runReviewImpl = params.runReviewFn ?? runReview;
+  const findMergedPullRequestImpl = params.findMergedPullRequestFn ?? findMergedPullRequest;
+  const fetchExistingCommentsImpl = params.fetchExistingCommentsFn ?? fetchExistingComments;
+  const ensureLocalHistoryImpl = params.ensureLocalHistoryFn ?? ensureLocalHistory;
+  const logInfo = params.logInfo ?? console.info;
+
+  if (!mode.defaultBranch || mode.ref !== `refs/heads/${mode.defaultBranch}`) {
+    logInfo(`Push to ${mode.ref || "(unknown ref)"} is not to the default branch. Skipping post-merge audit.`);
+    return skippedReviewOutcome();
+  }
+  if (!mode.before || !mode.after || EMPTY_SHA.test(mode.before) || EMPTY_SHA.test(mode.after)) {
+    logInfo("Push has no previous commit to diff against. Skipping post-merge audit.");
+    return skippedReviewOutcome();
+  }
+
+  const mergedPr = await findMergedPullRequestImpl(octokit, owner, repo, mode.after);
+  if (mergedPr) {
+    const { existingComments } = await fetchExistingCommentsImpl(octokit, { owner, repo, prNumber: mergedPr.number });
+    if (findLastReviewedSha(existingComments) === mergedPr.headSha) {
+      logInfo(`PR #${mergedPr.number} was reviewed at its final head ${mergedPr.headSha}. Skipping post-merge audit.`);
+      return skippedReviewOutcome();
+    }
+  }
+
+  if (!(await ensureLocalHistoryImpl(reviewConfig.repoRoot, mode.before))) {
+    throw new Error(
+      `Post-merge audit needs the previous head ${mode.before} in the checkout, and fetching it failed. ` +
+        "Check out the repository with `fetch-depth: 0`."
+    );
+  }
+  const { prInfo, changedFiles } = await readLocalPrData({
+    repoRoot: reviewConfig.repoRoot,
+    base: mode.before,
+    head: mode.after,
+  });
+  const ignorePatterns = [...reviewConfig.ignorePatterns, ...(await readReviewIgnore(reviewConfig.repoRoot, prInfo.baseSha))];
+  const filtered = applyIgnorePatterns(changedFiles, ignorePatterns, reviewConfig.repoRoot);
+  if (filtered.length === 0) {
+    logInfo(`No reviewable changes between ${mode.before} and ${mode.after}.`);
+    return skippedReviewOutcome();
+  }
+  if (filtered.length > reviewConfig.maxFiles) {
+    logInfo(`Skipping post-merge audit: ${filtered.length} files exceed max-files (${reviewConfig.maxFiles}).`);
+    return skippedReviewOutcome();
+  }
+
+  const auditPrInfo = {
+    ...prInfo,
+    title: `Post-merge audit of ${mode.defaultBranch}: ${prInfo.title}`,
+    baseRef: mode.defaultBranch,
+    headRef: mode.defaultBranch,
+  };
+  const context: ReviewContext = { owner, repo, prNumber: auditPrInfo.number };
+  const local = createLocalOctokit({ prInfo: auditPrInfo, changedFiles });
+  const outcome = await runReviewImpl({
+    // The audit is reported in one place; a check run against a local stand-in has nowhere to go.
+    config: { ...reviewConfig, ignorePatterns, checkRun: false, batchReview: false },
+    context,
+    octokit: local.octokit,
+    prInfo: auditPrInfo,
+    changedFiles: filtered,
+    existingComments: [],
+    reviewThreads: [],
+    toolAllowlist: config.toolsAllowlist,
+    runReport: params.runReport,
+  });
+
+  const unresolved = outcome.findingsBySeverity.high + outcome.findingsBySeverity.medium + outcome.findingsBySeverity.low;
+  if (unresolved === 0) {
+    logInfo(`Post-merge audit of ${shortSha(mode.before)}..${shortSha(mode.after)} found no unresolved findings.`);
+    return outcome;
+  }
+
+  const range = `${shortSha(mode.before)}..${shortSha(mode.after)}`;
+  const report = renderPushAuditReport(local.writes, `Post-merge audit: ${range}`);
+  if (mergedPr) {
+    const response = await octokit.rest.issues.createComment({
+      owner,
+      repo,
+      issue_number: mergedPr.number,
+      body: report,
+    });
+    logInfo(`Post-merge audit posted on PR #${mergedPr.number}: ${response.data.html_url ?? response.data.id}`);
+  } else {
+    const response = await octokit.rest.issues.create({
+      owner,
+      repo,
+      title: `Post-merge audit: ${unresolved} finding(s) in ${range}`,
+      body: report,
+    });
+    logInfo(`Post-merge audit filed as issue #${response.data.number}.`);
+  }
+  return outcome;
+}
+
+/** The merged PR whose merge (or squash) commit is `sha`, if any. */
+export async function findMergedPullRequest(
+  octokit: Octokit,
+  owner: string,
+  repo: string,
+  sha: string
+): Promise<MergedPullRequest | null> {
+  const response = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({ owner, repo, commit_sha: sha });
+  const pr = (response.data ?? []).find((item: any) => item.merged_at && item.merge_commit_sha === sha);
+  if (!pr) return null;
+  return { number: pr.number, headSha: pr.head?.sha ?? "", url: pr.html_url ?? "" };
+}
+
+export function renderPushAuditReport(writes: Parameters<typeof renderRecordedWrites>[0], heading: string): string {
+  // Links from the local run point at recorded writes, not GitHub; keep their labels only.
+  const rendered = renderRecordedWrites(writes, heading).replace(/\[([^\]]+)\]\(local:\/\/[^)]*\)/g, "$1");
+  return `${rendered}\n${PUSH_AUDIT_MARKER}\n`;
+}
+
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
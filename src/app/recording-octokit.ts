@@ -0,0 +1,247 @@
+import type { getOctokit } from "@actions/github";
+
+type Octokit = ReturnType<typeof getOctokit>;
+
+export interface RecordedWrite {
+  id: number;
+  method: string;
+  params: Record<string, any>;
+}
+
+export interface WriteRecorder {
+  writes: RecordedWrite[];
+  record: (method: string, params: Record<string, any>) => { data: Record<string, any> };
+  /** Stand-in for `git` invocations that would publish changes (e.g. push_pr's push). */
+  runGit: (repoRoot: string, args: string[]) => Promise<void>;
+}
+
+export const RECORDED_METHODS: Record<string, string[]> = {
+  issues: ["createComment", "updateComment", "create"],
+  pulls: [
+    "createReviewComment",
+    "createReplyForReviewComment",
+    "createReview",
+    "updateReviewComment",
+    "deleteReviewComment",
+    "create",
+    "update",
+  ],
+  checks: ["create", "update"],
+  reactions: ["createForIssueComment", "deleteForIssueComment"],
+};
+
+export function createWriteRecorder(options?: { urlPrefix?: string }): WriteRecorder {
+  const urlPrefix = options?.urlPrefix ?? "recorded://";
+  const writes: RecordedWrite[] = [];
+  let nextId = 1;
+  const record = (method: string, params: Record<string, any>) => {
+    const id = nextId++;
+    writes.push({ id, method, params: { ...params } });
+    return {
+      data: {
+        id,
+        number: params.pull_number ?? id,
+        html_url: `${urlPrefix}${method}/${id}`,
+        body: params.body,
+      },
+    };
+  };
+  return {
+    writes,
+    record,
+    runGit: async (_repoRoot, args) => {
+      record("git", { args: [...args] });
+    },
+  };
+}
+
+export function isGraphqlMutation(query: string): boolean {
+  return query.trim().startsWith("mutation");
+}
+
+/**
+ * Wrap a real octokit so reads still hit GitHub while every write (REST comment/PR
+ * methods and GraphQL mutations) is captured by the recorder instead of posted.
+ */
+export function createRecordingOctokit(
+  base: Octokit,
+  recorder: WriteRecorder = createWriteRecorder()
+): { octokit: Octokit; recorder: WriteRecorder } {
+  const rest = new Proxy(base.rest, {
+    get(target, namespace, receiver) {
+      const methods = Reflect.get(target, namespace, receiver);
+      const recorded = typeof namespace === "string" ? RECORDED_METHODS[namespace] : undefined;
+      if (!recorded) return methods;
+      return new Proxy(methods, {
+        get(inner, method, innerReceiver) {
+          if (typeof method === "string" && recorded.includes(method)) {
+            return async (args: any) => recorder.record(`${namespace as string}.${method}`, args ?? {});
+          }
+          return Reflect.get(inner, method, innerReceiver);
+        },
+      });
+    },
+  });
+  const graphql = async (query: string, variables?: Record<string, any>) => {
+    if (isGraphqlMutation(query)) {
+      return recorder.record("graphql", { query, ...variables }).data;
+    }
+    return base.graphql(query, variables);
+  };
+  const octokit = new Proxy(base, {
+    get(target, prop, receiver) {
+      if (prop === "rest") return rest;
+      if (prop === "graphql") return graphql;
+      return Reflect.get(target, prop, receiver);
+    },
+  });
+  return { octokit, recorder };
+}
+
+/**
+ * Render recorded writes as markdown: issue comments (summaries) and submitted reviews
+ * first, then inline comments by file, replies, updates to pre-existing comments, thread resolutions,
+ * PR operations, issues, check runs and git commands.
+ */
+export function renderRecordedWrites(writes: RecordedWrite[], heading: string): string {
+  const { created, external } = collapseWrites(writes);
+  const summaries = created.filter((entry) => entry.method === "issues.createComment");
+  const reviews = writes.filter((entry) => entry.method === "pulls.createReview");
+  const inline = [
+    ...created.filter((entry) => entry.method === "pulls.createReviewComment"),
+    ...reviews.flatMap((review) =>
+      (review.params.comments ?? []).map((comment: Record<string, any>) => ({ ...review, params: comment }))
+    ),
+  ];
+  const replies = created.filter((entry) => entry.method === "pulls.createReplyForReviewComment");
+  const resolutions = writes.filter((entry) => entry.method === "graphql");
+  const pullRequests = writes.filter((entry) => entry.method === "pulls.create" || entry.method === "pulls.update");
+  const issues = writes.filter((entry) => entry.method === "issues.create");
+  const gitCommands = writes.filter((entry) => entry.method === "git");
+  const checkRuns = writes.filter((entry) => entry.method === "checks.update" && entry.params.status === "completed");
+
+  const lines: string[] = [`# ${heading}`, ""];
+  if (writes.length === 0) {
+    lines.push("_No review output was produced._", "");
+  }
+  for (const summary of summaries) {
+    lines.push(stripHiddenMarkers(summary.params.body ?? ""), "");
+  }
+  for (const review of reviews) {
+    lines.push(`**Review event:** ${review.params.event ?? "COMMENT"}`, "");
+    lines.push(stripHiddenMarkers(review.params.body ?? ""), "");
+  }
+  if (inline.length > 0) {
+    lines.push("## Inline comments", "");
+    const sorted = [...inline].sort((a, b) =>
+      String(a.params.path).localeCompare(String(b.params.path)) || (a.params.line ?? 0) - (b.params.line ?? 0)
+    );
+    for (const comment of sorted) {
+      lines.push(`### ${formatLocation(comment.params)}`, "");
+      lines.push(stripHiddenMarkers(comment.params.body ?? ""), "");
+    }
+  }
+  if (replies.length > 0) {
+    lines.push("## Replies", "");
+    for (const reply of replies) {
+      lines.push(`### In reply to comment ${reply.params.comment_id}`, "");
+      lines.push(stripHiddenMarkers(reply.params.body ?? ""), "");
+    }
+  }
+  if (external.length > 0) {
+    lines.push("## Changes to existing comments", "");
+    for (const change of external) {
+      const action = change.method.includes("delete") ? "Delete" : "Update";
+      lines.push(`### ${action} comment ${change.params.comment_id}`, "");
+      if (change.params.body !== undefined) {
+        lines.push(stripHiddenMarkers(change.params.body), "");
+      }
+    }
+  }
+  if (resolutions.length > 0) {
+    lines.push("## Thread resolutions", "");
+    for (const resolution of resolutions) {
+      lines.push(`- ${resolution.params.threadId ?? "(unknown thread)"}`);
+    }
+    lines.push("");
+  }
+  if (pullRequests.length > 0) {
+    lines.push("## Pull requests", "");
+    for (const pr of pullRequests) {
+      const target = pr.method === "pulls.create" ? `${pr.params.head} -> ${pr.params.base}` : `#${pr.params.pull_number}`;
+      lines.push(`### ${pr.method === "pulls.create" ? "Create" : "Update"} ${target}: ${pr.params.title ?? ""}`.trimEnd(), "");
+      if (pr.params.body) {
+        lines.push(stripHiddenMarkers(pr.params.body), "");
+      }
+    }
+  }
+  if (issues.length > 0) {
+    lines.push("## Issues", "");
+    for (const issue of issues) {
+      lines.push(`### ${issue.params.title ?? ""}`.trimEnd(), "");
+      if (issue.params.body) {
+        lines.push(stripHiddenMarkers(issue.params.body), "");
+      }
+    }
+  }
+  if (checkRuns.length > 0) {
+    lines.push("## Check runs", "");
+    const annotations = writes
+      .filter((entry) => entry.method === "checks.update")
+      .flatMap((entry) => entry.params.output?.annotations ?? []);
+    for (const checkRun of checkRuns) {
+      lines.push(`### ${checkRun.params.conclusion ?? "neutral"}: ${checkRun.params.output?.title ?? ""}`.trimEnd(), "");
+    }
+    for (const annotation of annotations) {
+      lines.push(`- ${annotation.annotation_level} ${annotation.path}:${annotation.start_line} ${annotation.title}`);
+    }
+    if (annotations.length > 0) lines.push("");
+  }
+  if (gitCommands.length > 0) {
+    lines.push("## Git", "");
+    for (const command of gitCommands) {
+      lines.push(`- \`git ${(command.params.args ?? []).join(" ")}\``);
+    }
+    lines.push("");
+  }
+  return `${lines.join("\n").trimEnd()}\n`;
+}
+
+function collapseWrites(writes: RecordedWrite[]): { created: RecordedWrite[]; external: RecordedWrite[] } {
+  const byId = new Map<number, RecordedWrite>();
+  const external: RecordedWrite[] = [];
+  for (const write of writes) {
+    if (!isCommentWrite(write.method)) continue;
+    if (write.method.includes(".create")) {
+      byId.set(write.id, { ...write, params: { ...write.params } });
+      continue;
+    }
+    const targetId = write.params.comment_id;
+    const target = typeof targetId === "number" ? byId.get(targetId) : undefined;
+    if (!target) {
+      external.push(write);
+    } else if (write.method.includes(".delete")) {
+      byId.delete(targetId);
+    } else if (write.params.body !== undefined) {
+      target.params.body = write.params.body;
+    }
+  }
+  return { created: [...byId.values()], external };
+}
+
+function isCommentWrite(method: string): boolean {
+  return method.startsWith("issues.") || /Comment$/.test(method);
+}
+
+function formatLocation(params: Record<string, any>): string {
+  if (params.subject_type === "file" || params.line === undefined) {
+    return `${params.path} (file)`;
+  }
+  const side = params.side && params.side !== "RIGHT" ? ` (${params.side})` : "";
+  const start = params.start_line !== undefined ? `${params.start_line}-` : "";
+  return `${params.path}:${start}${params.line}${side}`;
+}
+
+function stripHiddenMarkers(body: string): string {
+  return body.replace(/<!--[\s\S]*?-->/g, "").replace(/\n{3,}/g, "\n\n").trim();
+}
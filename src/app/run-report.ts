@@ -0,0 +1,263 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { PublishedSummary } from "../summary.js";
+import type { ReviewOutcome } from "../types.js";
+
+export type RunStatus = "completed" | "skipped" | "invalid" | "failed";
+
+/** What `runActionFlow` decided to review, from `fetchChangesSinceReview`. */
+export interface RunReportScope {
+  decision: string;
+  reasonCode: string;
+  reason: string;
+  lastReviewedSha: string | null;
+  headSha: string;
+  /** Files in scope after ignore patterns. */
+  scopedFiles: number;
+  /** Files in the whole PR after ignore patterns. */
+  prFiles: number;
+}
+
+export interface RunReportToolStats {
+  calls: number;
+  errors: number;
+  totalMs: number;
+}
+
+export interface RunReportCompaction {
+  estimatedTokens: number;
+  threshold: number;
+  prunedMessages: number;
+  keptMessages: number;
+  /** `model` when a compaction model summarized the pruned messages, `deterministic` otherwise. */
+  summary: "model" | "deterministic";
+}
+
+export interface RunReportEntry {
+  kind: "review" | "command";
+  id: string;
+  model: string | null;
+  status: RunStatus;
+  /** Failure, skip or validation reason. */
+  detail?: string;
+  startedAt: string;
+  durationMs: number;
+  filesReviewed: string[];
+  tools: Record<string, RunReportToolStats>;
+  compactions: RunReportCompaction[];
+  fallbacks: Array<{ from: string; to: string; reason: string }>;
+  budgetExhausted?: string;
+  verdict?: string;
+  findings: Array<{
+    title: string;
+    category: string;
+    severity: string;
+    status: string;
+    locations: string[];
+  }>;
+  billing: ReviewOutcome["billing"];
+}
+
+export interface RunReportData {
+  version: 1;
+  generatedAt: string;
+  eventName: string;
+  repository: string;
+  prNumber?: number;
+  scope?: RunReportScope;
+  runs: RunReportEntry[];
+  totals: {
+    durationMs: number;
+    findings: number;
+    billing: ReviewOutcome["billing"];
+  };
+}
+
+/** Collects one agent run (the review or one command) for the run report. */
+export interface RunRecorder {
+  setModel: (modelId: string) => void;
+  setFiles: (files: string[]) => void;
+  /** Billing is read when the run finishes, so pass the live object. */
+  setBilling: (billing: ReviewOutcome["billing"]) => void;
+  setSummary: (summary: PublishedSummary) => void;
+  setBudgetExhausted: (reason: string) => void;
+  /** Agent events; tool calls are counted and timed from their start/end pair. */
+  onAgentEvent: (event: { type: string; toolCallId?: string; toolName?: string; isError?: boolean }) => void;
+  onCompaction: (event: RunReportCompaction) => void;
+  onFallback: (from: string, to: string, reason: string) => void;
+  finish: (status: RunStatus, detail?: string) => void;
+}
+
+export interface RunReport {
+  setScope: (scope: RunReportScope) => void;
+  startRun: (params: { kind: RunReportEntry["kind"]; id: string; model?: string }) => RunRecorder;
+  toJSON: () => RunReportData;
+}
+
+/** One report per action run: the scope decision plus every review and command run in it. */
+export function createRunReport(
+  meta: { eventName: string; repository: string; prNumber?: number },
+  now: () => number = Date.now
+): RunReport {
+  let scope: RunReportScope | undefined;
+  const runs: RunReportEntry[] = [];
+
+  return {
+    setScope: (value) => {
+      scope = value;
+    },
+    startRun: ({ kind, id, model }) => {
+      const startedAt = now();
+      const toolStarts = new Map<string, { name: string; at: number }>();
+      let billing: ReviewOutcome["billing"] | null = null;
+      let finished = false;
+      const entry: RunReportEntry = {
+        kind,
+        id,
+        model: model ?? null,
+        status: "completed",
+        startedAt: new Date(startedAt).toISOString(),
+        durationMs: 0,
+        filesReviewed: [],
+        tools: {},
+        compactions: [],
+        fallbacks: [],
+        findings: [],
+        billing: { input: 0, output: 0, total: 0, cost: 0 },
+      };
+      runs.push(entry);
+      const toolStats = (name: string) => {
+        entry.tools[name] ??= { calls: 0, errors: 0, totalMs: 0 };
+        return entry.tools[name];
+      };
+      return {
+        setModel: (modelId) => {
+          entry.model = modelId;
+        },
+        setFiles: (files) => {
+          entry.filesReviewed = [...files];
+        },
+        setBilling: (value) => {
+          billing = value;
+        },
+        setSummary: (summary) => {
+          entry.verdict = summary.verdict;
+          entry.findings = summary.findings.map((finding) => ({
+            title: finding.title,
+            category: finding.category,
+            severity: finding.severity,
+            status: finding.status,
+            locations: finding.locations.map((location) => `${location.path}:${location.line}`),
+          }));
+        },
+        setBudgetExhausted: (reason) => {
+          entry.budgetExhausted = reason;
+        },
+        onAgentEvent: (event) => {
+          if (event.type === "tool_execution_start" && event.toolName) {
+            toolStats(event.toolName).calls += 1;
+            if (event.toolCallId) toolStarts.set(event.toolCallId, { name: event.toolName, at: now() });
+          }
+          if (event.type === "tool_execution_end" && event.toolCallId) {
+            const started = toolStarts.get(event.toolCallId);
+            if (!started) return;
+            toolStarts.delete(event.toolCallId);
+            const stats = toolStats(started.name);
+            stats.totalMs += now() - started.at;
+            if (event.isError) stats.errors += 1;
+          }
+        },
+        onCompaction: (event) => {
+          entry.compactions.push({ ...event });
+        },
+        onFallback: (from, to, reason) => {
+          entry.fallbacks.push({ from, to, reason });
+          entry.model = to;
+        },
+        finish: (status, detail) => {
+          if (finished) return;
+          finished = true;
+          entry.status = status;
+          if (detail) entry.detail = detail;
+          entry.durationMs = now() - startedAt;
+          if (billing) entry.billing = { ...billing };
+        },
+      };
+    },
+    toJSON: () => {
+      const totals = {
+        durationMs: 0,
+        findings: 0,
+        billing: { input: 0, output: 0, total: 0, cost: 0 },
+      };
+      for (const run of runs) {
+        totals.durationMs += run.durationMs;
+        totals.findings += run.findings.filter((finding) => finding.status !== "resolved").length;
+        totals.billing.input += run.billing.input;
+        totals.billing.output += run.billing.output;
+        totals.billing.total += run.billing.total;
+        totals.billing.cost += run.billing.cost;
+      }
+      return {
+        version: 1,
+        generatedAt: new Date(now()).toISOString(),
+        ...meta,
+        ...(scope ? { scope } : {}),
+        runs: runs.map((run) => ({ ...run })),
+        totals,
+      };
+    },
+  };
+}
+
+export function writeRunReport(filePath: string, data: RunReportData): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(data, null, 2)}\n`, "utf8");
+}
+
+/** Condensed markdown for the Actions job summary page. */
+export function renderRunReportSummary(data: RunReportData): string {
+  const target = data.prNumber ? `${data.repository}#${data.prNumber}` : data.repository;
+  const lines = [`### Reviewer run: ${target} (${data.eventName})`, ""];
+  if (data.scope) {
+    lines.push(
+      `Scope: **${data.scope.decision}** (\`${data.scope.reasonCode}\`) — ${data.scope.scopedFiles} of ${data.scope.prFiles} file(s). ${data.scope.reason}`,
+      ""
+    );
+  }
+  if (data.runs.length === 0) {
+    lines.push("No review or command ran.");
+    return `${lines.join("\n")}\n`;
+  }
+  lines.push(
+    "| Run | Model | Status | Verdict | Findings | Files | Tool calls | Tokens | Cost | Time |",
+    "| --- | --- | --- | --- | --- | --- | --- | --- | --- | --- |"
+  );
+  for (const run of data.runs) {
+    const toolCalls = Object.values(run.tools).reduce((sum, stats) => sum + stats.calls, 0);
+    const openFindings = run.findings.filter((finding) => finding.status !== "resolved").length;
+    const notes = [
+      run.detail,
+      run.budgetExhausted ? `budget: ${run.budgetExhausted}` : undefined,
+      run.fallbacks.length > 0 ? `fallback to ${run.fallbacks[run.fallbacks.length - 1].to}` : undefined,
+      run.compactions.length > 0 ? `${run.compactions.length} compaction(s)` : undefined,
+    ].filter(Boolean);
+    const status = notes.length > 0 ? `${run.status} (${notes.join("; ")})` : run.status;
+    lines.push(
+      `| ${run.kind === "review" ? "review" : `\`${run.id}\``} | ${run.model ?? "-"} | ${escapeCell(status)} | ${run.verdict ?? "-"} | ${openFindings} | ${run.filesReviewed.length} | ${toolCalls} | ${run.billing.total} | $${run.billing.cost.toFixed(4)} | ${formatDuration(run.durationMs)} |`
+    );
+  }
+  lines.push(
+    "",
+    `Total: ${data.totals.findings} open finding(s), ${data.totals.billing.total} tokens, $${data.totals.billing.cost.toFixed(4)}, ${formatDuration(data.totals.durationMs)}.`
+  );
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
@@ -3,6 +3,7 @@ import { minimatch } from "minimatch";
 import type { ActionConfig, IncludeExclude } from "../types.js";
 import { CommandRegistry } from "../commands/registry.js";
 import { runCommand } from "../commands/command-runner.js";
+import type { RunReport } from "./run-report.js";
 import { getCurrentBranch } from "./schedule-utils.js";
 
 export async function runScheduledFlow(params: {
@@ -14,6 +15,7 @@ export async function runScheduledFlow(params: {
   logDebug?: (message: string) => void;
   getCurrentBranchFn?: (repoRoot: string) => Promise<string>;
   runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
+  runReport?: RunReport;
 }): Promise<void> {
   const logInfo = params.logInfo ?? console.info;
   const logDebug = params.logDebug ?? (() => {});
@@ -55,7 +57,7 @@ export async function runScheduledFlow(params: {
       continue;
     }
     const commentType = command.comment?.type ?? params.config.outputCommentType;
-    await runCommandImpl({
+    const result = await runCommandImpl({
       mode: "schedule",
       command,
       config: params.config.review,
@@ -73,7 +75,11 @@ export async function runScheduledFlow(params: {
       commandArgs: { args: "", argv: [] },
       logDebug,
       writeScope: schedule.writeScope,
+      runReport: params.runReport,
     });
+    if (result?.status === "invalid") {
+      logInfo(`[warn] Command ${commandId} in schedule.runs not run: ${result.reason}`);
+    }
   }
 }
 
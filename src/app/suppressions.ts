@@ -0,0 +1,114 @@
+import fs from "node:fs";
+import path from "node:path";
+import { normalizeSummaryCategory } from "../summary.js";
+import type { SummaryCategory } from "../summary.js";
+import type { ChangedFile } from "../types.js";
+
+const COMMENT_PREFIX = String.raw`(?:\/\/|#|--|;|\/\*|<!--)`;
+const IGNORE_FILE_PATTERN = new RegExp(String.raw`^\s*${COMMENT_PREFIX}\s*sri-ignore-file\b`);
+const LEADING_COMMENT_PATTERN = new RegExp(String.raw`^\s*(?:${COMMENT_PREFIX}|\*|$)`);
+const HUNK_HEADER_PATTERN = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+const IGNORE_NEXT_LINE_PATTERN = new RegExp(String.raw`^\s*${COMMENT_PREFIX}\s*sri-ignore-next-line\b:?\s*(.*?)\s*(?:\*\/|-->)?\s*$`);
+
+/** An `sri-ignore-next-line` comment covering the line after it. */
+export interface LineSuppression {
+  /** 1-based line of the directive. */
+  line: number;
+  /** "all" when the directive names no known category. */
+  category: SummaryCategory | "all";
+  reason: string;
+}
+
+/**
+ * `sri-ignore-file` in the leading comment block (before the first line of code) keeps the whole
+ * file out of reviews, unless the directive sits on one of `addedLines` (null: any line may be new).
+ */
+export function hasIgnoreFileDirective(
+  repoRoot: string,
+  filePath: string,
+  addedLines: Set<number> | null = new Set()
+): boolean {
+  if (addedLines === null) return false;
+  const source = readSource(repoRoot, filePath);
+  if (source === null) return false;
+  const sourceLines = source.split(/\r?\n/);
+  for (let index = 0; index < sourceLines.length; index += 1) {
+    const text = sourceLines[index];
+    if (!LEADING_COMMENT_PATTERN.test(text)) return false;
+    if (IGNORE_FILE_PATTERN.test(text) && !addedLines.has(index + 1)) return true;
+  }
+  return false;
+}
+
+/**
+ * RIGHT-side line numbers the file's patch adds. Null when the file has no patch (binary, or a diff
+ * too large for GitHub) and is more than a pure rename: any line may be new, so no directive in it
+ * can be trusted.
+ */
+export function addedLinesInFile(file: Pick<ChangedFile, "status" | "patch" | "changes">): Set<number> | null {
+  if (file.patch === undefined) {
+    const pureMove = (file.status === "renamed" || file.status === "copied") && file.changes === 0;
+    return pureMove ? new Set() : null;
+  }
+  const added = new Set<number>();
+  let line = 0;
+  for (const text of file.patch.split("\n")) {
+    const header = text.match(HUNK_HEADER_PATTERN);
+    if (header) {
+      line = Number.parseInt(header[1], 10);
+      continue;
+    }
+    if (text.startsWith("+")) added.add(line++);
+    else if (text.startsWith(" ")) line += 1;
+  }
+  return added;
+}
+
+/**
+ * Suppressions covering `lines` for a finding of `category`. A directive whose first word is a
+ * category (`unused-code` and `unused_code` work too) only covers that category; `all`, `*` or
+ * no category covers every finding, and the rest of the directive is the reason. A directive on
+ * one of `addedLines` is not in effect yet, and none is when `addedLines` is null.
+ */
+export function findLineSuppressions(
+  repoRoot: string,
+  filePath: string,
+  lines: number[],
+  category?: SummaryCategory,
+  addedLines: Set<number> | null = new Set()
+): LineSuppression[] {
+  if (addedLines === null) return [];
+  const source = readSource(repoRoot, filePath);
+  if (source === null) return [];
+  const sourceLines = source.split(/\r?\n/);
+  const suppressions: LineSuppression[] = [];
+  for (const line of lines) {
+    const directiveLine = line - 1;
+    if (directiveLine < 1 || directiveLine > sourceLines.length || addedLines.has(directiveLine)) continue;
+    const suppression = parseIgnoreNextLine(sourceLines[directiveLine - 1], directiveLine);
+    if (!suppression) continue;
+    if (suppression.category !== "all" && category && suppression.category !== category) continue;
+    suppressions.push(suppression);
+  }
+  return suppressions;
+}
+
+function parseIgnoreNextLine(text: string, line: number): LineSuppression | null {
+  const match = text.match(IGNORE_NEXT_LINE_PATTERN);
+  if (!match) return null;
+  const [first = "", ...rest] = match[1].split(/\s+/).filter(Boolean);
+  if (first === "all" || first === "*") return { line, category: "all", reason: rest.join(" ") };
+  const category = first ? normalizeSummaryCategory(first.replace(/[-_]+/g, " ")) : null;
+  if (!category) return { line, category: "all", reason: match[1] };
+  return { line, category, reason: rest.join(" ") };
+}
+
+function readSource(repoRoot: string, filePath: string): string | null {
+  const resolved = path.resolve(repoRoot, filePath);
+  if (path.relative(repoRoot, resolved).startsWith("..")) return null;
+  try {
+    return fs.readFileSync(resolved, "utf8");
+  } catch {
+    return null;
+  }
+}
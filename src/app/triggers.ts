@@ -0,0 +1,54 @@
+import type { TriggerConfig } from "../types.js";
+import type { RunMode } from "./mode.js";
+
+const LABEL_ACTIONS = new Set(["labeled", "unlabeled"]);
+
+export interface TriggerPlan {
+  /** Run the full review (and `review.run` commands). */
+  review: boolean;
+  /** Extra commands for this event, e.g. from `review.runOnLabels`. */
+  commandIds: string[];
+  /** Why nothing runs, when `review` is false and `commandIds` is empty. */
+  skipReason?: string;
+}
+
+export function planPullRequestRun(
+  mode: Extract<RunMode, { mode: "pull_request" }>,
+  triggers: TriggerConfig | undefined
+): TriggerPlan {
+  const action = mode.action;
+  if (triggers?.skipDrafts && mode.draft) {
+    return { review: false, commandIds: [], skipReason: `PR #${mode.prNumber} is a draft; skipping (review.skipDrafts).` };
+  }
+  const review = triggers?.actions
+    ? triggers.actions.includes(action)
+    : !LABEL_ACTIONS.has(action);
+  const commandIds = action === "labeled" && mode.label ? triggers?.runOnLabels?.[mode.label] ?? [] : [];
+  if (!review && commandIds.length === 0) {
+    const label = mode.label ? ` (label ${mode.label})` : "";
+    return {
+      review: false,
+      commandIds: [],
+      skipReason: `pull_request action ${action || "(none)"}${label} does not trigger a review or command. Nothing to do.`,
+    };
+  }
+  return { review, commandIds };
+}
+
+export function planMergeGroupRun(
+  mode: Extract<RunMode, { mode: "merge_group" }>,
+  triggers: TriggerConfig | undefined
+): TriggerPlan {
+  const commandIds = triggers?.mergeGroup ?? [];
+  if (commandIds.length === 0) {
+    return { review: false, commandIds: [], skipReason: "No review.mergeGroup commands configured. Nothing to do." };
+  }
+  if (!mode.prNumber) {
+    return {
+      review: false,
+      commandIds: [],
+      skipReason: `Could not find a PR number in merge queue ref ${mode.headRef || "(empty)"}. Nothing to do.`,
+    };
+  }
+  return { review: false, commandIds };
+}
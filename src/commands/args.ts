@@ -1,3 +1,6 @@
+import path from "node:path";
+import type { CommandArgumentDefinition, CommandDefinition } from "../types.js";
+
 export interface CommandInvocation {
   command: string;
   args: string;
@@ -86,3 +89,144 @@ function normalizeMention(value: string): string {
     .replace(/\[bot\]$/i, "")
     .toLowerCase();
 }
+
+export type CommandArgumentValue = string | number | boolean;
+
+export interface ParsedCommandArguments {
+  values: Record<string, CommandArgumentValue>;
+  errors: string[];
+}
+
+/**
+ * Match argv against a command's declared arguments. Tokens are `--name value`, `--name=value`,
+ * `--flag` / `--no-flag` for bools, or positional values that fill the remaining non-bool arguments in order.
+ */
+export function parseCommandArguments(
+  argv: string[],
+  definitions: CommandArgumentDefinition[]
+): ParsedCommandArguments {
+  const byName = new Map(definitions.map((definition) => [definition.name, definition]));
+  const raw = new Map<string, string>();
+  const positional: string[] = [];
+  const errors: string[] = [];
+
+  for (let i = 0; i < argv.length; i += 1) {
+    const token = argv[i];
+    if (!token.startsWith("--") || token === "--") {
+      positional.push(token);
+      continue;
+    }
+    const body = token.slice(2);
+    const eq = body.indexOf("=");
+    let name = eq >= 0 ? body.slice(0, eq) : body;
+    let value = eq >= 0 ? body.slice(eq + 1) : undefined;
+    if (!byName.has(name) && name.startsWith("no-") && byName.get(name.slice(3))?.type === "bool" && value === undefined) {
+      name = name.slice(3);
+      value = "false";
+    }
+    const definition = byName.get(name);
+    if (!definition) {
+      errors.push(`Unknown option --${name}.`);
+      continue;
+    }
+    if (value === undefined) {
+      if (definition.type === "bool") {
+        value = "true";
+      } else if (i + 1 < argv.length && !argv[i + 1].startsWith("--")) {
+        i += 1;
+        value = argv[i];
+      } else {
+        errors.push(`Option --${name} needs a value.`);
+        continue;
+      }
+    }
+    raw.set(name, value);
+  }
+
+  // Bools are flags only, so positionals skip them.
+  const unfilled = definitions.filter((definition) => !raw.has(definition.name) && definition.type !== "bool");
+  for (const [index, value] of positional.entries()) {
+    const definition = unfilled[index];
+    if (!definition) {
+      errors.push(`Unexpected argument "${value}".`);
+      continue;
+    }
+    raw.set(definition.name, value);
+  }
+
+  const values: Record<string, CommandArgumentValue> = {};
+  for (const definition of definitions) {
+    const value = raw.get(definition.name);
+    if (value === undefined) {
+      if (definition.default !== undefined) {
+        values[definition.name] = definition.default;
+      } else if (definition.required) {
+        errors.push(`Missing required argument ${definition.name}.`);
+      }
+      continue;
+    }
+    const converted = convertArgument(definition, value);
+    if (typeof converted === "object") {
+      errors.push(converted.error);
+      continue;
+    }
+    values[definition.name] = converted;
+  }
+  return { values, errors };
+}
+
+function convertArgument(
+  definition: CommandArgumentDefinition,
+  value: string
+): CommandArgumentValue | { error: string } {
+  switch (definition.type ?? "string") {
+    case "number": {
+      const parsed = Number(value);
+      return value.trim() && Number.isFinite(parsed) ? parsed : { error: `${definition.name} must be a number (got "${value}").` };
+    }
+    case "bool": {
+      const lowered = value.toLowerCase();
+      if (["true", "yes", "1"].includes(lowered)) return true;
+      if (["false", "no", "0"].includes(lowered)) return false;
+      return { error: `${definition.name} must be true or false (got "${value}").` };
+    }
+    case "enum": {
+      const allowed = definition.values ?? [];
+      return allowed.includes(value)
+        ? value
+        : { error: `${definition.name} must be one of ${allowed.join(", ")} (got "${value}").` };
+    }
+    case "path": {
+      const normalized = path.posix.normalize(value.replace(/\\/g, "/"));
+      if (path.posix.isAbsolute(normalized) || normalized === ".." || normalized.startsWith("../")) {
+        return { error: `${definition.name} must be a path inside the repository (got "${value}").` };
+      }
+      return normalized;
+    }
+    default:
+      return value;
+  }
+}
+
+/** One-line usage plus a line per argument, e.g. for replying to invalid input. */
+export function formatCommandUsage(command: CommandDefinition): string {
+  const definitions = command.args ?? [];
+  const synopsis = definitions.map((definition) => {
+    const placeholder = definition.type === "bool"
+      ? `--${definition.name}`
+      : `<${definition.name}>`;
+    return definition.required ? placeholder : `[${placeholder}]`;
+  });
+  const lines = [`Usage: \`!${[command.id, ...synopsis].join(" ")}\``];
+  for (const definition of definitions) {
+    const type = definition.type === "enum" ? (definition.values ?? []).join("|") : definition.type ?? "string";
+    const details = [
+      type,
+      definition.required ? "required" : null,
+      definition.default !== undefined ? `default ${String(definition.default)}` : null,
+    ].filter(Boolean);
+    const description = definition.description ? `: ${definition.description}` : "";
+    lines.push(`- \`${definition.name}\` (${details.join(", ")})${description}`);
+  }
+  return lines.join("\n");
+}
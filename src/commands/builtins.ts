@@ -0,0 +1,61 @@
+import { TRUSTED_AUTHOR_ASSOCIATIONS } from "../app/permissions.js";
+import type { CommandDefinition, PipelineDefinition } from "../types.js";
+
+export type BuiltinCommandId = "help" | "review" | "explain" | "dismiss" | "reopen";
+
+/**
+ * Commands available in every repo. A `.reviewerc` command with the same id replaces the built-in.
+ * `review` and `explain` call the model, so only people with write access (or org members) may run them;
+ * the same goes for `dismiss` and `reopen`, which decide what later reviews report.
+ */
+export const BUILTIN_COMMANDS: Array<CommandDefinition & { id: BuiltinCommandId }> = [
+  { id: "help", title: "List available commands", prompt: "" },
+  {
+    id: "review",
+    title: "Re-review the whole PR, ignoring the last reviewed SHA",
+    prompt: "",
+    permissions: { authorAssociation: TRUSTED_AUTHOR_ASSOCIATIONS },
+  },
+  {
+    id: "explain",
+    title: "Post the PR explainer (review guide and file guides)",
+    prompt: "",
+    permissions: { authorAssociation: TRUSTED_AUTHOR_ASSOCIATIONS },
+  },
+  {
+    id: "dismiss",
+    title: 'Dismiss a finding as a false positive: `!dismiss <finding_ref> "reason"`',
+    prompt: "",
+    permissions: { authorAssociation: TRUSTED_AUTHOR_ASSOCIATIONS },
+  },
+  {
+    id: "reopen",
+    title: "Undo a dismissal: `!reopen <finding_ref>`",
+    prompt: "",
+    permissions: { authorAssociation: TRUSTED_AUTHOR_ASSOCIATIONS },
+  },
+];
+
+export function findBuiltinCommand(id: string): (CommandDefinition & { id: BuiltinCommandId }) | undefined {
+  return BUILTIN_COMMANDS.find((command) => command.id === id);
+}
+
+/** Built-ins not shadowed by a configured command, then the configured commands. */
+export function listAvailableCommands(configured: CommandDefinition[]): CommandDefinition[] {
+  const configuredIds = new Set(configured.map((command) => command.id));
+  return [...BUILTIN_COMMANDS.filter((command) => !configuredIds.has(command.id)), ...configured];
+}
+
+export function formatCommandHelp(configured: CommandDefinition[], pipelines: PipelineDefinition[] = []): string {
+  const lines = listAvailableCommands(configured).map((command) => {
+    const builtin = !configured.includes(command);
+    const title = command.title ? ` — ${command.title}` : "";
+    return `- \`!${command.id}\`${title}${builtin ? " (built-in)" : ""}`;
+  });
+  for (const pipeline of pipelines) {
+    const title = pipeline.title ? ` — ${pipeline.title}` : "";
+    const steps = pipeline.steps.map((step) => step.command).join(" → ");
+    lines.push(`- \`!${pipeline.id}\`${title} (pipeline: ${steps})`);
+  }
+  return ["Available commands:", "", ...lines].join("\n");
+}
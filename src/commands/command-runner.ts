@@ -26,10 +26,29 @@ import { createSubagentTool } from "../tools/subagent.js";
 import { createTerminateTool } from "../tools/terminate.js";
 import { createAgentWithCompaction, AgentSetupOverrides } from "../agent/agent-setup.js";
 import { buildScheduleBranchName } from "../app/schedule-utils.js";
+import { resolveCommandReviewConfig } from "../app/config.js";
+import { isQuotaError } from "../retry.js";
+import { createBudgetGuard, postBudgetExhaustedSummary, resolveBudget } from "../agent/budget.js";
+import { formatCommandUsage, parseCommandArguments } from "./args.js";
+import type { CommandArgumentValue } from "./args.js";
+import type { PublishedSummary, SummaryObservation } from "../summary.js";
+import type { RunRecorder, RunReport } from "../app/run-report.js";
 
 export interface CommandArgs {
   args: string;
   argv: string[];
+  /** Values of the command's declared `args`, after validation and defaults. */
+  named?: Record<string, CommandArgumentValue>;
+}
+
+/** What a PR command produced, handed to later pipeline steps. */
+export interface CommandOutput {
+  command: string;
+  verdict?: string;
+  findings: PublishedSummary["findings"];
+  observations: SummaryObservation[];
+  /** The agent's last text reply. */
+  text: string;
 }
 
 export type CommandRunInput =
@@ -47,7 +66,13 @@ export type CommandRunInput =
       commentType: CommentType;
       allowlist: ToolCategory[];
       logDebug?: (message: string) => void;
+      runGitFn?: (repoRoot: string, args: string[]) => Promise<void>;
       overrides?: AgentSetupOverrides;
+      /** Output of earlier pipeline steps, in step order. */
+      pipelineInputs?: CommandOutput[];
+      /** The summary is published once this settles. */
+      summaryTurn?: Promise<unknown>;
+      runReport?: RunReport;
     }
   | {
       mode: "schedule";
@@ -68,16 +93,49 @@ export type CommandRunInput =
       logDebug?: (message: string) => void;
       writeScope?: IncludeExclude;
       overrides?: AgentSetupOverrides;
+      runReport?: RunReport;
     };
 
-export async function runCommand(input: CommandRunInput): Promise<void> {
+export type CommandRunResult =
+  | { status: "completed"; output?: CommandOutput }
+  | { status: "skipped"; reason: string }
+  | { status: "invalid"; reason: string; usage: string };
+
+export async function runCommand(commandInput: CommandRunInput): Promise<CommandRunResult> {
+  const recorder = commandInput.runReport?.startRun({ kind: "command", id: commandInput.command.id }) ?? null;
+  try {
+    const result = await executeCommand(commandInput, recorder);
+    recorder?.finish(result.status, result.status === "completed" ? undefined : result.reason);
+    return result;
+  } catch (error) {
+    recorder?.finish("failed", error instanceof Error ? error.message : String(error));
+    throw error;
+  }
+}
+
+async function executeCommand(commandInput: CommandRunInput, recorder: RunRecorder | null): Promise<CommandRunResult> {
+  const input = {
+    ...commandInput,
+    config: resolveCommandReviewConfig(commandInput.config, commandInput.command),
+  } as CommandRunInput;
+  recorder?.setModel(input.config.modelId);
   const log = (...args: unknown[]) => {
     if (input.config.debug) {
       console.log("[debug]", ...args);
     }
   };
 
-  const commandArgs = input.commandArgs ?? { args: "", argv: [] };
+  const rawArgs = input.commandArgs ?? { args: "", argv: [] };
+  // Commands without declared args keep free-form argv; declared args are validated before any model call.
+  let commandArgs: CommandArgs = rawArgs;
+  if (input.command.args && input.command.args.length > 0) {
+    const parsed = parseCommandArguments(rawArgs.argv, input.command.args);
+    if (parsed.errors.length > 0) {
+      log(`command ${input.command.id} rejected arguments: ${parsed.errors.join(" ")}`);
+      return { status: "invalid", reason: parsed.errors.join(" "), usage: formatCommandUsage(input.command) };
+    }
+    commandArgs = { ...rawArgs, named: parsed.values };
+  }
   const promptText = interpolateCommandPrompt(input.command.prompt, commandArgs);
   const allowedCategories = resolveAllowedCategories(
     input.allowlist,
@@ -90,6 +148,7 @@ export async function runCommand(input: CommandRunInput): Promise<void> {
     posted: false,
     inlineComments: 0,
     suggestions: 0,
+    budgetExhausted: null as string | null,
     billing: {
       input: 0,
       output: 0,
@@ -97,6 +156,7 @@ export async function runCommand(input: CommandRunInput): Promise<void> {
       cost: 0,
     },
   };
+  recorder?.setBilling(summaryState.billing);
 
   const contextState = {
     filesRead: new Set<string>(),
@@ -110,102 +170,192 @@ export async function runCommand(input: CommandRunInput): Promise<void> {
       ? filterCommandFiles(
           (input as Extract<CommandRunInput, { mode: "pr" }>).changedFiles,
           input.command,
-          input.config.ignorePatterns
+          input.config.ignorePatterns,
+          input.config.repoRoot
         )
       : null;
+  if (filteredFiles) {
+    recorder?.setFiles(filteredFiles.map((file) => file.filename));
+  }
   if (input.mode === "pr") {
     const maxFiles = input.command.limits?.maxFiles;
     if (maxFiles && filteredFiles && filteredFiles.length > maxFiles) {
       log(`command ${input.command.id} skipped: ${filteredFiles.length} files exceeds maxFiles=${maxFiles}`);
-      return;
+      return {
+        status: "skipped",
+        reason: `${filteredFiles.length} files after filtering exceed limits.maxFiles (${maxFiles}).`,
+      };
     }
   }
   const toolInput =
     input.mode === "pr" && filteredFiles
       ? { ...(input as Extract<CommandRunInput, { mode: "pr" }>), changedFiles: filteredFiles }
       : input;
-  const tools = buildTools(toolInput as CommandRunInput, allowedCategories, summaryState);
-  const { agent, model } = createAgentWithCompaction({
-    config: input.config,
-    systemPrompt: buildSystemPrompt(input, promptText, tools.map((tool) => tool.name)),
-    tools,
-    contextState,
+  let flushDeferredComments: (() => Promise<void>) | null = null;
+  let published: PublishedSummary | null = null;
+  let lastText = "";
+  const tools = buildTools(
+    toolInput as CommandRunInput,
+    allowedCategories,
     summaryState,
-    overrides: input.overrides,
-  });
-
-  const maxIterations = 10 + input.config.maxFiles * 5;
-  let toolExecutions = 0;
-  agent.subscribe((event) => {
-    if (event.type === "tool_execution_start") {
-      toolExecutions += 1;
-      if (event.toolName === "read" && event.args?.path) {
-        contextState.filesRead.add(event.args.path);
-        if (event.args.start_line || event.args.end_line) {
-          contextState.partialReads.add(event.args.path);
-        }
-      }
-      if ((event.toolName === "get_diff" || event.toolName === "get_full_diff") && event.args?.path) {
-        contextState.filesDiffed.add(event.args.path);
-      }
-      log(`tool call: ${event.toolName}`, event.args ? safeStringify(event.args) : "{}");
-      if (toolExecutions >= maxIterations) {
-        agent.abort();
-      }
+    (flush) => {
+      flushDeferredComments = flush;
+    },
+    (summary) => {
+      published = summary;
+      recorder?.setSummary(summary);
     }
-    if (event.type === "tool_execution_end") {
-      if (event.toolName === "read" && event.result?.details?.truncated && event.result?.details?.path) {
-        contextState.truncatedReads.add(event.result.details.path);
-      }
-      if (input.config.debug && event.result) {
-        log(`tool output: ${event.toolName}`, safeStringify(event.result));
-      }
-      if (event.toolName === "terminate") {
-        agent.abort();
+  );
+  const budget = createBudgetGuard(resolveBudget(input.config.budget, input.command.limits));
+  const stopForBudget = (agent: { abort: () => void }, reason: string) => {
+    if (summaryState.budgetExhausted) return;
+    summaryState.budgetExhausted = reason;
+    recorder?.setBudgetExhausted(reason);
+    console.warn(`[warn] Command ${input.command.id} budget exhausted: ${reason}. Stopping the agent.`);
+    agent.abort();
+  };
+  const startAgent = (agentConfig: ReviewConfig) => {
+    const { agent, model } = createAgentWithCompaction({
+      config: agentConfig,
+      systemPrompt: buildSystemPrompt(input, promptText, tools.map((tool) => tool.name)),
+      tools,
+      contextState,
+      summaryState,
+      overrides: input.overrides,
+      onCompaction: recorder?.onCompaction,
+    });
+
+    const maxIterations = 10 + agentConfig.maxFiles * 5;
+    let toolExecutions = 0;
+    agent.subscribe((event) => {
+      recorder?.onAgentEvent(event);
+      if (event.type === "tool_execution_start") {
+        toolExecutions += 1;
+        if (event.toolName === "read" && event.args?.path) {
+          contextState.filesRead.add(event.args.path);
+          if (event.args.start_line || event.args.end_line) {
+            contextState.partialReads.add(event.args.path);
+          }
+        }
+        if ((event.toolName === "get_diff" || event.toolName === "get_full_diff") && event.args?.path) {
+          contextState.filesDiffed.add(event.args.path);
+        }
+        log(`tool call: ${event.toolName}`, event.args ? safeStringify(event.args) : "{}");
+        if (toolExecutions >= maxIterations) {
+          agent.abort();
+        }
       }
-    }
-    if (event.type === "message_end" && event.message.role === "assistant") {
-      const content = event.message.content;
-      if (typeof content === "string") {
-        if (content.trim()) {
-          log(`assistant: ${content}`);
+      if (event.type === "tool_execution_end") {
+        if (event.toolName === "read" && event.result?.details?.truncated && event.result?.details?.path) {
+          contextState.truncatedReads.add(event.result.details.path);
         }
-      } else if (Array.isArray(content)) {
-        const text = content
-          .filter((c) => c.type === "text")
-          .map((c) => c.text)
-          .join("");
-        const thinking = content
-          .filter((c) => c.type === "thinking")
-          .map((c) => c.thinking)
-          .join("");
-        if (text.trim()) {
-          log(`assistant: ${text}`);
+        if (input.config.debug && event.result) {
+          log(`tool output: ${event.toolName}`, safeStringify(event.result));
         }
-        if (thinking.trim()) {
-          log(`assistant thinking: ${thinking}`);
+        if (event.toolName === "terminate") {
+          agent.abort();
         }
       }
-      const usage = event.message.usage;
-      if (usage) {
-        const cost = calculateCost(model, usage as Usage);
-        summaryState.billing.input += usage.input;
-        summaryState.billing.output += usage.output;
-        summaryState.billing.total += usage.totalTokens;
-        summaryState.billing.cost += cost.total;
+      if (event.type === "message_end" && event.message.role === "assistant") {
+        const content = event.message.content;
+        if (typeof content === "string") {
+          if (content.trim()) {
+            log(`assistant: ${content}`);
+          }
+        } else if (Array.isArray(content)) {
+          const text = content
+            .filter((c) => c.type === "text")
+            .map((c) => c.text)
+            .join("");
+          const thinking = content
+            .filter((c) => c.type === "thinking")
+            .map((c) => c.thinking)
+            .join("");
+          if (text.trim()) {
+            log(`assistant: ${text}`);
+            lastText = text.trim();
+          }
+          if (thinking.trim()) {
+            log(`assistant thinking: ${thinking}`);
+          }
+        }
+        const usage = event.message.usage;
+        if (usage) {
+          const cost = calculateCost(model, usage as Usage);
+          summaryState.billing.input += usage.input;
+          summaryState.billing.output += usage.output;
+          summaryState.billing.total += usage.totalTokens;
+          summaryState.billing.cost += cost.total;
+          const exhausted = budget?.check(summaryState.billing);
+          if (exhausted && !summaryState.posted) {
+            stopForBudget(agent, exhausted);
+          }
+        }
       }
-    }
-  });
+    });
+    return agent;
+  };
 
   const userPrompt = buildUserPrompt(input, promptText, commandArgs, filteredFiles);
-  await agent.prompt(userPrompt);
+  let agent = startAgent(input.config);
+  budget?.start((reason) => {
+    if (!summaryState.posted) stopForBudget(agent, reason);
+  });
+  try {
+    await agent.prompt(userPrompt);
+    const fallback = input.config.fallback;
+    if (
+      fallback &&
+      !summaryState.posted &&
+      !summaryState.budgetExhausted &&
+      agent.state.errorMessage &&
+      isQuotaError(agent.state.errorMessage)
+    ) {
+      console.log(
+        `[fallback] ${input.config.modelId} quota exhausted in command ${input.command.id}. ` +
+        `Switching to ${fallback.provider}/${fallback.modelId}.`
+      );
+      recorder?.onFallback(input.config.modelId, fallback.modelId, "quota exhausted");
+      contextState.filesRead.clear();
+      contextState.filesDiffed.clear();
+      contextState.truncatedReads.clear();
+      contextState.partialReads.clear();
+      agent = startAgent({
+        ...input.config,
+        provider: fallback.provider,
+        modelId: fallback.modelId,
+        apiKey: fallback.apiKey,
+        compactionModel: undefined,
+      });
+      await agent.prompt(userPrompt);
+    }
+  } finally {
+    budget?.stop();
+  }
+  if (summaryState.budgetExhausted && !summaryState.posted) {
+    await postBudgetExhaustedSummary(tools, summaryState.budgetExhausted);
+  }
+  // Inline comments held back by limits.maxFindings are posted with the summary; post them here if it never came.
+  await flushDeferredComments?.();
 
   if (input.mode === "pr") {
     const hasSummaryTool = tools.some((tool) => tool.name === "post_summary");
     if (hasSummaryTool && !summaryState.posted) {
       log("command run completed without posting a summary");
     }
+    const summary = published as PublishedSummary | null;
+    return {
+      status: "completed",
+      output: {
+        command: input.command.id,
+        verdict: summary?.verdict,
+        findings: summary?.findings ?? [],
+        observations: summary?.observations ?? [],
+        text: lastText,
+      },
+    };
   }
+  return { status: "completed" };
 }
 
 function resolveAllowedCategories(
@@ -231,7 +381,15 @@ function resolveAllowedCategories(
 function buildTools(
   input: CommandRunInput,
   allowed: ToolCategory[],
-  summaryState: { posted: boolean; inlineComments: number; suggestions: number; billing: any }
+  summaryState: {
+    posted: boolean;
+    inlineComments: number;
+    suggestions: number;
+    budgetExhausted: string | null;
+    billing: any;
+  },
+  onDeferredComments?: (flush: () => Promise<void>) => void,
+  onSummaryPublished?: (summary: PublishedSummary) => void
 ) {
   const allowedSet = new Set(allowed);
   const baseTools = [] as any[];
@@ -291,6 +449,16 @@ function buildTools(
         onSuggestion: () => {
           summaryState.suggestions += 1;
         },
+        findingPolicy: {
+          format: input.command.output?.format,
+          severityFloor: input.command.output?.severityFloor,
+          maxFindings: input.command.limits?.maxFindings,
+        },
+        onDeferredComments,
+        onSummaryPublished,
+        summaryTurn: prInput.summaryTurn,
+        stoppedEarly: () => summaryState.budgetExhausted,
+        repoRoot: prInput.config.repoRoot,
       });
       baseTools.push(...filterReviewToolsByCommentType(reviewTools, prInput.commentType));
     }
@@ -307,6 +475,7 @@ function buildTools(
           owner: prInput.context.owner,
           repo: prInput.context.repo,
           octokit: prInput.octokit,
+          runGit: prInput.runGitFn,
         })
       );
     }
@@ -379,6 +548,12 @@ function buildSystemPrompt(input: CommandRunInput, commandPrompt: string, toolNa
     hasTool("report_finding")
       ? "- report_finding schema requires finding_ref + category/severity/status. Use human-readable issue statements (not verification bookkeeping). For unresolved line-specific findings, link inline comment/suggest with the same finding_ref; use placement=summary_only only when a single inline anchor is not possible, with a concrete summary_only_reason."
       : null,
+    hasTool("report_finding") && input.command.output?.severityFloor
+      ? `- Only ${input.command.output.severityFloor} severity and above counts as a finding for this command; lower-severity findings are recorded as observations and must not get inline comments.`
+      : null,
+    (hasTool("comment") || hasTool("suggest")) && input.command.limits?.maxFindings !== undefined
+      ? `- At most ${input.command.limits.maxFindings} new inline comment thread(s) are posted, highest severity first; queue comments as usual and they are posted with the summary.`
+      : null,
     hasTool("report_key_file")
       ? "- report_key_file is for reviewer context only (file role/change intent/checklist), not issue reporting."
       : null,
@@ -441,7 +616,8 @@ function buildUserPrompt(
   filteredFiles: ChangedFile[] | null
 ): string {
   const commandMeta = `# Command\n- id: ${input.command.id}\n- title: ${input.command.title ?? "(none)"}\n- comment type: ${input.commentType}\n`;
-  const argsSection = `# Command Args\n- args: ${args.args || "(none)"}\n- argv: ${args.argv.length > 0 ? JSON.stringify(args.argv) : "(none)"}\n`;
+  const namedLine = args.named ? `- named: ${JSON.stringify(args.named)}\n` : "";
+  const argsSection = `# Command Args\n- args: ${args.args || "(none)"}\n- argv: ${args.argv.length > 0 ? JSON.stringify(args.argv) : "(none)"}\n${namedLine}`;
   if (input.mode === "schedule") {
     return `${commandMeta}\n${argsSection}\n# Prompt\n${commandPrompt}`;
   }
@@ -450,11 +626,49 @@ function buildUserPrompt(
     filteredFiles && filteredFiles.length > 0
       ? filteredFiles.map((file) => `- ${file.filename}`).join("\n")
       : "(none)";
-  return `${commandMeta}\n${argsSection}\n# Prompt\n${commandPrompt}\n\n# PR Context\nPR title: ${prInput.prInfo.title}\nPR description: ${prInput.prInfo.body?.trim() || "(no description)"}\nHead SHA: ${prInput.prInfo.headSha}\nChanged files (after filters):\n${fileList}`;
+  const pipelineSection = formatPipelineInputs(prInput.pipelineInputs ?? []);
+  return `${commandMeta}\n${argsSection}\n# Prompt\n${commandPrompt}\n\n${pipelineSection}# PR Context\nPR title: ${prInput.prInfo.title}\nPR description: ${prInput.prInfo.body?.trim() || "(no description)"}\nHead SHA: ${prInput.prInfo.headSha}\nChanged files (after filters):\n${fileList}`;
 }
 
-function filterCommandFiles(files: ChangedFile[], command: CommandDefinition, ignorePatterns: string[]): ChangedFile[] {
-  const ignored = applyIgnorePatterns(files, ignorePatterns);
+const MAX_PIPELINE_TEXT_CHARS = 4000;
+
+function formatPipelineInputs(outputs: CommandOutput[]): string {
+  if (outputs.length === 0) return "";
+  const steps = outputs.map((output) => {
+    const lines = [`## ${output.command}${output.verdict ? ` (verdict: ${output.verdict})` : ""}`];
+    if (output.findings.length > 0) {
+      lines.push("Findings:");
+      for (const finding of output.findings) {
+        const where = finding.locations.map((location) => `${location.path}:${location.line}`).join(", ");
+        const details = finding.details ? ` — ${finding.details}` : "";
+        lines.push(`- [${finding.severity}/${finding.status}] ${finding.category}: ${finding.title}${where ? ` (${where})` : ""}${details}`);
+      }
+    }
+    if (output.observations.length > 0) {
+      lines.push("Observations:");
+      for (const observation of output.observations) {
+        lines.push(`- [${observation.category}] ${observation.title}${observation.details ? ` — ${observation.details}` : ""}`);
+      }
+    }
+    if (output.text) {
+      const text = output.text.length > MAX_PIPELINE_TEXT_CHARS
+        ? `${output.text.slice(0, MAX_PIPELINE_TEXT_CHARS)}\n[truncated]`
+        : output.text;
+      lines.push("Final reply:", text);
+    }
+    if (lines.length === 1) lines.push("(no findings, observations or reply)");
+    return lines.join("\n");
+  });
+  return `# Earlier Pipeline Steps\nOutput of the earlier steps of this pipeline. Build on it instead of repeating their analysis.\n\n${steps.join("\n\n")}\n\n`;
+}
+
+function filterCommandFiles(
+  files: ChangedFile[],
+  command: CommandDefinition,
+  ignorePatterns: string[],
+  repoRoot: string
+): ChangedFile[] {
+  const ignored = applyIgnorePatterns(files, ignorePatterns, repoRoot);
   const include = command.files?.include ?? [];
   const exclude = command.files?.exclude ?? [];
   const filtered =
@@ -464,9 +678,14 @@ function filterCommandFiles(files: ChangedFile[], command: CommandDefinition, ig
 }
 
 function interpolateCommandPrompt(prompt: string, args: CommandArgs): string {
-  return prompt
+  const interpolated = prompt
     .replaceAll("${command.args}", args.args)
     .replaceAll("${command.argv}", JSON.stringify(args.argv));
+  const named = args.named;
+  if (!named) return interpolated;
+  return interpolated.replace(/\$\{args\.([A-Za-z0-9_-]+)\}/g, (_match, name: string) =>
+    named[name] === undefined ? "" : String(named[name])
+  );
 }
 
 function safeStringify(value: unknown): string {
@@ -0,0 +1,75 @@
+import type * as github from "@actions/github";
+import type { CommandDefinition, PullRequestInfo } from "../types.js";
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export interface CommandRequester {
+  login: string;
+  /** GitHub `author_association` of the triggering comment, e.g. MEMBER or CONTRIBUTOR. */
+  authorAssociation: string;
+}
+
+/**
+ * Check a comment-triggered command against its `permissions` block.
+ * Returns the refusal reason, or null when the command may run.
+ * Association, user and team rules are alternatives: matching any one of them is enough.
+ */
+export async function checkCommandPermission(params: {
+  command: CommandDefinition;
+  requester: CommandRequester;
+  prInfo: PullRequestInfo;
+  isTeamMember?: (team: string, login: string) => Promise<boolean>;
+}): Promise<string | null> {
+  const { command, requester, prInfo } = params;
+  const permissions = command.permissions;
+  if (!permissions) return null;
+
+  if (permissions.allowForks === false && prInfo.isFork) {
+    return `\`${command.id}\` cannot run on pull requests from forks.`;
+  }
+
+  const associations = permissions.authorAssociation ?? [];
+  const users = permissions.users ?? [];
+  const teams = permissions.teams ?? [];
+  if (associations.length === 0 && users.length === 0 && teams.length === 0) return null;
+
+  const association = requester.authorAssociation.toUpperCase();
+  if (associations.some((value) => value.toUpperCase() === association)) return null;
+  const login = requester.login.toLowerCase();
+  if (users.some((user) => user.replace(/^@/, "").toLowerCase() === login)) return null;
+  if (params.isTeamMember) {
+    for (const team of teams) {
+      if (await params.isTeamMember(team, requester.login)) return null;
+    }
+  }
+
+  const allowed = [
+    ...(associations.length > 0 ? [`author association ${associations.join("/")}`] : []),
+    ...(users.length > 0 ? [`users ${users.join(", ")}`] : []),
+    ...(teams.length > 0 ? [`teams ${teams.join(", ")}`] : []),
+  ];
+  return `@${requester.login} (${association || "NONE"}) is not allowed to run \`${command.id}\`. Allowed: ${allowed.join("; ")}.`;
+}
+
+/**
+ * Team membership lookup for `permissions.teams`. Teams are `org/slug`, or a bare slug in the repo owner's org.
+ * Needs a token that can read org membership; lookups that fail count as "not a member".
+ */
+export function createTeamMembershipCheck(
+  octokit: Octokit,
+  defaultOrg: string,
+  logWarning: (message: string) => void = console.warn
+): (team: string, login: string) => Promise<boolean> {
+  return async (team, login) => {
+    const [org, slug] = team.includes("/") ? team.split("/", 2) : [defaultOrg, team];
+    try {
+      const response = await octokit.rest.teams.getMembershipForUserInOrg({ org, team_slug: slug, username: login });
+      return response.data?.state === "active";
+    } catch (error: any) {
+      if (error?.status !== 404) {
+        logWarning(`[warn] Could not check ${login} membership in team ${org}/${slug}: ${error?.message ?? error}`);
+      }
+      return false;
+    }
+  };
+}
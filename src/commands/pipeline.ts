@@ -0,0 +1,66 @@
+import type { CommentType, PipelineDefinition } from "../types.js";
+import type { CommandOutput, CommandRunInput, runCommand } from "./command-runner.js";
+import type { CommandRegistry } from "./registry.js";
+
+type PrCommandInput = Extract<CommandRunInput, { mode: "pr" }>;
+
+/**
+ * Run a pipeline's steps in order against one PR. Each step gets the output of the steps before it;
+ * `files: flagged` narrows a step to the files earlier steps reported unresolved findings on.
+ * A step with invalid arguments stops the pipeline, since later steps expect its output.
+ */
+export async function runPipeline(params: {
+  pipeline: PipelineDefinition;
+  commandRegistry: CommandRegistry;
+  runCommandFn: typeof runCommand;
+  input: Omit<PrCommandInput, "command" | "commentType" | "pipelineInputs">;
+  defaultCommentType?: CommentType;
+  logInfo: (message: string) => void;
+}): Promise<CommandOutput[]> {
+  const { pipeline, input } = params;
+  const outputs: CommandOutput[] = [];
+  for (const step of pipeline.steps) {
+    const command = params.commandRegistry.get(step.command);
+    if (!command) {
+      throw new Error(`Pipeline ${pipeline.id} references unknown command: ${step.command}`);
+    }
+    let changedFiles = input.changedFiles;
+    if (step.files === "flagged") {
+      const flagged = collectFlaggedFiles(outputs);
+      changedFiles = changedFiles.filter((file) => flagged.has(file.filename));
+      if (changedFiles.length === 0) {
+        params.logInfo(`[pipeline] ${pipeline.id}: skipping ${command.id}, earlier steps flagged no files.`);
+        continue;
+      }
+    }
+    const result = await params.runCommandFn({
+      ...input,
+      command,
+      changedFiles,
+      commentType: command.comment?.type ?? params.defaultCommentType ?? "both",
+      pipelineInputs: [...outputs],
+    });
+    if (result?.status === "invalid") {
+      params.logInfo(`[warn] Pipeline ${pipeline.id} stopped: ${command.id} not run: ${result.reason}`);
+      break;
+    }
+    if (result?.status === "completed" && result.output) {
+      outputs.push(result.output);
+    }
+  }
+  return outputs;
+}
+
+/** Paths of unresolved findings reported by earlier steps. */
+export function collectFlaggedFiles(outputs: CommandOutput[]): Set<string> {
+  const flagged = new Set<string>();
+  for (const output of outputs) {
+    for (const finding of output.findings) {
+      if (finding.status === "resolved") continue;
+      for (const location of finding.locations) {
+        flagged.add(location.path);
+      }
+    }
+  }
+  return flagged;
+}
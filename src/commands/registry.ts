@@ -1,9 +1,10 @@
-import type { CommandDefinition } from "../types.js";
+import type { CommandDefinition, PipelineDefinition } from "../types.js";
 
 export class CommandRegistry {
   private readonly byId = new Map<string, CommandDefinition>();
+  private readonly pipelinesById = new Map<string, PipelineDefinition>();
 
-  constructor(commands: CommandDefinition[]) {
+  constructor(commands: CommandDefinition[], pipelines: PipelineDefinition[] = []) {
     for (const command of commands) {
       const id = command.id.trim();
       if (!id) {
@@ -14,6 +15,25 @@ export class CommandRegistry {
       }
       this.byId.set(id, command);
     }
+    // Pipelines share the command id namespace so `review.run` and label lists can name either.
+    for (const pipeline of pipelines) {
+      const id = pipeline.id.trim();
+      if (!id) {
+        throw new Error("Pipeline id cannot be empty.");
+      }
+      if (this.byId.has(id) || this.pipelinesById.has(id)) {
+        throw new Error(`Duplicate command id: ${id}`);
+      }
+      if (pipeline.steps.length === 0) {
+        throw new Error(`Pipeline ${id} has no steps.`);
+      }
+      for (const step of pipeline.steps) {
+        if (!this.byId.has(step.command)) {
+          throw new Error(`Pipeline ${id} references unknown command: ${step.command}`);
+        }
+      }
+      this.pipelinesById.set(id, pipeline);
+    }
   }
 
   get(id: string): CommandDefinition | undefined {
@@ -23,4 +43,12 @@ export class CommandRegistry {
   list(): CommandDefinition[] {
     return [...this.byId.values()];
   }
+
+  getPipeline(id: string): PipelineDefinition | undefined {
+    return this.pipelinesById.get(id);
+  }
+
+  listPipelines(): PipelineDefinition[] {
+    return [...this.pipelinesById.values()];
+  }
 }
@@ -0,0 +1,108 @@
+import type * as github from "@actions/github";
+import type { ReviewContext } from "../types.js";
+
+type Octokit = ReturnType<typeof github.getOctokit>;
+
+export type CommandOutcome =
+  | { status: "completed"; command: string; message?: string }
+  | { status: "skipped"; command: string; reason: string }
+  | { status: "invalid"; command: string; reason: string; usage: string }
+  | { status: "unknown"; command: string; available: string[] }
+  | { status: "refused"; command: string; reason: string }
+  | { status: "failed"; command: string; reason: string };
+
+export interface CommandReporter {
+  /** React with 👀 on the invoking comment. */
+  acknowledge: () => Promise<void>;
+  /** Reply with the outcome and swap 👀 for 👍 (completed) or 👎 (anything else). */
+  report: (outcome: CommandOutcome) => Promise<void>;
+}
+
+/**
+ * Feedback on a `!command` / `@bot command` comment. Reaction failures are logged and ignored:
+ * they must never stop the command itself.
+ */
+export function createCommandReporter(params: {
+  octokit: Octokit;
+  context: ReviewContext;
+  commentId: number;
+  /** The comment line that invoked the command, quoted in the reply. */
+  invocation: string;
+  logInfo?: (message: string) => void;
+}): CommandReporter {
+  const { octokit, context, commentId } = params;
+  const logInfo = params.logInfo ?? console.info;
+  let pendingReactionId: number | null = null;
+
+  const react = async (content: "eyes" | "+1" | "-1"): Promise<number | null> => {
+    try {
+      const response = await octokit.rest.reactions.createForIssueComment({
+        owner: context.owner,
+        repo: context.repo,
+        comment_id: commentId,
+        content,
+      });
+      return response.data?.id ?? null;
+    } catch (error: any) {
+      logInfo(`[warn] Failed to add ${content} reaction to comment ${commentId}: ${error?.message ?? error}`);
+      return null;
+    }
+  };
+
+  return {
+    acknowledge: async () => {
+      pendingReactionId = await react("eyes");
+    },
+    report: async (outcome) => {
+      await octokit.rest.issues.createComment({
+        owner: context.owner,
+        repo: context.repo,
+        issue_number: context.prNumber,
+        body: formatCommandOutcome(outcome, params.invocation),
+      });
+      if (pendingReactionId !== null) {
+        try {
+          await octokit.rest.reactions.deleteForIssueComment({
+            owner: context.owner,
+            repo: context.repo,
+            comment_id: commentId,
+            reaction_id: pendingReactionId,
+          });
+        } catch (error: any) {
+          logInfo(`[warn] Failed to remove eyes reaction from comment ${commentId}: ${error?.message ?? error}`);
+        }
+        pendingReactionId = null;
+      }
+      await react(outcome.status === "completed" ? "+1" : "-1");
+    },
+  };
+}
+
+export function formatCommandOutcome(outcome: CommandOutcome, invocation: string): string {
+  // The invocation and command id are the commenter's text: an HTML comment in them must not
+  // turn into a hidden marker in the bot's own reply.
+  const quote = `> ${neutralizeHtmlComments(invocation.trim())}`;
+  const id = `\`${neutralizeHtmlComments(outcome.command)}\``;
+  switch (outcome.status) {
+    case "completed":
+      return `${quote}\n\n✅ ${id} finished.${outcome.message ? `\n\n${outcome.message}` : ""}`;
+    case "skipped":
+      return `${quote}\n\n❌ ${id} skipped: ${neutralizeHtmlComments(outcome.reason)}`;
+    case "invalid":
+      return `${quote}\n\n❌ ${id} not run: ${neutralizeHtmlComments(outcome.reason)}\n\n${outcome.usage}`;
+    case "unknown": {
+      const available = outcome.available.length > 0
+        ? outcome.available.map((item) => `\`${item}\``).join(", ")
+        : "none (no commands are configured in .reviewerc)";
+      return `${quote}\n\n❌ Unknown command ${id}. Available commands: ${available}.`;
+    }
+    case "refused":
+      return `${quote}\n\n❌ Command not run: ${neutralizeHtmlComments(outcome.reason)}`;
+    case "failed":
+      return `${quote}\n\n❌ ${id} failed: ${neutralizeHtmlComments(outcome.reason)}`;
+  }
+}
+
+function neutralizeHtmlComments(text: string): string {
+  return text.replace(/<!--/g, "&lt;!--");
+}
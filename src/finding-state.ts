@@ -0,0 +1,173 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { SummaryCategory, SummaryPlacement, SummarySeverity, SummaryStatus } from "./summary.js";
+
+export const FINDING_STATE_VERSION = 1;
+const FINDING_STATE_PATTERN = /<!--\s*sri:finding-state:v(\d+)\s*\n([\s\S]*?)\n-->/;
+const DISMISSAL_RECORD_PATTERN = /<!--\s*sri:finding-dismissal:(\{[\s\S]*?\})\s*-->/;
+
+/** One finding as persisted in the summary comment, so the next run starts from it. */
+export interface FindingStateEntry {
+  ref: string;
+  fingerprint: string;
+  category: SummaryCategory;
+  severity: SummarySeverity;
+  status: SummaryStatus;
+  placement: SummaryPlacement;
+  title: string;
+  summaryOnlyReason?: string;
+  path?: string;
+  line?: number;
+  /** Inline comments and suggestions linked to the finding. */
+  commentIds: number[];
+}
+
+/** A finding someone marked as a false positive; reviews never report it again. */
+export interface FindingDismissal {
+  ref: string;
+  /** Missing when the ref was dismissed before any review stored a fingerprint for it. */
+  fingerprint?: string;
+  title?: string;
+  reason: string;
+  by: string;
+  /** `command` for `!dismiss`, `reaction` for a 👎 on the finding's inline comment. */
+  source: "command" | "reaction";
+}
+
+export interface FindingState {
+  version: typeof FINDING_STATE_VERSION;
+  reviewSha: string;
+  findings: FindingStateEntry[];
+  /**
+   * Dismissals in effect for this review, so 👎-dismissed findings keep their fingerprint once they leave
+   * `findings`. Metadata only: the next run checks each reaction again before honouring it.
+   */
+  dismissed?: FindingDismissal[];
+}
+
+/** `!dismiss` / `!reopen` outcome, stored as a hidden marker in the command's reply comment. */
+export interface FindingDismissalRecord {
+  action: "dismiss" | "reopen";
+  ref: string;
+  fingerprint?: string;
+  title?: string;
+  reason?: string;
+  by: string;
+  /** Id of the `!dismiss` / `!reopen` comment this record answers; readers check that comment's author. */
+  commentId?: number;
+}
+
+/**
+ * Content-based identity of a finding: category, the title's word set and the code around its anchor.
+ * Line numbers are left out so the fingerprint survives edits elsewhere in the file; without code
+ * (summary-only findings, unreadable files) the path stands in for it.
+ */
+export function fingerprintFinding(finding: { category: string; title: string; path?: string; code?: string }): string {
+  const titleWords = [...new Set(finding.title.toLowerCase().match(/[a-z0-9]+/g) ?? [])].sort().join(" ");
+  const code = finding.code?.trim() ? finding.code : `path:${finding.path ?? ""}`;
+  return createHash("sha256")
+    .update(`${finding.category.toLowerCase()}\n${titleWords}\n${code}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+/** Code around `line` with whitespace collapsed, or "" when the file or line cannot be read. */
+export function readFindingCode(repoRoot: string, filePath: string, line: number, radius = 2): string {
+  if (!filePath || line <= 0) return "";
+  const resolved = path.resolve(repoRoot, filePath);
+  if (path.relative(repoRoot, resolved).startsWith("..")) return "";
+  try {
+    const lines = fs.readFileSync(resolved, "utf8").split("\n");
+    if (line > lines.length) return "";
+    return lines
+      .slice(Math.max(0, line - 1 - radius), line + radius)
+      .map((text) => text.trim().replace(/\s+/g, " "))
+      .filter(Boolean)
+      .join("\n");
+  } catch {
+    return "";
+  }
+}
+
+/** Hidden block for the summary comment; `-->` inside values is escaped so the comment cannot close early. */
+export function renderFindingState(state: FindingState): string {
+  const json = JSON.stringify(state).replace(/-->/g, "--\\u003e");
+  return `<!-- sri:finding-state:v${state.version}\n${json}\n-->`;
+}
+
+/** Returns null for a missing, malformed or newer-version block; callers then fall back to the summary text. */
+export function parseFindingState(body: string): FindingState | null {
+  const match = body.match(FINDING_STATE_PATTERN);
+  if (!match || Number(match[1]) !== FINDING_STATE_VERSION) return null;
+  try {
+    const parsed = JSON.parse(match[2]);
+    if (!parsed || typeof parsed.reviewSha !== "string" || !Array.isArray(parsed.findings)) return null;
+    const findings = (parsed.findings as unknown[]).filter(isFindingStateEntry);
+    const dismissed = Array.isArray(parsed.dismissed) ? (parsed.dismissed as unknown[]).filter(isFindingDismissal) : [];
+    return {
+      version: FINDING_STATE_VERSION,
+      reviewSha: parsed.reviewSha,
+      findings,
+      ...(dismissed.length > 0 ? { dismissed } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** The dismissal covering a finding, matched by ref or by fingerprint (the same issue under a new ref). */
+export function findDismissal(
+  finding: { ref?: string; fingerprint?: string },
+  dismissals: FindingDismissal[]
+): FindingDismissal | undefined {
+  return dismissals.find(
+    (dismissal) =>
+      (finding.ref !== undefined && dismissal.ref === finding.ref) ||
+      (finding.fingerprint !== undefined && dismissal.fingerprint === finding.fingerprint)
+  );
+}
+
+export function renderDismissalRecord(record: FindingDismissalRecord): string {
+  return `<!-- sri:finding-dismissal:${JSON.stringify(record).replace(/-->/g, "--\\u003e")} -->`;
+}
+
+export function parseDismissalRecord(body: string): FindingDismissalRecord | null {
+  const match = body.match(DISMISSAL_RECORD_PATTERN);
+  if (!match) return null;
+  try {
+    const parsed = JSON.parse(match[1]);
+    if (!parsed || (parsed.action !== "dismiss" && parsed.action !== "reopen")) return null;
+    if (typeof parsed.ref !== "string" || typeof parsed.by !== "string") return null;
+    if (parsed.commentId !== undefined && typeof parsed.commentId !== "number") return null;
+    return parsed as FindingDismissalRecord;
+  } catch {
+    return null;
+  }
+}
+
+function isFindingDismissal(value: unknown): value is FindingDismissal {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.ref === "string" &&
+    typeof entry.reason === "string" &&
+    typeof entry.by === "string" &&
+    (entry.source === "command" || entry.source === "reaction")
+  );
+}
+
+function isFindingStateEntry(value: unknown): value is FindingStateEntry {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.ref === "string" &&
+    typeof entry.fingerprint === "string" &&
+    typeof entry.category === "string" &&
+    typeof entry.severity === "string" &&
+    typeof entry.status === "string" &&
+    typeof entry.placement === "string" &&
+    typeof entry.title === "string" &&
+    Array.isArray(entry.commentIds)
+  );
+}
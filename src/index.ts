@@ -1,66 +1,151 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import { readConfig } from "./app/config.js";
+import { runCommentCommand } from "./app/comment-command.js";
 import { readContext } from "./app/context.js";
-import { resolveRunMode, shouldHandleIssueComment } from "./app/mode.js";
+import { resolveRunMode, shouldHandleIssueComment, shouldHandleReviewComment } from "./app/mode.js";
 import { resolveGithubAuth } from "./app/github-auth.js";
-import { runActionFlow } from "./app/flow.js";
+import { runActionFlow, runPrCommands } from "./app/flow.js";
+import { evaluateFailOn, setReviewOutputs } from "./app/outcome.js";
 import { fetchExistingComments, fetchPrData } from "./app/pr-data.js";
+import { applyLocalReviewInputs, parseLocalReviewArgs, runLocalReview } from "./app/local-review.js";
+import { createRecordingOctokit } from "./app/recording-octokit.js";
+import type { WriteRecorder } from "./app/recording-octokit.js";
+import { writeDryRunArtifacts } from "./app/dry-run.js";
+import { createRunReport, renderRunReportSummary, writeRunReport } from "./app/run-report.js";
+import type { RunReport } from "./app/run-report.js";
+import { runPushAudit } from "./app/push-audit.js";
 import { runScheduledFlow } from "./app/schedule.js";
-import { matchesBotMention, parseCommandInvocation } from "./commands/args.js";
+import { planMergeGroupRun, planPullRequestRun } from "./app/triggers.js";
+import { runThreadReply } from "./agent/thread-reply.js";
 import { CommandRegistry } from "./commands/registry.js";
 import { runCommand } from "./commands/command-runner.js";
 import type { ChangedFile, ExistingComment, ModelEndpoint, PullRequestInfo, ReviewConfig, ReviewContext, ReviewThreadInfo } from "./types.js";
 
 async function main(): Promise<void> {
+  if (process.argv[2] === "review") {
+    await runLocalCli(process.argv.slice(3));
+    return;
+  }
+  let dryRun: { recorder: WriteRecorder; dir: string; prNumber?: number } | null = null;
+  let runReport: { report: RunReport; path?: string } | null = null;
   try {
     const actionConfig = readConfig();
     const { token, authType } = await resolveGithubAuth();
-    const octokit = github.getOctokit(token);
+    let octokit = github.getOctokit(token);
     if (actionConfig.review.debug) {
       core.info(`[debug] GitHub auth: ${authType}`);
     }
-    const registry = new CommandRegistry(actionConfig.commands);
+    const registry = new CommandRegistry(actionConfig.commands, actionConfig.pipelines);
     const mode = resolveRunMode();
+    const { owner, repo } = github.context.repo;
+    runReport = {
+      report: createRunReport({
+        eventName: github.context.eventName,
+        repository: `${owner}/${repo}`,
+        prNumber: "prNumber" in mode ? mode.prNumber ?? undefined : undefined,
+      }),
+      path: actionConfig.runReport,
+    };
+    if (actionConfig.dryRun) {
+      const recording = createRecordingOctokit(octokit);
+      octokit = recording.octokit;
+      dryRun = {
+        recorder: recording.recorder,
+        dir: actionConfig.dryRunDir,
+        prNumber: "prNumber" in mode ? mode.prNumber ?? undefined : undefined,
+      };
+      core.info("Dry run enabled: GitHub writes will be recorded, not posted.");
+    }
     if (mode.mode === "pull_request") {
+      const plan = planPullRequestRun(mode, actionConfig.triggers);
+      if (plan.skipReason) {
+        core.info(plan.skipReason);
+        return;
+      }
       const context = readContext(mode.prNumber);
-      await runActionFlow({
+      if (plan.review) {
+        const outcome = await runActionFlow({
+          config: actionConfig,
+          context,
+          octokit,
+          logDebug: core.info,
+          commandIds: actionConfig.reviewRun,
+          commandRegistry: registry,
+          runCommandFn: runCommand,
+          toolsAllowlist: actionConfig.toolsAllowlist,
+          defaultCommentType: actionConfig.outputCommentType,
+          logInfo: core.info,
+          runGitFn: dryRun?.recorder.runGit,
+          runReport: runReport.report,
+        });
+        setReviewOutputs(outcome, core.setOutput);
+        const failure = evaluateFailOn(actionConfig.failOn ?? [], outcome);
+        if (failure) {
+          core.setFailed(failure);
+        }
+      }
+      if (plan.commandIds.length > 0) {
+        await runPrCommands({
+          config: actionConfig,
+          context,
+          octokit,
+          source: `review.runOnLabels[${mode.label}]`,
+          commandIds: plan.commandIds,
+          commandRegistry: registry,
+          logInfo: core.info,
+          runGitFn: dryRun?.recorder.runGit,
+          runReport: runReport.report,
+        });
+      }
+      return;
+    }
+    if (mode.mode === "merge_group") {
+      const plan = planMergeGroupRun(mode, actionConfig.triggers);
+      if (plan.skipReason) {
+        core.info(plan.skipReason);
+        return;
+      }
+      core.info(`Merge queue check for PR #${mode.prNumber} at ${mode.headSha}.`);
+      const outcome = await runPrCommands({
         config: actionConfig,
-        context,
+        context: readContext(mode.prNumber),
         octokit,
-        logDebug: core.info,
-        commandIds: actionConfig.reviewRun,
+        source: "review.mergeGroup",
+        commandIds: plan.commandIds,
         commandRegistry: registry,
-        runCommandFn: runCommand,
-        toolsAllowlist: actionConfig.toolsAllowlist,
-        defaultCommentType: actionConfig.outputCommentType,
+        mergeGroup: { baseSha: mode.baseSha, headSha: mode.headSha },
         logInfo: core.info,
+        runGitFn: dryRun?.recorder.runGit,
+        runReport: runReport.report,
       });
+      // A failing check blocks the merge queue, so fail-on applies to merge group commands too.
+      const failure = evaluateFailOn(actionConfig.failOn ?? [], outcome);
+      if (failure) {
+        core.setFailed(failure);
+      }
       return;
     }
     if (mode.mode === "issue_comment") {
       if (!shouldHandleIssueComment(mode, core.info)) return;
-      const invocation = parseCommandInvocation(mode.commentBody);
-      if (!invocation) return;
-      if (invocation.mention) {
-        if (!actionConfig.botName) {
-          core.info(`Ignoring @${invocation.mention} command because bot-name is not configured.`);
-          return;
-        }
-        if (!matchesBotMention(invocation.mention, actionConfig.botName)) {
-          core.info(`Ignoring @${invocation.mention} command (expected @${actionConfig.botName}).`);
-          return;
-        }
-      }
-      const command = registry.get(invocation.command);
-      if (!command) return;
+      await runCommentCommand({
+        config: actionConfig,
+        octokit,
+        context: readContext(mode.prNumber),
+        mode,
+        commandRegistry: registry,
+        logInfo: core.info,
+        runGitFn: dryRun?.recorder.runGit,
+        runReport: runReport.report,
+      });
+      return;
+    }
+    if (mode.mode === "review_comment") {
+      if (!shouldHandleReviewComment(mode, core.info)) return;
       const context = readContext(mode.prNumber);
       const { prInfo, changedFiles } = await fetchPrData(octokit, context);
       const { existingComments, reviewThreads } = await fetchExistingComments(octokit, context);
-      const commentType = command.comment?.type ?? actionConfig.outputCommentType;
-      await runCommand({
-        mode: "pr",
-        command,
+      await runThreadReply({
         config: actionConfig.review,
         context,
         octokit,
@@ -68,12 +153,26 @@ async function main(): Promise<void> {
         changedFiles,
         existingComments,
         reviewThreads,
-        commandArgs: { args: invocation.args, argv: invocation.argv },
-        commentType,
-        allowlist: actionConfig.toolsAllowlist,
+        commentId: mode.commentId,
+        toolAllowlist: actionConfig.toolsAllowlist,
+        logInfo: core.info,
       });
       return;
     }
+    if (mode.mode === "push") {
+      const outcome = await runPushAudit({
+        config: actionConfig,
+        octokit,
+        owner,
+        repo,
+        mode,
+        logInfo: core.info,
+        runReport: runReport.report,
+      });
+      // The audited commits are already merged, so fail-on would only turn the default branch red.
+      setReviewOutputs(outcome, core.setOutput);
+      return;
+    }
     if (mode.mode === "schedule") {
       if (mode.trigger === "workflow_dispatch") {
         core.info("workflow_dispatch triggered; running schedule flow.");
@@ -83,12 +182,66 @@ async function main(): Promise<void> {
         octokit,
         logInfo: core.info,
         logDebug: core.info,
+        runGitFn: dryRun?.recorder.runGit,
+        runReport: runReport.report,
       });
       return;
     }
     core.info(`Unsupported event ${mode.eventName}. Nothing to do.`);
   } catch (error: any) {
     core.setFailed(error instanceof Error ? error.message : String(error));
+  } finally {
+    if (dryRun) {
+      flushDryRun(dryRun);
+    }
+    if (runReport) {
+      await flushRunReport(runReport);
+    }
+  }
+}
+
+function flushDryRun(dryRun: { recorder: WriteRecorder; dir: string; prNumber?: number }): void {
+  try {
+    const { owner, repo } = github.context.repo;
+    const paths = writeDryRunArtifacts(dryRun.dir, dryRun.recorder.writes, {
+      eventName: github.context.eventName,
+      repository: `${owner}/${repo}`,
+      prNumber: dryRun.prNumber,
+    });
+    core.info(`Dry run recorded ${dryRun.recorder.writes.length} write(s): ${paths.jsonPath}, ${paths.markdownPath}`);
+  } catch (error: any) {
+    core.warning(`Failed to write dry-run artifacts: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function flushRunReport(runReport: { report: RunReport; path?: string }): Promise<void> {
+  const data = runReport.report.toJSON();
+  if (runReport.path) {
+    try {
+      writeRunReport(runReport.path, data);
+      core.info(`Run report written to ${runReport.path}`);
+    } catch (error: any) {
+      core.warning(`Failed to write run report: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  // Events that never reached a review or command (skipped triggers, ignored comments) leave the job page alone.
+  if (!process.env.GITHUB_STEP_SUMMARY || (data.runs.length === 0 && !data.scope)) return;
+  try {
+    await core.summary.addRaw(renderRunReportSummary(data)).write();
+  } catch (error: any) {
+    core.warning(`Failed to write job summary: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function runLocalCli(argv: string[]): Promise<void> {
+  try {
+    const args = parseLocalReviewArgs(argv);
+    applyLocalReviewInputs(args);
+    const actionConfig = readConfig();
+    await runLocalReview({ config: actionConfig, args, logInfo: (message) => console.error(message) });
+  } catch (error: any) {
+    console.error(error instanceof Error ? error.message : String(error));
+    process.exitCode = 1;
   }
 }
 
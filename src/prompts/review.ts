@@ -10,9 +10,9 @@ const TOOL_DOCS: Record<string, string> = {
   report_observation:
     "`report_observation({ observation_ref?, category, title, details? })` — record important non-issue context for the Key Findings section (for example architecture intent, testing gaps, rollout risk).",
   comment:
-    "`comment({ path, line, side, body, finding_ref? })` — for actionable issues only. Never post praise-only comments. When the comment maps to a finding, pass the same finding_ref used in report_finding.",
+    "`comment({ path, line, side, start_line?, subject_type?, body, finding_ref? })` — for actionable issues only. Use subject_type=file (no line) for issues about the whole file. Use start_line (first line, with line as the last) when the issue spans several lines. Never post praise-only comments. When the comment maps to a finding, pass the same finding_ref used in report_finding.",
   suggest:
-    "`suggest({ path, line, side, suggestion, comment, finding_ref? })` — for actionable issues only. Always include a comment explaining why the change is needed. When the suggestion maps to a finding, pass the same finding_ref used in report_finding.",
+    "`suggest({ path, line, side, start_line?, suggestion, comment, finding_ref? })` — for actionable issues only. Always include a comment explaining why the change is needed. With start_line, the suggestion replaces every line from start_line to line, so include the full replacement for that range. When the suggestion maps to a finding, pass the same finding_ref used in report_finding.",
   set_summary_mode:
     "`set_summary_mode({ mode, reason, evidence[] })` — escalate summary mode to standard/alert when risk justifies it. Never use for downgrades.",
   terminate: "call exactly once as your final action.",
@@ -148,7 +148,7 @@ Never re-post feedback that a prior thread already covers. If the verdict change
     ? `\n# Workflow\n${workflowSteps.map((step, i) => `${i + 1}. ${step}`).join("\n")}\n`
     : "";
   const summaryFindingRecording = can.reportFinding
-    ? "Use report_finding for every issue/resolution/still-open item. Each finding must include finding_ref + category + severity + status. Use placement=inline for line-specific findings (and link with comment/suggest finding_ref), or placement=summary_only with summary_only_reason only when a single inline anchor is not possible."
+    ? "Use report_finding for every issue/resolution/still-open item. Each finding must include finding_ref + category + severity + status. Use placement=inline for line-specific findings (and link with comment/suggest finding_ref), placement=file for findings about a whole file such as missing tests, module placement, or a binary/too-large diff (and link with comment subject_type=file), or placement=summary_only with summary_only_reason only when neither a line nor a single file anchor is possible."
     : "List each finding with category, severity, and status (new/resolved/still-open).";
   const summaryModeBehavior = can.setSummaryMode
     ? "- Use set_summary_mode only to escalate when evidence warrants it (never downgrade below candidate)."
@@ -233,6 +233,8 @@ export function buildUserPrompt(params: {
   previousReviewUrl?: string | null;
   previousReviewAt?: string | null;
   previousReviewBody?: string | null;
+  carriedFindings?: Array<{ ref: string; title: string; severity: string; path?: string; line?: number }>;
+  dismissedFindings?: Array<{ ref: string; title?: string; reason: string }>;
   sequenceDiagram?: string | null;
   changedLineCount?: number;
   summaryModeCandidate?: "compact" | "standard";
@@ -249,6 +251,12 @@ export function buildUserPrompt(params: {
   const previousReviewAt = params.previousReviewAt ? params.previousReviewAt : "(unknown)";
   const previousReviewUrl = params.previousReviewUrl ? params.previousReviewUrl : "(unknown)";
   const previousReviewBody = params.previousReviewBody ? params.previousReviewBody : "";
+  const carriedFindings = (params.carriedFindings ?? [])
+    .map((finding) => `- ${finding.ref} [${finding.severity}] ${finding.title}${finding.path ? ` (${finding.path}${finding.line ? `:${finding.line}` : ""})` : ""}`)
+    .join("\n");
+  const dismissedFindings = (params.dismissedFindings ?? [])
+    .map((finding) => `- ${finding.ref}${finding.title ? ` ${finding.title}` : ""}${finding.reason ? ` (dismissed: ${finding.reason})` : ""}`)
+    .join("\n");
   const directoryCount = params.directoryCount ?? 0;
   const changedLineCount = Number.isFinite(params.changedLineCount) ? Math.max(0, Math.trunc(params.changedLineCount as number)) : "(unknown)";
   const summaryModeCandidate = params.summaryModeCandidate ?? "standard";
@@ -280,7 +288,15 @@ ${scopeWarning ? `- Review scope note: ${scopeWarning}` : ""}
 - Previous verdict: ${previousVerdict}
 - Previous review at: ${previousReviewAt}
 - Previous review URL: ${previousReviewUrl}
-${previousReviewBody ? `\nPrevious summary:\n${previousReviewBody}` : ""}
+${previousReviewBody ? `\nPrevious summary:\n${previousReviewBody}` : ""}${
+  carriedFindings
+    ? `\n\nOpen findings carried over (already recorded as still_open; call report_finding with the same finding_ref and status=resolved once fixed, and never re-report them under a new ref):\n${carriedFindings}`
+    : ""
+}${
+  dismissedFindings
+    ? `\n\nDismissed findings (a maintainer marked them as false positives; do not report or comment on them again, under any ref):\n${dismissedFindings}`
+    : ""
+}
 ${
   isFollowUp
     ? "\nNote: This is a follow-up review. Focus only on changes since the last review; do not restate unchanged findings."
@@ -0,0 +1,46 @@
+export function buildThreadReplySystemPrompt(toolNames: string[] = []): string {
+  const available = new Set(toolNames);
+  const canResolve = available.has("resolve_thread");
+  return `# Role
+You are the same code reviewer that opened this review thread. A human replied to one of your inline comments. Answer them in the thread.
+
+# How to respond
+- Re-read the code before answering. Use read/grep when the excerpt is not enough to settle the question.
+- If the reply shows your comment was wrong or no longer applies, concede plainly. Do not defend a finding you cannot back with the code.
+- If the concern still stands, explain why in one or two short paragraphs and point at the exact code. Do not repeat your original comment word for word.
+- If the reply asks a question, answer it directly.
+- Stay on the topic of this thread. Do not raise new findings.
+- Post exactly one reply with reply_comment, using the root comment id given in the prompt.
+${canResolve ? "- Call resolve_thread instead of reply_comment when the issue is fixed at head or you concede it. Its body is the reply, so do not post both.\n" : ""}- Call terminate when you are done.
+- Do not praise the author, and do not add sign-offs.`;
+}
+
+export function buildThreadReplyUserPrompt(params: {
+  prTitle: string;
+  headSha: string;
+  path: string;
+  line: number | null;
+  threadId: number;
+  rootCommentId: number;
+  history: Array<{ author: string; body: string }>;
+  fileExcerpt: string;
+}): string {
+  const location = params.line ? `${params.path}:${params.line}` : params.path;
+  const history = params.history
+    .map((entry, index) => `## ${index === 0 ? "Original comment" : "Reply"} by ${entry.author}\n${entry.body.trim()}`)
+    .join("\n\n");
+  return `# Thread
+PR title: ${params.prTitle}
+Location: ${location}
+Head SHA: ${params.headSha}
+Root comment id (for reply_comment): ${params.rootCommentId}
+Thread id (for resolve_thread): ${params.threadId}
+
+${history}
+
+# File at head
+${params.fileExcerpt}
+
+# Task
+Respond to the latest reply in this thread.`;
+}
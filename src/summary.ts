@@ -28,7 +28,7 @@ export type SummaryCategory = (typeof SUMMARY_CATEGORIES)[number];
 export type SummarySeverity = "low" | "medium" | "high";
 export type SummaryStatus = "new" | "resolved" | "still_open";
 export type SummaryMode = "compact" | "standard" | "alert";
-export type SummaryPlacement = "inline" | "summary_only";
+export type SummaryPlacement = "inline" | "file" | "summary_only";
 
 export interface StructuredSummaryFinding {
   findingRef?: string;
@@ -44,6 +44,21 @@ export interface StructuredSummaryFinding {
   action?: string;
 }
 
+export interface SummaryFindingLocation {
+  path: string;
+  line: number;
+  side: "LEFT" | "RIGHT";
+}
+
+/** What post_summary published, for consumers such as check runs. */
+export interface PublishedSummary {
+  verdict: string;
+  body: string;
+  url?: string;
+  findings: Array<StructuredSummaryFinding & { locations: SummaryFindingLocation[] }>;
+  observations?: SummaryObservation[];
+}
+
 export interface KeyFileSummary {
   path: string;
   whyReview: string;
@@ -261,6 +276,62 @@ export function buildAdaptiveSummaryMarkdown(input: AdaptiveSummaryInput): strin
   return appendTraceabilityComment(lines.join("\n"), findings);
 }
 
+/** `output.format: narrative` — unresolved findings as prose paragraphs, highest severity first. */
+export function buildNarrativeSummaryMarkdown(input: AdaptiveSummaryInput): string {
+  const findings = sanitizeFindings(input.findings);
+  const observations = sanitizeObservations(input.observations);
+  const open = sortBySeverity(findings.filter((finding) => finding.status !== "resolved"));
+  const resolved = findings.filter((finding) => finding.status === "resolved");
+  const lines: string[] = ["## Review Summary", "", `**Verdict:** ${input.verdict}`, ""];
+  lines.push(sanitizeText(input.preface) || defaultPreface(input.isFollowUp, findings.length > 0));
+  lines.push("");
+  if (open.length > 0) {
+    lines.push("### Review Narrative", "");
+    for (const finding of open) {
+      const title = withPrimaryLink(deriveDisplayTitle(finding.title, finding.details), finding.linkedLocations);
+      const parts = [`**${title}** (${finding.category.toLowerCase()}, ${finding.severity} severity${finding.status === "still_open" ? ", still open" : ""})`];
+      if (finding.details) parts.push(toSingleLine(finding.details));
+      if (finding.action) parts.push(`Next step: ${toSingleLine(finding.action)}`);
+      lines.push(joinSentenceParts(parts), "");
+    }
+  }
+  if (resolved.length > 0) {
+    lines.push(`Resolved since the last review: ${resolved.map((finding) => toSingleLine(finding.title)).join("; ")}.`, "");
+  }
+  appendObservationsSection(lines, observations);
+  return appendTraceabilityComment(lines.join("\n").trimEnd(), findings);
+}
+
+/** `output.format: checklist` — one task-list item per finding; resolved findings are checked off. */
+export function buildChecklistSummaryMarkdown(input: AdaptiveSummaryInput): string {
+  const findings = sanitizeFindings(input.findings);
+  const observations = sanitizeObservations(input.observations);
+  const lines: string[] = ["## Review Summary", "", `**Verdict:** ${input.verdict}`, ""];
+  lines.push(sanitizeText(input.preface) || defaultPreface(input.isFollowUp, findings.length > 0));
+  lines.push("", "### Checklist", "");
+  if (findings.length === 0) {
+    lines.push("- None");
+  }
+  for (const finding of sortBySeverity(findings)) {
+    const title = withPrimaryLink(deriveDisplayTitle(finding.title, finding.details), finding.linkedLocations);
+    if (finding.status === "resolved") {
+      lines.push(`- [x] ~~${title}~~ (resolved)`);
+      continue;
+    }
+    const parts = [`[${finding.severity}] ${finding.category}: ${title}`];
+    if (finding.action) parts.push(toSingleLine(finding.action));
+    lines.push(`- [ ] ${joinSentenceParts(parts)}`);
+  }
+  lines.push("");
+  appendObservationsSection(lines, observations);
+  return appendTraceabilityComment(lines.join("\n").trimEnd(), findings);
+}
+
+function sortBySeverity(findings: StructuredSummaryFinding[]): StructuredSummaryFinding[] {
+  const rank: Record<SummarySeverity, number> = { high: 0, medium: 1, low: 2 };
+  return [...findings].sort((a, b) => rank[a.severity] - rank[b.severity]);
+}
+
 function sanitizeFindings(findings: StructuredSummaryFinding[]): StructuredSummaryFinding[] {
   const cleaned: StructuredSummaryFinding[] = [];
   for (const finding of findings) {
@@ -323,7 +394,7 @@ function sanitizeFindingRef(value: string | undefined): string | undefined {
 }
 
 function normalizePlacement(value: SummaryPlacement | undefined): SummaryPlacement | undefined {
-  if (value === "inline" || value === "summary_only") return value;
+  if (value === "inline" || value === "file" || value === "summary_only") return value;
   return undefined;
 }
 
@@ -3,9 +3,12 @@ import type { AgentTool } from "@mariozechner/pi-agent-core";
 import { defineTool } from "./define-tool.js";
 import type { getOctokit } from "@actions/github";
 import { RateLimitError } from "./github.js";
-import type { ChangedFile, CommentType, ExistingComment, ReviewThreadInfo } from "../types.js";
+import { addedLinesInFile, findLineSuppressions } from "../app/suppressions.js";
+import type { ChangedFile, CommentType, ExistingComment, OutputFormat, ReviewThreadInfo } from "../types.js";
 import {
   buildAdaptiveSummaryMarkdown,
+  buildChecklistSummaryMarkdown,
+  buildNarrativeSummaryMarkdown,
   hasHighRiskFindings,
   maxSummaryMode,
   normalizeSummaryCategory,
@@ -13,11 +16,16 @@ import {
   normalizeSummaryStatus,
   summaryModeRank,
   type KeyFileSummary,
+  type PublishedSummary,
+  type SummaryFindingLocation,
   type SummaryObservation,
   type StructuredSummaryFinding,
   type SummaryMode,
   type SummaryPlacement,
+  type SummarySeverity,
 } from "../summary.js";
+import { FINDING_STATE_VERSION, findDismissal, fingerprintFinding, readFindingCode, renderFindingState } from "../finding-state.js";
+import type { FindingDismissal, FindingState, FindingStateEntry } from "../finding-state.js";
 
 type Octokit = ReturnType<typeof getOctokit>;
 
@@ -35,6 +43,7 @@ const SUMMARY_ONLY_REASON_HINT_PATTERNS = [
   /unchanged since last review/i,
   /still open from prior review/i,
   /architectural/i,
+  /inline comment cap/i,
 ];
 const SUMMARY_ONLY_META_REASON_PATTERNS = [
   /verification of specific logic/i,
@@ -48,6 +57,9 @@ const PRAISE_ONLY_PATTERN =
 const ISSUE_SIGNAL_PATTERN =
   /\b(bug|error|fail|failing|missing|incorrect|bypass|leak|race|insecure|broken|regression|coupl|duplica|unused|slow|latency|risk|vulnerab|crash|panic|deadlock|impact)\b/i;
 const EVIDENCE_FILE_LINE_PATTERN = /^([^\s:][^:]*?):(\d+)(?::\d+)?(?:\b|$)/;
+const SEVERITY_RANK: Record<SummarySeverity, number> = { low: 1, medium: 2, high: 3 };
+const CAPPED_SUMMARY_ONLY_REASON = "Inline comment cap (maxFindings) reached; higher-severity findings took the inline slots.";
+const CARRIED_SUMMARY_ONLY_REASON = "Carried over from the previous review, unchanged since last review; its inline comment is no longer on the PR.";
 interface SummaryPolicy {
   isFollowUp: boolean;
   modeCandidate: SummaryMode;
@@ -56,6 +68,15 @@ interface SummaryPolicy {
   riskHints: string[];
 }
 
+/** Command output policy from `.reviewerc` (output.format, output.severityFloor, limits.maxFindings). */
+interface FindingPolicy {
+  format?: OutputFormat;
+  /** Findings below this severity are recorded as observations instead. */
+  severityFloor?: SummarySeverity;
+  /** Cap on new inline comment threads; queued comments are posted by severity when the summary is. */
+  maxFindings?: number;
+}
+
 interface ReviewToolDeps {
   octokit: Octokit;
   owner: string;
@@ -74,17 +95,60 @@ interface ReviewToolDeps {
   summaryPosted?: () => boolean;
   commentType?: CommentType;
   summaryPolicy?: SummaryPolicy;
+  /** Buffer new inline comments and submit them with the summary as one pull request review. */
+  batchReview?: boolean;
+  onSummaryPublished?: (summary: PublishedSummary) => void | Promise<void>;
+  /** post_summary publishes once this settles, so concurrent runs post their summaries in a fixed order. */
+  summaryTurn?: Promise<unknown>;
+  findingPolicy?: FindingPolicy;
+  /**
+   * Receives the flush for comments held back by findingPolicy.maxFindings or queued for a batched review,
+   * for runs that end without post_summary. It posts them as standalone review comments.
+   */
+  onDeferredComments?: (flush: () => Promise<void>) => void;
+  /** Why the run was cut short (e.g. budget exhausted); a summary of a cut-short run is never inferred as Approve. */
+  stoppedEarly?: () => string | null;
+  /**
+   * Persist finding lifecycle state in the summary. Unresolved `previous` findings start out recorded as
+   * still_open; report_finding with the same finding_ref updates them. `dismissed` findings are dropped
+   * and report_finding refuses them, by ref or fingerprint.
+   */
+  findingState?: { previous: FindingStateEntry[]; dismissed?: FindingDismissal[] };
+  /** Checkout root: fingerprints hash the code around a finding, and `sri-ignore-next-line` comments are honoured. */
+  repoRoot?: string;
+  /** Every file in the PR when `changedFiles` is narrower; directives the PR adds are not honoured. */
+  fullPrChangedFiles?: ChangedFile[];
+  /** Sign replies with the model and billing footer; thread-reply runs have no summary to carry it. */
+  replyFooter?: boolean;
 }
 
 interface FindingLink {
   path: string;
+  /** 0 for file-level comments. */
   line: number;
   side: "LEFT" | "RIGHT";
-  commentId: number;
+  subjectType?: "file";
+  /** null while the comment is queued for a batched review. */
+  commentId: number | null;
   commentUrl?: string;
   kind: "comment" | "suggestion";
 }
 
+interface PendingReviewComment {
+  path: string;
+  /** 0 for file-level comments. */
+  line: number;
+  side: "LEFT" | "RIGHT";
+  subjectType?: "file";
+  startLine?: number;
+  startSide?: "LEFT" | "RIGHT";
+  body: string;
+  kind: "comment" | "suggestion";
+  findingRef?: string;
+}
+
+type ReviewEvent = "APPROVE" | "REQUEST_CHANGES" | "COMMENT";
+
 interface SummaryDraftSnapshot {
   findings: StructuredSummaryFinding[];
   observations: SummaryObservation[];
@@ -106,11 +170,20 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
   let summaryModeOverride: SummaryMode | null = null;
   let summaryModeReason = "";
   let summaryModeEvidence: string[] = [];
+  const pendingReviewComments: PendingReviewComment[] = [];
+  const maxInlineComments = deps.findingPolicy?.maxFindings;
+  const capInlineComments = maxInlineComments !== undefined;
+  let cappedCommentsPosted = 0;
+  const countedPendingComments = new Set<PendingReviewComment>();
+  const cappedFindingRefs = new Set<string>();
+  // Queued comments without a finding_ref that the cap left out; the summary lists them instead.
+  const cappedUnlinkedComments: PendingReviewComment[] = [];
+  const demotedFindingRefs = new Set<string>();
 
   const recordFindingLink = (
     findingRef: string | undefined,
-    location: { path: string; line: number; side: "LEFT" | "RIGHT" | undefined },
-    commentId: number,
+    location: { path: string; line: number; side: "LEFT" | "RIGHT" | undefined; subjectType?: "file" },
+    commentId: number | null,
     kind: "comment" | "suggestion",
     commentUrl?: string
   ) => {
@@ -124,12 +197,70 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
       path: location.path,
       line: location.line,
       side,
+      ...(location.subjectType ? { subjectType: location.subjectType } : {}),
       commentId,
       commentUrl,
       kind,
     });
     findingLinksByRef.set(findingRef, links);
   };
+  const removeFinding = (findingRef: string) => {
+    const index = findingIndexByRef.get(findingRef);
+    if (index === undefined) return;
+    summaryFindings.splice(index, 1);
+    findingIndexByRef.clear();
+    summaryFindings.forEach((finding, position) => {
+      if (finding.findingRef) findingIndexByRef.set(finding.findingRef, position);
+    });
+  };
+  const fingerprintAt = (finding: { category: string; title: string }, anchor: { path: string; line: number } | undefined) =>
+    fingerprintFinding({
+      category: finding.category,
+      title: finding.title,
+      path: anchor?.path,
+      code: anchor && deps.repoRoot ? readFindingCode(deps.repoRoot, anchor.path, anchor.line) : "",
+    });
+  const carriedFindingRefs = new Set<string>();
+  const carriedRefByFingerprint = new Map<string, string>();
+  const carriedFingerprintByRef = new Map<string, string>();
+  const carriedCommentsByRef = new Map<string, ExistingComment[]>();
+  // New refs merged into a carried finding with the same fingerprint; later calls with the new ref follow it.
+  const findingRefAliases = new Map<string, string>();
+  const resolveFindingRef = (findingRef: string | undefined) => (findingRef ? findingRefAliases.get(findingRef) ?? findingRef : findingRef);
+  const dismissedFindings = deps.findingState?.dismissed ?? [];
+  for (const entry of deps.findingState?.previous ?? []) {
+    const category = normalizeSummaryCategory(entry.category);
+    const severity = normalizeSummarySeverity(entry.severity);
+    const findingRef = normalizeFindingRef(entry.ref);
+    if (!category || !severity || !findingRef || entry.status === "resolved" || carriedFindingRefs.has(findingRef)) continue;
+    if (findDismissal({ ref: findingRef, fingerprint: entry.fingerprint }, dismissedFindings)) continue;
+    const comments = findFindingComments(deps.existingComments, findingRef, entry.commentIds);
+    for (const comment of comments) {
+      recordFindingLink(
+        findingRef,
+        { path: comment.path ?? entry.path ?? "", line: comment.line ?? entry.line ?? 0, side: comment.side, subjectType: comment.subjectType },
+        comment.id,
+        "comment",
+        comment.url
+      );
+    }
+    // An inline finding whose comment was deleted can only be carried in the summary.
+    const anchored = comments.length > 0 || entry.placement === "summary_only";
+    summaryFindings.push({
+      findingRef,
+      category,
+      severity,
+      status: "still_open",
+      placement: anchored ? entry.placement : "summary_only",
+      summaryOnlyReason: anchored ? entry.summaryOnlyReason : CARRIED_SUMMARY_ONLY_REASON,
+      title: entry.title,
+    });
+    findingIndexByRef.set(findingRef, summaryFindings.length - 1);
+    carriedFindingRefs.add(findingRef);
+    carriedFingerprintByRef.set(findingRef, entry.fingerprint);
+    if (!carriedRefByFingerprint.has(entry.fingerprint)) carriedRefByFingerprint.set(entry.fingerprint, findingRef);
+    if (comments.length > 0) carriedCommentsByRef.set(findingRef, comments);
+  }
   const getFindingByRef = (findingRef: string | undefined): StructuredSummaryFinding | undefined => {
     if (!findingRef) return undefined;
     const index = findingIndexByRef.get(findingRef);
@@ -137,10 +268,15 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
     return summaryFindings[index];
   };
   const buildSummaryDraft = (): SummaryDraftSnapshot => {
-    const findings = summaryFindings.map((finding) => ({
-      ...finding,
-      linkedLocations: finding.findingRef ? formatFindingLinks(findingLinksByRef.get(finding.findingRef)) : [],
-    }));
+    const findings = summaryFindings.map((finding) => {
+      const links = finding.findingRef ? findingLinksByRef.get(finding.findingRef) : undefined;
+      const capped = Boolean(finding.findingRef && cappedFindingRefs.has(finding.findingRef) && !links?.length);
+      return {
+        ...finding,
+        ...(capped ? { placement: "summary_only" as const, summaryOnlyReason: CAPPED_SUMMARY_ONLY_REASON } : {}),
+        linkedLocations: formatFindingLinks(links),
+      };
+    });
     const keyFiles = resolveSummaryKeyFiles(deps.changedFiles, [...keyFilesByPath.values()]);
     return {
       findings,
@@ -148,6 +284,274 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
       keyFiles,
     };
   };
+  const queuePendingReviewComment = (
+    comment: Omit<PendingReviewComment, "side"> & { side: "LEFT" | "RIGHT" | undefined; allowNewThread?: boolean },
+    findingRef: string | undefined
+  ) => {
+    const side = comment.side ?? "RIGHT";
+    const label = comment.kind === "comment" ? "Comment" : "Suggestion";
+    const duplicate = pendingReviewComments.find(
+      (pending) => pending.path === comment.path && pending.line === comment.line && pending.side === side
+    );
+    if (duplicate && !comment.allowNewThread) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `A ${duplicate.kind} is already queued for ${comment.path}:${comment.line} (${side}) in this review. Fold the new point into it via the summary, or set allow_new_thread=true to queue another.`,
+        }],
+        details: { id: -1 },
+      };
+    }
+    pendingReviewComments.push({
+      path: comment.path,
+      line: comment.line,
+      side,
+      subjectType: comment.subjectType,
+      startLine: comment.startLine,
+      startSide: comment.startSide,
+      body: comment.body,
+      kind: comment.kind,
+      findingRef,
+    });
+    if (!capInlineComments) {
+      countInlineComment(comment.kind);
+    }
+    recordFindingLink(findingRef, { path: comment.path, line: comment.line, side, subjectType: comment.subjectType }, null, comment.kind);
+    const text = deps.batchReview
+      ? `${label} queued for the batched review (${pendingReviewComments.length} pending). It is submitted together with post_summary.`
+      : `${label} queued (${pendingReviewComments.length} pending). At most ${maxInlineComments} new inline comment(s) are posted, highest severity first, when post_summary runs; the rest stay in the summary only.${findingRef ? "" : " Without a finding_ref it ranks below every finding's comment."}`;
+    return {
+      content: [{ type: "text" as const, text }],
+      details: { id: null, pending: pendingReviewComments.length },
+    };
+  };
+  const countInlineComment = (kind: "comment" | "suggestion") => {
+    if (kind === "comment") {
+      deps.onInlineComment?.();
+    } else {
+      deps.onSuggestion?.();
+    }
+  };
+  // Keep the highest-severity queued comments within the maxFindings budget; dropped ones lose their links.
+  const applyInlineCommentCap = () => {
+    if (!capInlineComments) return;
+    // Batched reviews keep the queue until submission, so the whole budget applies to it.
+    const budget = deps.batchReview ? maxInlineComments : Math.max(0, maxInlineComments - cappedCommentsPosted);
+    const ranked = pendingReviewComments
+      .map((comment, index) => ({ comment, index, rank: findingSeverityRank(getFindingByRef(comment.findingRef)) }))
+      .sort((a, b) => b.rank - a.rank || a.index - b.index);
+    const kept = new Set(ranked.slice(0, budget).map((entry) => entry.comment));
+    for (const comment of pendingReviewComments) {
+      if (kept.has(comment)) {
+        if (!countedPendingComments.has(comment)) {
+          countedPendingComments.add(comment);
+          countInlineComment(comment.kind);
+        }
+        continue;
+      }
+      if (!comment.findingRef) {
+        cappedUnlinkedComments.push(comment);
+        continue;
+      }
+      const links = (findingLinksByRef.get(comment.findingRef) ?? []).filter(
+        (link) => !(link.commentId === null && link.path === comment.path && link.line === comment.line && link.side === comment.side)
+      );
+      findingLinksByRef.set(comment.findingRef, links);
+      cappedFindingRefs.add(comment.findingRef);
+    }
+    const remaining = pendingReviewComments.filter((comment) => kept.has(comment));
+    pendingReviewComments.splice(0, pendingReviewComments.length, ...remaining);
+    if (!deps.batchReview) {
+      cappedCommentsPosted += remaining.length;
+    }
+  };
+  const postDeferredComments = async () => {
+    const queued = pendingReviewComments.splice(0, pendingReviewComments.length);
+    for (const comment of queued) {
+      const response = await safeCall(() =>
+        deps.octokit.rest.pulls.createReviewComment({
+          owner: deps.owner,
+          repo: deps.repo,
+          pull_number: deps.pullNumber,
+          commit_id: deps.headSha,
+          path: comment.path,
+          ...commentTargetParams(comment),
+          body: comment.body,
+        })
+      );
+      const link = comment.findingRef
+        ? findingLinksByRef.get(comment.findingRef)?.find(
+          (entry) => entry.commentId === null && entry.path === comment.path && entry.line === comment.line && entry.side === comment.side
+        )
+        : undefined;
+      if (link) {
+        link.commentId = response.data.id;
+        link.commentUrl = response.data.html_url;
+      }
+      if (comment.subjectType === "file") continue;
+      trackSessionComment(existingByLocation, {
+        id: response.data.id,
+        path: comment.path,
+        line: comment.line,
+        side: comment.side,
+        body: comment.body,
+      });
+    }
+  };
+  const flushDeferredComments = async () => {
+    applyInlineCommentCap();
+    if (!deps.batchReview) {
+      await postDeferredComments();
+    }
+  };
+  if (capInlineComments || deps.batchReview) {
+    // Without post_summary there is no review to submit a batch with, so queued comments are posted on their own.
+    deps.onDeferredComments?.(async () => {
+      applyInlineCommentCap();
+      await postDeferredComments();
+    });
+  }
+  const rejectDemotedFindingRef = (findingRef: string | undefined) => {
+    if (!findingRef || !demotedFindingRefs.has(findingRef)) return null;
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Finding ${findingRef} is below the severity floor and was recorded as an observation; do not post inline feedback for it.`,
+      }],
+      details: { id: -1 },
+    };
+  };
+  // `sri-ignore-next-line` comments in the checked-out head; LEFT-side lines are not in the checkout,
+  // and a directive the PR itself adds does not count.
+  const prFileByPath = new Map((deps.fullPrChangedFiles ?? deps.changedFiles).map((file) => [file.filename, file]));
+  const describeSuppression = (
+    path: string,
+    lines: number[],
+    category: StructuredSummaryFinding["category"] | undefined
+  ): string | null => {
+    const prFile = prFileByPath.get(path);
+    const suppression = deps.repoRoot
+      ? findLineSuppressions(deps.repoRoot, path, lines, category, prFile ? addedLinesInFile(prFile) : new Set())[0]
+      : undefined;
+    if (!suppression) return null;
+    const scope = suppression.category === "all" ? "every category" : `${suppression.category} findings`;
+    const reason = suppression.reason ? `: ${suppression.reason}` : "";
+    return `${path}:${suppression.line + 1} is suppressed for ${scope} by the sri-ignore-next-line comment on line ${suppression.line}${reason}. Do not post feedback there.`;
+  };
+  const rejectSuppressedLines = (
+    path: string,
+    line: number,
+    startLine: number | undefined,
+    side: "LEFT" | "RIGHT" | undefined,
+    finding: StructuredSummaryFinding | undefined
+  ) => {
+    if (side === "LEFT") return null;
+    const lines = Array.from({ length: line - (startLine ?? line) + 1 }, (_, index) => (startLine ?? line) + index);
+    const message = describeSuppression(path, lines, finding?.category);
+    return message ? { content: [{ type: "text" as const, text: message }], details: { id: -1 } } : null;
+  };
+  const rejectDismissedFindingRef = (findingRef: string | undefined) => {
+    const dismissal = findingRef ? findDismissal({ ref: findingRef }, dismissedFindings) : undefined;
+    if (!dismissal) return null;
+    return {
+      content: [{
+        type: "text" as const,
+        text: `Finding ${findingRef} was dismissed by @${dismissal.by}; do not post inline feedback for it.`,
+      }],
+      details: { id: -1 },
+    };
+  };
+  // Location-based duplicate checks miss a carried finding once its lines shift; match it by ref or fingerprint.
+  const rejectCarriedDuplicate = (
+    findingRef: string | undefined,
+    finding: StructuredSummaryFinding | undefined,
+    location: { path: string; line: number },
+    allowNewThread: boolean | undefined
+  ) => {
+    if (allowNewThread) return null;
+    const carriedRef = findingRef && carriedFindingRefs.has(findingRef)
+      ? findingRef
+      : finding
+        ? carriedRefByFingerprint.get(fingerprintAt(finding, location))
+        : undefined;
+    const existing = carriedRef ? carriedCommentsByRef.get(carriedRef)?.[0] : undefined;
+    if (!existing) return null;
+    const existingLocation = existing.line ? `${existing.path}:${existing.line}` : existing.path ?? "the PR";
+    return {
+      content: [{
+        type: "text" as const,
+        text:
+          `Finding ${carriedRef} from the previous review is already posted as comment ${existing.id} at ${existingLocation}. ` +
+          `Use update_comment with comment_id=${existing.id} or reply in its thread instead of opening a new one; ` +
+          "set allow_new_thread=true only if this is a separate occurrence.",
+      }],
+      details: { id: -1 },
+    };
+  };
+  const postFileComment = async (
+    params: { path: string; body: string; allow_new_thread?: boolean },
+    findingRef: string | undefined
+  ) => {
+    if (!deps.changedFiles.some((file) => file.filename === params.path)) {
+      return {
+        content: [{
+          type: "text" as const,
+          text: `${params.path} is not a changed file in this PR. File-level comments can only target changed files.`,
+        }],
+        details: { id: -1 },
+      };
+    }
+    const previous = findLatestFileComment(deps.existingComments, params.path);
+    if (previous && !params.allow_new_thread) {
+      const thread = threadsByRootCommentId.get(previous.id);
+      if (shouldUpdateDuplicateBot(previous.author, thread, previous.authorType)) {
+        return {
+          content: [{
+            type: "text" as const,
+            text: `A file-level comment by ${previous.author} already exists on ${params.path}. Use update_comment with comment_id=${previous.id}, or set allow_new_thread=true.`,
+          }],
+          details: { id: -1 },
+        };
+      }
+    }
+    if (deps.batchReview || capInlineComments) {
+      return queuePendingReviewComment(
+        {
+          path: params.path,
+          line: 0,
+          side: "RIGHT",
+          subjectType: "file",
+          body: params.body,
+          kind: "comment",
+          allowNewThread: params.allow_new_thread,
+        },
+        findingRef
+      );
+    }
+    const response = await safeCall(() =>
+      deps.octokit.rest.pulls.createReviewComment({
+        owner: deps.owner,
+        repo: deps.repo,
+        pull_number: deps.pullNumber,
+        commit_id: deps.headSha,
+        path: params.path,
+        subject_type: "file",
+        body: params.body,
+      })
+    );
+    deps.onInlineComment?.();
+    recordFindingLink(
+      findingRef,
+      { path: params.path, line: 0, side: "RIGHT", subjectType: "file" },
+      response.data.id,
+      "comment",
+      response.data.html_url
+    );
+    return {
+      content: [{ type: "text" as const, text: `File comment posted: ${response.data.id}` }],
+      details: { id: response.data.id },
+    };
+  };
   const listThreadsTool = defineTool(ListThreadsSchema)({
     name: "list_threads_for_location",
     label: "List review threads for location",
@@ -165,16 +569,20 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
   const commentTool = defineTool(CommentSchema)({
     name: "comment",
     label: "Post inline comment",
-    description: "Post an inline comment on a specific line in a file.",
+    description: "Post an inline comment on a specific line, a line range via start_line, or a whole file via subject_type=file.",
     execute: async (_id, params) => {
       const side = params.side as "LEFT" | "RIGHT" | undefined;
-      const findingRef = normalizeFindingRef(params.finding_ref);
+      const findingRef = resolveFindingRef(normalizeFindingRef(params.finding_ref));
       if (params.finding_ref && !findingRef) {
         return {
           content: [{ type: "text", text: `Invalid finding_ref "${params.finding_ref}". Use lowercase letters/numbers with . _ : - only.` }],
           details: { id: -1 },
         };
       }
+      const demoted = rejectDemotedFindingRef(findingRef);
+      if (demoted) return demoted;
+      const dismissed = rejectDismissedFindingRef(findingRef);
+      if (dismissed) return dismissed;
       const finding = getFindingByRef(findingRef);
       if (findingRef && !finding) {
         return {
@@ -186,6 +594,15 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
         };
       }
       const body = ensureBotMarker(ensureFindingRefMarker(ensureFindingContextLabel(params.body, finding), findingRef));
+      if (params.subject_type === "file" && !params.thread_id) {
+        return postFileComment({ path: params.path, body, allow_new_thread: params.allow_new_thread }, findingRef);
+      }
+      if (params.line === undefined) {
+        return {
+          content: [{ type: "text", text: "line is required unless subject_type is file." }],
+          details: { id: -1 },
+        };
+      }
       if (params.thread_id) {
         const thread = threadsById.get(params.thread_id);
         if (!thread?.rootCommentId) {
@@ -214,13 +631,18 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: response.data.id },
         };
       }
-      const diffCheck = lineExistsInDiff(patchByPath.get(params.path), params.line, side);
+      const startSide = (params.start_side as "LEFT" | "RIGHT" | undefined) ?? side;
+      const diffCheck = params.start_line !== undefined
+        ? rangeExistsInDiff(patchByPath.get(params.path), params.start_line, startSide, params.line, side)
+        : lineExistsInDiff(patchByPath.get(params.path), params.line, side);
       if (!diffCheck.ok) {
         return {
           content: [{ type: "text", text: diffCheck.message }],
           details: { id: -1 },
         };
       }
+      const suppressed = rejectSuppressedLines(params.path, params.line, params.start_line, side, finding);
+      if (suppressed) return suppressed;
 
       const threadsAtLocation = findThreadsAtLocation(threadsByLocation, params.path, params.line);
       if (threadsAtLocation.length > 0 && !params.allow_new_thread) {
@@ -289,6 +711,23 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: response.data.id },
         };
       }
+      const carriedDuplicate = rejectCarriedDuplicate(findingRef, finding, { path: params.path, line: params.line }, params.allow_new_thread);
+      if (carriedDuplicate) return carriedDuplicate;
+      if (deps.batchReview || capInlineComments) {
+        return queuePendingReviewComment(
+          {
+            path: params.path,
+            line: params.line,
+            side,
+            startLine: params.start_line,
+            startSide: params.start_line !== undefined ? startSide : undefined,
+            body,
+            kind: "comment",
+            allowNewThread: params.allow_new_thread,
+          },
+          findingRef
+        );
+      }
       const response = await safeCall(() =>
         deps.octokit.rest.pulls.createReviewComment({
           owner: deps.owner,
@@ -298,6 +737,7 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           path: params.path,
           line: params.line,
           side: side ?? "RIGHT",
+          ...rangeParams(params.start_line, startSide),
           body,
         })
       );
@@ -320,16 +760,20 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
   const suggestTool = defineTool(SuggestSchema)({
     name: "suggest",
     label: "Post suggestion block",
-    description: "Post a GitHub suggestion block (single-hunk fix).",
+    description: "Post a GitHub suggestion block (single-hunk fix). Use start_line to replace a multi-line range.",
     execute: async (_id, params) => {
       const side = params.side as "LEFT" | "RIGHT" | undefined;
-      const findingRef = normalizeFindingRef(params.finding_ref);
+      const findingRef = resolveFindingRef(normalizeFindingRef(params.finding_ref));
       if (params.finding_ref && !findingRef) {
         return {
           content: [{ type: "text", text: `Invalid finding_ref "${params.finding_ref}". Use lowercase letters/numbers with . _ : - only.` }],
           details: { id: -1 },
         };
       }
+      const demoted = rejectDemotedFindingRef(findingRef);
+      if (demoted) return demoted;
+      const dismissed = rejectDismissedFindingRef(findingRef);
+      if (dismissed) return dismissed;
       const finding = getFindingByRef(findingRef);
       if (findingRef && !finding) {
         return {
@@ -370,13 +814,27 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: response.data.id },
         };
       }
-      const diffCheck = lineExistsInDiff(patchByPath.get(params.path), params.line, side);
+      const startSide = (params.start_side as "LEFT" | "RIGHT" | undefined) ?? side;
+      const diffCheck = params.start_line !== undefined
+        ? rangeExistsInDiff(patchByPath.get(params.path), params.start_line, startSide, params.line, side)
+        : lineExistsInDiff(patchByPath.get(params.path), params.line, side);
       if (!diffCheck.ok) {
         return {
           content: [{ type: "text", text: diffCheck.message }],
           details: { id: -1 },
         };
       }
+      const suppressed = rejectSuppressedLines(params.path, params.line, params.start_line, side, finding);
+      if (suppressed) return suppressed;
+      if (params.start_line !== undefined && (startSide !== side || side === "LEFT")) {
+        return {
+          content: [{
+            type: "text",
+            text: "Multi-line suggestions replace new-side lines only. Use side=RIGHT for both start_line and line.",
+          }],
+          details: { id: -1 },
+        };
+      }
 
       const threadsAtLocation = findThreadsAtLocation(threadsByLocation, params.path, params.line);
       if (threadsAtLocation.length > 0 && !params.allow_new_thread) {
@@ -445,6 +903,23 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: response.data.id },
         };
       }
+      const carriedDuplicate = rejectCarriedDuplicate(findingRef, finding, { path: params.path, line: params.line }, params.allow_new_thread);
+      if (carriedDuplicate) return carriedDuplicate;
+      if (deps.batchReview || capInlineComments) {
+        return queuePendingReviewComment(
+          {
+            path: params.path,
+            line: params.line,
+            side,
+            startLine: params.start_line,
+            startSide: params.start_line !== undefined ? startSide : undefined,
+            body,
+            kind: "suggestion",
+            allowNewThread: params.allow_new_thread,
+          },
+          findingRef
+        );
+      }
       const response = await safeCall(() =>
         deps.octokit.rest.pulls.createReviewComment({
           owner: deps.owner,
@@ -454,6 +929,7 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           path: params.path,
           line: params.line,
           side: side ?? "RIGHT",
+          ...rangeParams(params.start_line, startSide),
           body,
         })
       );
@@ -502,6 +978,12 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
         );
       };
 
+      if (existing?.type === "pull_review") {
+        return {
+          content: [{ type: "text", text: `Comment ${params.comment_id} is a submitted review body and cannot be updated.` }],
+          details: { id: -1 },
+        };
+      }
       if (existing && mode !== "both" && existing.type !== mode) {
         return {
           content: [
@@ -546,6 +1028,9 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
     },
   });
 
+  const formatReplyBody = (body: string) =>
+    deps.replyFooter ? ensureReplyFooter(body, deps.modelId, deps.getBilling()) : ensureBotMarker(body);
+
   const replyTool = defineTool(ReplySchema)({
     name: "reply_comment",
     label: "Reply to review comment",
@@ -557,7 +1042,7 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           repo: deps.repo,
           pull_number: deps.pullNumber,
           comment_id: params.comment_id,
-          body: ensureBotMarker(params.body),
+          body: formatReplyBody(params.body),
         })
       );
       return {
@@ -618,7 +1103,7 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           repo: deps.repo,
           pull_number: deps.pullNumber,
           comment_id: rootId,
-          body: ensureBotMarker(params.body),
+          body: formatReplyBody(params.body),
         })
       );
       try {
@@ -651,11 +1136,20 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
     label: "Report finding",
     description: "Record a structured finding for deterministic summary rendering.",
     execute: async (_id, params) => {
-      const findingRef = normalizeFindingRef(params.finding_ref);
+      const reportedRef = resolveFindingRef(normalizeFindingRef(params.finding_ref));
       const category = normalizeSummaryCategory(params.category);
       const severity = normalizeSummarySeverity(params.severity);
-      const status = normalizeSummaryStatus(params.status ?? "new");
+      const reportedStatus = normalizeSummaryStatus(params.status ?? "new");
       const title = params.title?.trim();
+      const fingerprint = category && title ? fingerprintAt({ category, title }, parseEvidenceAnchors(params.evidence)[0]) : undefined;
+      // A new ref with the fingerprint of a carried finding is the same issue after lines shifted.
+      const mergedRef = reportedRef && fingerprint && !findingIndexByRef.has(reportedRef)
+        ? carriedRefByFingerprint.get(fingerprint)
+        : undefined;
+      if (reportedRef && mergedRef) findingRefAliases.set(reportedRef, mergedRef);
+      const findingRef = mergedRef ?? reportedRef;
+      // A finding carried over from the previous review can be still_open or resolved, never new again.
+      const status = reportedStatus === "new" && findingRef && carriedFindingRefs.has(findingRef) ? "still_open" : reportedStatus;
       if (!findingRef || !category || !severity || !status || !title) {
         return {
           content: [{
@@ -666,6 +1160,28 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { count: summaryFindings.length },
         };
       }
+      const dismissal = findDismissal({ ref: findingRef, fingerprint }, dismissedFindings);
+      if (dismissal) {
+        const reason = dismissal.reason ? `: ${dismissal.reason}` : "";
+        return {
+          content: [{
+            type: "text",
+            text:
+              `Finding ${findingRef} matches ${dismissal.ref}, dismissed by @${dismissal.by}${reason}. ` +
+              "It was not recorded; do not report it or comment on it again.",
+          }],
+          details: { count: summaryFindings.length },
+        };
+      }
+      const suppressedAnchor = parseEvidenceAnchors(params.evidence)
+        .map((anchor) => describeSuppression(anchor.path, [anchor.line], category))
+        .find(Boolean);
+      if (suppressedAnchor) {
+        return {
+          content: [{ type: "text", text: `${suppressedAnchor} Finding ${findingRef} was not recorded.` }],
+          details: { count: summaryFindings.length },
+        };
+      }
       const placement = normalizeFindingPlacement(params.placement, status);
       const summaryOnlyReason = params.summary_only_reason?.trim() || undefined;
       if (placement === "summary_only" && !summaryOnlyReason) {
@@ -693,6 +1209,28 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { count: summaryFindings.length },
         };
       }
+      const severityFloor = deps.findingPolicy?.severityFloor;
+      if (severityFloor && SEVERITY_RANK[severity] < SEVERITY_RANK[severityFloor]) {
+        removeFinding(findingRef);
+        demotedFindingRefs.add(findingRef);
+        const observation: SummaryObservation = { category: "risk", title, details: details ?? action };
+        const observationRef = `finding:${findingRef}`;
+        const observationIndex = observationIndexByRef.get(observationRef);
+        if (observationIndex !== undefined) {
+          summaryObservations[observationIndex] = observation;
+        } else {
+          summaryObservations.push(observation);
+          observationIndexByRef.set(observationRef, summaryObservations.length - 1);
+        }
+        return {
+          content: [{
+            type: "text",
+            text: `Finding ${findingRef} is ${severity} severity, below this command's severity floor (${severityFloor}); recorded as an observation instead. Do not post inline feedback for it.`,
+          }],
+          details: { count: summaryFindings.length },
+        };
+      }
+      demotedFindingRefs.delete(findingRef);
       const finding: StructuredSummaryFinding = {
         findingRef,
         category,
@@ -713,13 +1251,18 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
         findingIndexByRef.set(findingRef, summaryFindings.length - 1);
       }
       const verb = existingIndex !== undefined ? "updated" : "recorded";
+      const mergeNote = mergedRef
+        ? ` ${reportedRef} matches ${mergedRef} from the previous review (same fingerprint) and was merged into it; use finding_ref ${mergedRef} from now on.`
+        : "";
       const placementHint = placement === "inline"
         ? " Placement is inline — post a comment or suggest with this finding_ref."
-        : " Placement is summary_only. If this finding targets a specific line, consider posting a comment or suggest and updating placement to inline for better traceability.";
+        : placement === "file"
+          ? " Placement is file — post a comment with subject_type=file and this finding_ref."
+          : " Placement is summary_only. If this finding targets a specific line, consider posting a comment or suggest and updating placement to inline for better traceability.";
       return {
         content: [{
           type: "text",
-          text: `Finding ${verb} (${findingRef}).${placementHint}`,
+          text: `Finding ${verb} (${findingRef}).${mergeNote}${placementHint}`,
         }],
         details: { count: summaryFindings.length },
       };
@@ -869,6 +1412,9 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: -1 },
         };
       }
+      if (capInlineComments) {
+        await flushDeferredComments();
+      }
       const draft = buildSummaryDraft();
       const force = Boolean(params.force);
       const summaryValidation = validateSummaryFindings(draft.findings, findingLinksByRef);
@@ -878,7 +1424,9 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           details: { id: -1 },
         };
       }
-      const verdict = normalizeVerdict(params.verdict) ?? inferVerdict(draft.findings);
+      const inferredVerdict = inferVerdict(draft.findings);
+      const verdict = normalizeVerdict(params.verdict) ??
+        (inferredVerdict === "Approve" && deps.stoppedEarly?.() ? "Skipped" : inferredVerdict);
       const verdictValidation = validateSummaryVerdict(verdict, draft.findings);
       if (verdictValidation.ok === false && !force) {
         return {
@@ -896,7 +1444,12 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
       const effectiveMode = hasHighRiskFindings(draft.findings) ? maxSummaryMode(riskAwareMode, "alert") : riskAwareMode;
       // Mark as posted immediately to prevent racing duplicate calls.
       deps.onSummaryPosted?.();
-      const summaryBody = buildAdaptiveSummaryMarkdown({
+      const renderSummary = deps.findingPolicy?.format === "narrative"
+        ? buildNarrativeSummaryMarkdown
+        : deps.findingPolicy?.format === "checklist"
+          ? buildChecklistSummaryMarkdown
+          : buildAdaptiveSummaryMarkdown;
+      const summaryBody = renderSummary({
         verdict,
         preface: params.preface,
         findings: draft.findings,
@@ -907,7 +1460,43 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
         modeReason: summaryModeReason,
         modeEvidence: summaryModeEvidence,
       });
-      const body = ensureSummaryFooter(summaryBody, deps.modelId, deps.getBilling(), deps.reviewSha);
+      const cappedBody = appendCappedComments(summaryBody, cappedUnlinkedComments);
+      const footedBody = ensureSummaryFooter(
+        deps.findingState ? appendFindingRefs(cappedBody, draft.findings) : cappedBody,
+        deps.modelId,
+        deps.getBilling(),
+        deps.reviewSha
+      );
+      const body = deps.findingState
+        ? `${footedBody}\n${renderFindingState(buildFindingState(draft.findings, findingLinksByRef, deps.reviewSha, dismissedFindings, (finding, anchor) => {
+          const code = anchor && deps.repoRoot ? readFindingCode(deps.repoRoot, anchor.path, anchor.line) : "";
+          // Without readable code, a carried finding keeps the fingerprint it was stored with.
+          const carried = finding.findingRef ? carriedFingerprintByRef.get(finding.findingRef) : undefined;
+          if (!code && carried) return carried;
+          return fingerprintFinding({ category: finding.category, title: finding.title, path: anchor?.path, code });
+        }))}`
+        : footedBody;
+      const publishedFindings = draft.findings.map((finding) => ({
+        ...finding,
+        locations: collectFindingLocations(finding, findingLinksByRef.get(finding.findingRef ?? "")),
+      }));
+      await deps.summaryTurn;
+      const cappedNote = cappedUnlinkedComments.length > 0
+        ? `${cappedUnlinkedComments.length} queued inline comment(s) without a finding_ref did not fit the maxFindings cap and are listed in the summary instead.`
+        : "";
+      if (deps.batchReview) {
+        const submitted = await submitBatchedReview(deps, body, verdict, pendingReviewComments);
+        pendingReviewComments.splice(0, pendingReviewComments.length);
+        await deps.onSummaryPublished?.({ verdict, body, findings: publishedFindings, observations: draft.observations });
+        const notes = [...submitted.notes, ...(cappedNote ? [cappedNote] : [])].map((note) => ` ${note}`).join("");
+        return {
+          content: [{
+            type: "text",
+            text: `Review submitted: ${submitted.id} (${submitted.event}, ${submitted.inlineComments} inline comment(s)).${notes}`,
+          }],
+          details: { id: submitted.id, event: submitted.event },
+        };
+      }
       const response = await safeCall(() =>
         deps.octokit.rest.issues.createComment({
           owner: deps.owner,
@@ -916,8 +1505,15 @@ export function createReviewTools(deps: ReviewToolDeps): AgentTool<any>[] {
           body,
         })
       );
+      await deps.onSummaryPublished?.({
+        verdict,
+        body,
+        url: response.data.html_url,
+        findings: publishedFindings,
+        observations: draft.observations,
+      });
       return {
-        content: [{ type: "text", text: `Summary posted: ${response.data.id}` }],
+        content: [{ type: "text", text: `Summary posted: ${response.data.id}${cappedNote ? ` ${cappedNote}` : ""}` }],
         details: { id: response.data.id },
       };
     },
@@ -972,8 +1568,17 @@ function createReviewTerminateTool(
 
 const CommentSchema = Type.Object({
   path: Type.String({ description: "File path" }),
-  line: Type.Integer({ minimum: 1 }),
+  line: Type.Optional(Type.Integer({ minimum: 1, description: "Line to comment on. Required unless subject_type is file." })),
+  subject_type: Type.Optional(Type.String({
+    description: "line (default) or file. file comments on the whole file (for example missing tests or a binary/too-large diff); line, side and start_line are ignored.",
+    enum: ["line", "file"],
+  })),
   side: Type.Optional(Type.String({ description: "LEFT or RIGHT", enum: ["LEFT", "RIGHT"] })),
+  start_line: Type.Optional(Type.Integer({
+    minimum: 1,
+    description: "First line of a multi-line range; line is the last line. Every line in the range must be in the diff.",
+  })),
+  start_side: Type.Optional(Type.String({ description: "Side of start_line (defaults to side).", enum: ["LEFT", "RIGHT"] })),
   thread_id: Type.Optional(Type.Integer({ minimum: 1, description: "Existing thread id to reply to." })),
   allow_new_thread: Type.Optional(Type.Boolean({ description: "Set true to force a new thread even if one exists." })),
   finding_ref: Type.Optional(Type.String({
@@ -989,6 +1594,11 @@ const SuggestSchema = Type.Object({
   path: Type.String({ description: "File path" }),
   line: Type.Integer({ minimum: 1 }),
   side: Type.Optional(Type.String({ description: "LEFT or RIGHT", enum: ["LEFT", "RIGHT"] })),
+  start_line: Type.Optional(Type.Integer({
+    minimum: 1,
+    description: "First line of a multi-line range; line is the last line. Every line in the range must be in the diff.",
+  })),
+  start_side: Type.Optional(Type.String({ description: "Side of start_line (defaults to side).", enum: ["LEFT", "RIGHT"] })),
   thread_id: Type.Optional(Type.Integer({ minimum: 1, description: "Existing thread id to reply to." })),
   allow_new_thread: Type.Optional(Type.Boolean({ description: "Set true to force a new thread even if one exists." })),
   finding_ref: Type.Optional(Type.String({
@@ -1021,8 +1631,8 @@ const ReportFindingSchema = Type.Object({
   severity: Type.String({ description: "Finding severity", enum: ["low", "medium", "high"] }),
   status: Type.Optional(Type.String({ description: "Finding lifecycle status", enum: ["new", "resolved", "still_open"] })),
   placement: Type.Optional(Type.String({
-    description: "inline for file-thread findings, summary_only for cross-file/non-line-specific findings.",
-    enum: ["inline", "summary_only"],
+    description: "inline for line-thread findings, file for whole-file findings (link with comment subject_type=file), summary_only for cross-file findings.",
+    enum: ["inline", "file", "summary_only"],
   })),
   summary_only_reason: Type.Optional(Type.String({ description: "Required when placement is summary_only." })),
   title: Type.String({ description: "Short issue title." }),
@@ -1090,7 +1700,12 @@ const UpdateSchema = Type.Object({
 
 function wrapSuggestion(suggestion: string, comment?: string): string {
   const prefix = comment?.trim() ? `${comment.trim()}\n\n` : "";
-  return `${prefix}\`\`\`suggestion\n${suggestion}\n\`\`\``;
+  // A trailing newline would add an empty line to the applied change; normalize it away.
+  const code = suggestion.replace(/\r\n/g, "\n").replace(/\n$/, "");
+  // The fence must be longer than any backtick run inside the replacement code.
+  const longestRun = Math.max(2, ...(code.match(/`{3,}/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${prefix}${fence}suggestion\n${code}\n${fence}`;
 }
 
 function ensureBotMarker(body: string): string {
@@ -1126,7 +1741,7 @@ function normalizeFindingPlacement(
   value: string | undefined,
   _status: StructuredSummaryFinding["status"]
 ): SummaryPlacement {
-  if (value === "inline" || value === "summary_only") return value;
+  if (value === "inline" || value === "file" || value === "summary_only") return value;
   return "summary_only";
 }
 
@@ -1332,7 +1947,7 @@ function lineExistsInDiff(
   if (!patch) {
     return {
       ok: false,
-      message: "No diff available for this file. It may be binary or too large to diff; avoid inline comments.",
+      message: "No diff available for this file. It may be binary or too large to diff; use subject_type=file for a file-level comment instead of a line comment.",
     };
   }
   if (!side) {
@@ -1351,6 +1966,61 @@ function lineExistsInDiff(
   return { ok: true, message: "ok" };
 }
 
+function rangeExistsInDiff(
+  patch: string | undefined,
+  startLine: number,
+  startSide: "LEFT" | "RIGHT" | undefined,
+  line: number,
+  side?: "LEFT" | "RIGHT"
+): { ok: boolean; message: string } {
+  const endCheck = lineExistsInDiff(patch, line, side);
+  if (!endCheck.ok) return endCheck;
+  if (startSide !== side) {
+    // Ranges that cross from the old to the new side cannot be walked line by line; check both ends.
+    const startCheck = lineExistsInDiff(patch, startLine, startSide);
+    if (!startCheck.ok) {
+      return { ok: false, message: `start_line: ${startCheck.message}` };
+    }
+    return { ok: true, message: "ok" };
+  }
+  if (startLine >= line) {
+    return {
+      ok: false,
+      message: `start_line (${startLine}) must be before line (${line}). Omit start_line for single-line comments.`,
+    };
+  }
+  for (let current = startLine; current < line; current += 1) {
+    if (!lineInPatch(patch, current, side)) {
+      return {
+        ok: false,
+        message: `Line ${current} of range ${startLine}-${line} is not present on ${side} side of the diff for this file. A range must stay within one diff hunk; use get_diff to find valid lines.`,
+      };
+    }
+  }
+  return { ok: true, message: "ok" };
+}
+
+function commentTargetParams(
+  comment: PendingReviewComment
+): { subject_type: "file" } | { line: number; side: "LEFT" | "RIGHT"; start_line?: number; start_side?: "LEFT" | "RIGHT" } {
+  if (comment.subjectType === "file") return { subject_type: "file" };
+  return { line: comment.line, side: comment.side, ...rangeParams(comment.startLine, comment.startSide) };
+}
+
+function findLatestFileComment(comments: ExistingComment[], path: string): ExistingComment | undefined {
+  return comments
+    .filter((comment) => comment.type === "review" && comment.subjectType === "file" && comment.path === path && !comment.inReplyToId)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0];
+}
+
+function rangeParams(
+  startLine: number | undefined,
+  startSide: "LEFT" | "RIGHT" | undefined
+): { start_line?: number; start_side?: "LEFT" | "RIGHT" } {
+  if (startLine === undefined) return {};
+  return { start_line: startLine, start_side: startSide ?? "RIGHT" };
+}
+
 function lineInPatch(patch: string, targetLine: number, side: "LEFT" | "RIGHT"): boolean {
   const lines = patch.split(/\r?\n/);
   let oldLine = 0;
@@ -1390,7 +2060,7 @@ function ensureSummaryFooter(
   reviewSha: string
 ): string {
   const hasFooter = body.includes("Reviewed by shitty-reviewing-agent");
-  const billingLine = `*Billing: input ${billing.input} • output ${billing.output} • total ${billing.total} • cost $${billing.cost.toFixed(6)}*`;
+  const billingLine = formatBillingLine(billing);
   const marker = `<!-- sri:last-reviewed-sha:${reviewSha} -->`;
   const footer = `---\n*Reviewed by shitty-reviewing-agent • model: ${modelId}*\n${billingLine}\n${BOT_COMMENT_MARKER}\n${marker}`;
   if (hasFooter) {
@@ -1410,6 +2080,19 @@ function ensureSummaryFooter(
   return `${body.trim()}\n\n${footer}`;
 }
 
+function ensureReplyFooter(
+  body: string,
+  modelId: string,
+  billing: { input: number; output: number; total: number; cost: number }
+): string {
+  const text = body.replace(BOT_COMMENT_MARKER, "").trim();
+  return `${text}\n\n---\n*Replied by shitty-reviewing-agent • model: ${modelId}*\n${formatBillingLine(billing)}\n${BOT_COMMENT_MARKER}`;
+}
+
+function formatBillingLine(billing: { input: number; output: number; total: number; cost: number }): string {
+  return `*Billing: input ${billing.input} • output ${billing.output} • total ${billing.total} • cost $${billing.cost.toFixed(6)}*`;
+}
+
 function shouldUpdateDuplicateBot(actor?: string, thread?: ReviewThreadInfo, authorType?: string): boolean {
   if (!actor && !authorType) return false;
   const isBot = isBotAuthor(actor, authorType);
@@ -1539,6 +2222,28 @@ function isMetaSummaryOnlyReason(reason: string | undefined): boolean {
   return SUMMARY_ONLY_META_REASON_PATTERNS.some((pattern) => pattern.test(text));
 }
 
+function collectFindingLocations(
+  finding: StructuredSummaryFinding,
+  links: FindingLink[] | undefined
+): SummaryFindingLocation[] {
+  const locations: SummaryFindingLocation[] = [];
+  const seen = new Set<string>();
+  const add = (location: SummaryFindingLocation) => {
+    const key = `${location.path}:${location.line}:${location.side}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    locations.push(location);
+  };
+  for (const link of links ?? []) {
+    // File-level comments have no line; annotations and SARIF results point at the top of the file.
+    add({ path: link.path, line: link.subjectType === "file" ? 1 : link.line, side: link.side });
+  }
+  for (const anchor of parseEvidenceAnchors(finding.evidence)) {
+    add({ ...anchor, side: "RIGHT" });
+  }
+  return locations;
+}
+
 function parseEvidenceAnchors(evidence: string[] | undefined): Array<{ path: string; line: number }> {
   if (!evidence || evidence.length === 0) return [];
   const anchors: Array<{ path: string; line: number }> = [];
@@ -1589,15 +2294,178 @@ function buildAutoKeyFileSummary(changedFiles: ChangedFile[], path: string): str
   return base;
 }
 
+/** Bot review comments linked to a carried finding, by recorded id or by their finding-ref marker. */
+function findFindingComments(comments: ExistingComment[], findingRef: string, commentIds: number[]): ExistingComment[] {
+  const ids = new Set(commentIds);
+  const marker = `<!-- sri:finding-ref:${findingRef} -->`;
+  return comments.filter(
+    (comment) =>
+      comment.type === "review" &&
+      !comment.inReplyToId &&
+      (ids.has(comment.id) || (isBotComment(comment) && comment.body.includes(marker)))
+  );
+}
+
+function buildFindingState(
+  findings: StructuredSummaryFinding[],
+  findingLinksByRef: Map<string, FindingLink[]>,
+  reviewSha: string,
+  dismissed: FindingDismissal[],
+  fingerprint: (finding: StructuredSummaryFinding, anchor: { path: string; line: number } | undefined) => string
+): FindingState {
+  const entries: FindingStateEntry[] = [];
+  for (const finding of findings) {
+    if (!finding.findingRef) continue;
+    const links = findingLinksByRef.get(finding.findingRef) ?? [];
+    const anchor = links[0] ?? parseEvidenceAnchors(finding.evidence)[0];
+    entries.push({
+      ref: finding.findingRef,
+      fingerprint: fingerprint(finding, anchor),
+      category: finding.category,
+      severity: finding.severity,
+      status: finding.status,
+      placement: finding.placement ?? "inline",
+      title: finding.title,
+      ...(finding.summaryOnlyReason ? { summaryOnlyReason: finding.summaryOnlyReason } : {}),
+      ...(anchor ? { path: anchor.path, line: anchor.line } : {}),
+      commentIds: links.flatMap((link) => (link.commentId === null ? [] : [link.commentId])),
+    });
+  }
+  return {
+    version: FINDING_STATE_VERSION,
+    reviewSha,
+    findings: entries,
+    ...(dismissed.length > 0 ? { dismissed } : {}),
+  };
+}
+
+/** Visible list of open finding refs, so maintainers know what to pass to `!dismiss`. */
+function appendFindingRefs(body: string, findings: StructuredSummaryFinding[]): string {
+  const open = findings.filter((finding) => finding.findingRef && finding.status !== "resolved");
+  if (open.length === 0) return body;
+  const lines = open.map((finding) => `- \`${finding.findingRef}\` ${finding.title.replace(/\s+/g, " ").trim()}`);
+  return [
+    body.trimEnd(),
+    "",
+    "<details><summary>Finding refs</summary>",
+    "",
+    ...lines,
+    "",
+    'Dismiss a false positive with `!dismiss <finding_ref> "reason"` (undo with `!reopen <finding_ref>`) or a 👎 on its inline comment.',
+    "</details>",
+  ].join("\n");
+}
+
+function appendCappedComments(body: string, comments: PendingReviewComment[]): string {
+  if (comments.length === 0) return body;
+  const lines = comments.map((comment) => {
+    const location = comment.subjectType === "file" ? comment.path : `${comment.path}:${comment.line}`;
+    const text = (comment.body.split("\n").find((line) => line.trim()) ?? "").trim();
+    return `- \`${location}\` ${text.length > 200 ? `${text.slice(0, 197)}...` : text}`;
+  });
+  return [
+    body.trimEnd(),
+    "",
+    "<details><summary>Inline comments over the cap</summary>",
+    "",
+    ...lines,
+    "",
+    "These comments had no finding_ref and did not fit the maxFindings limit on inline comments.",
+    "</details>",
+  ].join("\n");
+}
+
 function formatFindingLinks(links: FindingLink[] | undefined): string[] {
   if (!links || links.length === 0) return [];
   return links.map((link) => {
-    const label = `${link.path}:${link.line} (${link.side}, ${link.kind})`;
+    const label = link.subjectType === "file"
+      ? `${link.path} (file, ${link.kind})`
+      : `${link.path}:${link.line} (${link.side}, ${link.kind})`;
     if (link.commentUrl) return `[${label}](${link.commentUrl})`;
+    if (link.commentId === null) return `${label}, in this review`;
     return `${label}, comment ${link.commentId}`;
   });
 }
 
+function findingSeverityRank(finding: StructuredSummaryFinding | undefined): number {
+  return finding ? SEVERITY_RANK[finding.severity] : 0;
+}
+
+function verdictToReviewEvent(verdict: string): ReviewEvent {
+  if (verdict === "Approve") return "APPROVE";
+  if (verdict === "Request Changes") return "REQUEST_CHANGES";
+  return "COMMENT";
+}
+
+/**
+ * Submit the summary plus queued inline comments as one pull request review.
+ * 422s degrade gracefully: a rejected approval/request-changes falls back to COMMENT,
+ * and comments GitHub cannot anchor are folded into the review body instead.
+ */
+async function submitBatchedReview(
+  deps: ReviewToolDeps,
+  summary: string,
+  verdict: string,
+  pending: PendingReviewComment[]
+): Promise<{ id: number; event: ReviewEvent; inlineComments: number; notes: string[] }> {
+  let event = verdictToReviewEvent(verdict);
+  const notes: string[] = [];
+  let withComments = pending.length > 0;
+  while (true) {
+    // Every attempt starts from the summary, so a retry never moves the comments into the body twice.
+    const body = withComments ? summary : appendUnanchoredComments(summary, pending);
+    try {
+      const response = await safeCall(() =>
+        deps.octokit.rest.pulls.createReview({
+          owner: deps.owner,
+          repo: deps.repo,
+          pull_number: deps.pullNumber,
+          commit_id: deps.headSha,
+          event,
+          body,
+          ...(withComments
+            ? { comments: pending.map((comment) => ({
+              path: comment.path,
+              ...commentTargetParams(comment),
+              body: comment.body,
+            })) }
+            : {}),
+        })
+      );
+      return { id: response.data.id, event, inlineComments: withComments ? pending.length : 0, notes };
+    } catch (error: any) {
+      if (error?.status !== 422) throw error;
+      const message = String(error?.message ?? "");
+      if (event !== "COMMENT" && /approve|request changes|own pull request/i.test(message)) {
+        notes.push(`${event} was rejected by GitHub (${message.trim()}); submitted as COMMENT.`);
+        event = "COMMENT";
+        continue;
+      }
+      if (withComments) {
+        notes.push(`Inline comments could not be anchored (${message.trim()}); moved them into the review body.`);
+        withComments = false;
+        continue;
+      }
+      if (event !== "COMMENT") {
+        notes.push(`${event} was rejected by GitHub (${message.trim()}); submitted as COMMENT.`);
+        event = "COMMENT";
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+function appendUnanchoredComments(body: string, pending: PendingReviewComment[]): string {
+  if (pending.length === 0) return body;
+  const sections = pending.map((comment) =>
+    comment.subjectType === "file"
+      ? `**\`${comment.path}\`** (file, ${comment.kind})\n\n${comment.body.trim()}`
+      : `**\`${comment.path}:${comment.line}\`** (${comment.side}, ${comment.kind})\n\n${comment.body.trim()}`
+  );
+  return `${body.trimEnd()}\n\n---\n### Inline comments (could not be anchored)\n\n${sections.join("\n\n")}\n`;
+}
+
 function normalizeVerdict(value: string | undefined): "Request Changes" | "Approve" | "Skipped" | null {
   if (!value) return null;
   const normalized = value.trim().toLowerCase();
@@ -8,6 +8,8 @@ export interface PullRequestInfo {
   baseSha: string;
   headSha: string;
   url: string;
+  /** True when the head branch lives in a different repository than the base. */
+  isFork?: boolean;
 }
 
 export interface ChangedFile {
@@ -38,8 +40,14 @@ export interface ReviewConfig {
   reasoning: "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
   temperature?: number;
   allowPrToolsInReview?: boolean;
+  batchReview?: boolean;
+  checkRun?: boolean;
+  /** Absolute path of the SARIF 2.1.0 findings report, when enabled. */
+  sarifOutput?: string;
   experimentalPrExplainer?: boolean;
   fallback?: ModelEndpoint;
+  /** `review.limits`: stops the run and posts a partial summary once reached. */
+  budget?: BudgetLimits;
 }
 
 export type ToolCategory =
@@ -63,7 +71,14 @@ export interface IncludeExclude {
   exclude?: string[];
 }
 
-export interface LimitsConfig {
+/** Spend caps for one agent run (the review, or one command). */
+export interface BudgetLimits {
+  maxCostUsd?: number;
+  maxTokens?: number;
+  maxDurationSeconds?: number;
+}
+
+export interface LimitsConfig extends BudgetLimits {
   maxFiles?: number;
   maxFindings?: number;
   maxDiffLines?: number;
@@ -96,6 +111,47 @@ export interface CommandDefinition {
     type?: CommentType;
   };
   files?: IncludeExclude;
+  permissions?: CommandPermissions;
+  /** Named arguments, filled positionally or with `--name value`, interpolated as `${args.name}`. */
+  args?: CommandArgumentDefinition[];
+  /** Model settings for this command; unset fields inherit the review model. */
+  model?: ReviewDefaults;
+}
+
+/** Commands run in order, each seeing the findings, observations and final reply of the steps before it. */
+export interface PipelineDefinition {
+  id: string;
+  title?: string;
+  steps: PipelineStep[];
+}
+
+export interface PipelineStep {
+  command: string;
+  /** `flagged`: only files earlier steps reported findings on; the step is skipped when there are none. */
+  files?: "all" | "flagged";
+}
+
+export type CommandArgumentType = "string" | "number" | "enum" | "path" | "bool";
+
+export interface CommandArgumentDefinition {
+  name: string;
+  type?: CommandArgumentType;
+  required?: boolean;
+  default?: string | number | boolean;
+  /** Allowed values for `enum` arguments. */
+  values?: string[];
+  description?: string;
+}
+
+/** Who may trigger a command from a PR comment. Unset means anyone who can comment. */
+export interface CommandPermissions {
+  /** Allowed `author_association` values (OWNER, MEMBER, COLLABORATOR, ...). */
+  authorAssociation?: string[];
+  users?: string[];
+  /** `org/team-slug`, or a bare slug in the repository owner's org. */
+  teams?: string[];
+  /** Set to false to refuse the command on PRs opened from forks. */
+  allowForks?: boolean;
 }
 
 export interface ScheduleConfig {
@@ -115,11 +171,25 @@ export interface ReviewercConfig {
     defaults?: ReviewDefaults;
     run?: string[];
     allowPrToolsInReview?: boolean;
+    batchReview?: boolean;
+    checkRun?: boolean;
+    sarifOutput?: string;
+    runReport?: string;
+    failOn?: string;
+    dryRun?: boolean;
+    triggers?: string[];
+    skipDrafts?: boolean;
+    runOnLabels?: Record<string, string[]>;
+    mergeGroup?: string[];
+    concurrency?: number;
+    concurrentReview?: boolean;
+    limits?: BudgetLimits;
     experimental?: {
       prExplainer?: boolean;
     };
   };
   commands?: CommandDefinition[];
+  pipelines?: PipelineDefinition[];
   schedule?: ScheduleConfig;
   tools?: {
     allowlist?: ToolCategory[];
@@ -133,10 +203,56 @@ export interface ActionConfig {
   review: ReviewConfig;
   reviewRun: string[];
   commands: CommandDefinition[];
+  pipelines?: PipelineDefinition[];
   schedule?: ScheduleConfig;
   toolsAllowlist: ToolCategory[];
   outputCommentType: CommentType;
   botName?: string;
+  dryRun?: boolean;
+  /** Absolute path for dry-run artifacts; readConfig defaults it to `$RUNNER_TEMP/sri-dry-run`. */
+  dryRunDir: string;
+  /** Absolute path for the JSON run report. */
+  runReport?: string;
+  failOn?: FailOnCondition[];
+  triggers?: TriggerConfig;
+  concurrency?: ConcurrencyConfig;
+}
+
+/** How many `review.run` commands run at once, and whether they start alongside the main review. */
+export interface ConcurrencyConfig {
+  /** Commands (and model requests) in flight at once; 1 keeps the sequential behaviour. */
+  limit: number;
+  includeReview: boolean;
+}
+
+/** Which pull request activity runs the review, and which commands labels and merge queue checks run. */
+export interface TriggerConfig {
+  /** pull_request actions that run the full review; unset means every action except labeled/unlabeled. */
+  actions?: string[];
+  skipDrafts: boolean;
+  /** Label name -> command ids run when that label is added. */
+  runOnLabels: Record<string, string[]>;
+  /** Command ids run for merge queue (`merge_group`) checks. */
+  mergeGroup: string[];
+}
+
+/** `high`/`medium`/`low`: any unresolved finding at or above that severity; `request-changes`: the verdict. */
+export type FailOnCondition = Severity | "request-changes";
+
+/** What a PR review produced, exposed as action outputs and checked against `fail-on`. */
+export interface ReviewOutcome {
+  verdict: string;
+  /** Unresolved findings by severity. */
+  findingsBySeverity: Record<Severity, number>;
+  findingsByStatus: Record<"new" | "still_open" | "resolved", number>;
+  inlineComments: number;
+  suggestions: number;
+  billing: {
+    input: number;
+    output: number;
+    total: number;
+    cost: number;
+  };
 }
 
 export interface ReviewContext {
@@ -152,12 +268,17 @@ export interface ExistingComment {
   authorAssociation?: string;
   body: string;
   url: string;
-  type: "issue" | "review";
+  /** "pull_review" is the body of a submitted pull request review (batched review mode). */
+  type: "issue" | "review" | "pull_review";
   path?: string;
   line?: number;
   side?: "LEFT" | "RIGHT";
+  /** "file" for review comments on a whole file rather than a line. */
+  subjectType?: "file";
   inReplyToId?: number;
   updatedAt: string;
+  /** 👎 count from the reactions rollup; review comments only. */
+  thumbsDown?: number;
 }
 
 export interface ReviewThreadInfo {
@@ -0,0 +1,51 @@
+import { test, expect } from "bun:test";
+import { createBudgetGuard, resolveBudget } from "../src/agent/budget.ts";
+
+test("resolveBudget lets command limits override global ones field by field", () => {
+  expect(resolveBudget(undefined, undefined)).toBeUndefined();
+  expect(resolveBudget({ maxCostUsd: 1, maxTokens: 1000 }, { maxTokens: 50, maxFiles: 3 })).toEqual({
+    maxCostUsd: 1,
+    maxTokens: 50,
+    maxDurationSeconds: undefined,
+  });
+});
+
+test("createBudgetGuard reports the first limit reached and keeps it", () => {
+  expect(createBudgetGuard(undefined)).toBeNull();
+  expect(createBudgetGuard({})).toBeNull();
+  const guard = createBudgetGuard({ maxCostUsd: 0.5, maxTokens: 1000 })!;
+  expect(guard.check({ total: 999, cost: 0.1 })).toBeNull();
+  expect(guard.check({ total: 1200, cost: 0.1 })).toBe("1200 tokens reached limits.maxTokens (1000)");
+  expect(guard.check({ total: 1200, cost: 0.9 })).toBe("1200 tokens reached limits.maxTokens (1000)");
+  expect(guard.exhausted()).toBe("1200 tokens reached limits.maxTokens (1000)");
+  const costGuard = createBudgetGuard({ maxCostUsd: 0.5 })!;
+  expect(costGuard.check({ total: 10, cost: 0.51234 })).toBe("cost $0.5123 reached limits.maxCostUsd ($0.5)");
+});
+
+test("createBudgetGuard fires the wall-clock limit once and can be stopped", () => {
+  const scheduled: Array<{ fn: () => void; ms: number }> = [];
+  let cleared = 0;
+  const timers = {
+    setTimeout: ((fn: () => void, ms: number) => {
+      scheduled.push({ fn, ms });
+      return scheduled.length as any;
+    }) as any,
+    clearTimeout: (() => {
+      cleared += 1;
+    }) as any,
+  };
+  const reasons: string[] = [];
+  const guard = createBudgetGuard({ maxDurationSeconds: 30 }, timers)!;
+  guard.start((reason) => reasons.push(reason));
+  expect(scheduled.map((item) => item.ms)).toEqual([30000]);
+  scheduled[0].fn();
+  expect(reasons).toEqual(["run time reached limits.maxDurationSeconds (30s)"]);
+  expect(guard.exhausted()).toBe(reasons[0]);
+  guard.stop();
+  expect(cleared).toBe(0);
+
+  const stopped = createBudgetGuard({ maxDurationSeconds: 30 }, timers)!;
+  stopped.start(() => reasons.push("late"));
+  stopped.stop();
+  expect(cleared).toBe(1);
+});
@@ -0,0 +1,164 @@
+import { test, expect } from "bun:test";
+import { buildCheckAnnotations, startReviewCheckRun, verdictToConclusion } from "../src/agent/check-run.ts";
+import { createReviewTools } from "../src/tools/review.ts";
+import type { PublishedSummary } from "../src/summary.ts";
+
+function makeChecksOctokit(options?: { createError?: any }) {
+  const calls: Array<{ method: string; args: any }> = [];
+  const octokit = {
+    rest: {
+      checks: {
+        create: async (args: any) => {
+          calls.push({ method: "create", args });
+          if (options?.createError) throw options.createError;
+          return { data: { id: 77 } };
+        },
+        update: async (args: any) => {
+          calls.push({ method: "update", args });
+          return { data: { id: 77 } };
+        },
+      },
+    },
+  };
+  return { octokit: octokit as any, calls };
+}
+
+function makeFinding(overrides: Partial<PublishedSummary["findings"][number]>): PublishedSummary["findings"][number] {
+  return {
+    category: "Bug",
+    severity: "medium",
+    status: "new",
+    title: "Null dereference",
+    details: "user can be undefined here.",
+    locations: [{ path: "src/a.ts", line: 3, side: "RIGHT" }],
+    ...overrides,
+  };
+}
+
+test("verdictToConclusion maps review verdicts to check conclusions", () => {
+  expect(verdictToConclusion("Approve")).toBe("success");
+  expect(verdictToConclusion("Request Changes")).toBe("failure");
+  expect(verdictToConclusion("Skipped")).toBe("neutral");
+});
+
+test("buildCheckAnnotations maps severity and skips resolved findings and LEFT-side locations", () => {
+  const annotations = buildCheckAnnotations({
+    verdict: "Request Changes",
+    body: "",
+    findings: [
+      makeFinding({ severity: "high", action: "Guard the lookup." }),
+      makeFinding({ severity: "low", title: "Naming", locations: [{ path: "src/b.ts", line: 9, side: "RIGHT" }] }),
+      makeFinding({ status: "resolved", title: "Fixed" }),
+      makeFinding({ title: "Removed code", locations: [{ path: "src/c.ts", line: 2, side: "LEFT" }] }),
+    ],
+  });
+  expect(annotations).toEqual([
+    {
+      path: "src/a.ts",
+      start_line: 3,
+      end_line: 3,
+      annotation_level: "failure",
+      title: "[Bug] Null dereference",
+      message: "user can be undefined here.\n\nAction: Guard the lookup.",
+    },
+    {
+      path: "src/b.ts",
+      start_line: 9,
+      end_line: 9,
+      annotation_level: "notice",
+      title: "[Bug] Naming",
+      message: "user can be undefined here.",
+    },
+  ]);
+});
+
+test("check run completes with verdict conclusion and batches annotations by 50", async () => {
+  const { octokit, calls } = makeChecksOctokit();
+  const checkRun = await startReviewCheckRun({ octokit, owner: "o", repo: "r", headSha: "abc" });
+  expect(checkRun).not.toBeNull();
+  const locations = Array.from({ length: 60 }, (_, index) => ({ path: "src/a.ts", line: index + 1, side: "RIGHT" as const }));
+  checkRun!.onSummaryPublished({
+    verdict: "Request Changes",
+    body: "## Review Summary\n\nBody<!-- sri:bot-comment -->",
+    findings: [makeFinding({ locations })],
+  });
+  await checkRun!.finish();
+  await checkRun!.finish();
+
+  expect(calls.map((call) => call.method)).toEqual(["create", "update", "update"]);
+  expect(calls[0].args).toMatchObject({ head_sha: "abc", status: "in_progress" });
+  expect(calls[1].args.status).toBeUndefined();
+  expect(calls[1].args.output.annotations.length).toBe(50);
+  expect(calls[2].args).toMatchObject({ check_run_id: 77, status: "completed", conclusion: "failure" });
+  expect(calls[2].args.output.title).toBe("Verdict: Request Changes");
+  expect(calls[2].args.output.summary).toBe("## Review Summary\n\nBody");
+  expect(calls[2].args.output.annotations.length).toBe(10);
+});
+
+test("check run is skipped when the token cannot create checks and is neutral without a summary", async () => {
+  const denied = makeChecksOctokit({ createError: Object.assign(new Error("Resource not accessible"), { status: 403 }) });
+  expect(await startReviewCheckRun({ octokit: denied.octokit, owner: "o", repo: "r", headSha: "abc" })).toBeNull();
+
+  const { octokit, calls } = makeChecksOctokit();
+  const checkRun = await startReviewCheckRun({ octokit, owner: "o", repo: "r", headSha: "abc" });
+  await checkRun!.finish();
+  expect(calls[1].args).toMatchObject({ status: "completed", conclusion: "neutral" });
+  expect(calls[1].args.output.annotations).toEqual([]);
+});
+
+test("post_summary reports findings with comment and evidence locations", async () => {
+  const published: PublishedSummary[] = [];
+  let nextId = 1;
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: async (args: any) => ({ data: { id: nextId++, html_url: "https://example.com/c", body: args.body } }),
+      },
+      pulls: {
+        createReviewComment: async (args: any) => ({ data: { id: nextId++, html_url: "https://example.com/r", body: args.body } }),
+      },
+    },
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    changedFiles: [
+      { filename: "src/a.ts", status: "modified", additions: 2, deletions: 0, changes: 2, patch: "@@ -1,1 +1,3 @@\n a\n+b\n+c\n" },
+    ],
+    existingComments: [],
+    reviewThreads: [],
+    onSummaryPublished: (summary) => {
+      published.push(summary);
+    },
+  } as any);
+  const comment = tools.find((tool) => tool.name === "comment") as any;
+  const reportFinding = tools.find((tool) => tool.name === "report_finding") as any;
+  const summary = tools.find((tool) => tool.name === "post_summary") as any;
+
+  await reportFinding.execute("", {
+    finding_ref: "f1",
+    category: "bug",
+    severity: "high",
+    status: "new",
+    placement: "inline",
+    title: "Null guard is missing on parse result",
+    details: "Dereference happens before null check",
+    evidence: ["src/a.ts:3"],
+  });
+  await comment.execute("", { path: "src/a.ts", line: 2, side: "RIGHT", body: "Check b.", finding_ref: "f1" });
+  await summary.execute("", { verdict: "Request Changes", preface: "One bug." });
+
+  expect(published.length).toBe(1);
+  expect(published[0].verdict).toBe("Request Changes");
+  expect(published[0].url).toBe("https://example.com/c");
+  expect(published[0].findings[0].locations).toEqual([
+    { path: "src/a.ts", line: 2, side: "RIGHT" },
+    { path: "src/a.ts", line: 3, side: "RIGHT" },
+  ]);
+});
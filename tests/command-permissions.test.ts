@@ -0,0 +1,102 @@
+import { test, expect } from "bun:test";
+import { checkCommandPermission, createTeamMembershipCheck } from "../src/commands/permissions.ts";
+import type { CommandDefinition, PullRequestInfo } from "../src/types.ts";
+
+const prInfo: PullRequestInfo = {
+  number: 1,
+  title: "Test",
+  body: "",
+  author: "octocat",
+  baseRef: "main",
+  headRef: "feature",
+  baseSha: "base",
+  headSha: "head",
+  url: "",
+  isFork: false,
+};
+
+function command(permissions?: CommandDefinition["permissions"]): CommandDefinition {
+  return { id: "security", prompt: "Check security.", permissions };
+}
+
+test("checkCommandPermission allows anyone when permissions are unset", async () => {
+  const refusal = await checkCommandPermission({
+    command: command(),
+    requester: { login: "stranger", authorAssociation: "NONE" },
+    prInfo: { ...prInfo, isFork: true },
+  });
+  expect(refusal).toBeNull();
+});
+
+test("checkCommandPermission matches associations, users, or teams", async () => {
+  const permissions = { authorAssociation: ["OWNER", "MEMBER"], users: ["@Release-Admin"], teams: ["acme/maintainers"] };
+  const isTeamMember = async (team: string, login: string) => team === "acme/maintainers" && login === "maint";
+
+  const member = await checkCommandPermission({
+    command: command(permissions),
+    requester: { login: "someone", authorAssociation: "member" },
+    prInfo,
+  });
+  const listedUser = await checkCommandPermission({
+    command: command(permissions),
+    requester: { login: "release-admin", authorAssociation: "CONTRIBUTOR" },
+    prInfo,
+  });
+  const teamMember = await checkCommandPermission({
+    command: command(permissions),
+    requester: { login: "maint", authorAssociation: "CONTRIBUTOR" },
+    prInfo,
+    isTeamMember,
+  });
+  const outsider = await checkCommandPermission({
+    command: command(permissions),
+    requester: { login: "drive-by", authorAssociation: "FIRST_TIME_CONTRIBUTOR" },
+    prInfo,
+    isTeamMember,
+  });
+
+  expect(member).toBeNull();
+  expect(listedUser).toBeNull();
+  expect(teamMember).toBeNull();
+  expect(outsider).toBe(
+    "@drive-by (FIRST_TIME_CONTRIBUTOR) is not allowed to run `security`. " +
+      "Allowed: author association OWNER/MEMBER; users @Release-Admin; teams acme/maintainers."
+  );
+});
+
+test("checkCommandPermission refuses fork PRs when allowForks is false, even for owners", async () => {
+  const refusal = await checkCommandPermission({
+    command: command({ authorAssociation: ["OWNER"], allowForks: false }),
+    requester: { login: "boss", authorAssociation: "OWNER" },
+    prInfo: { ...prInfo, isFork: true },
+  });
+  expect(refusal).toBe("`security` cannot run on pull requests from forks.");
+});
+
+test("createTeamMembershipCheck resolves bare slugs in the default org and treats 404 as non-member", async () => {
+  const calls: any[] = [];
+  const warnings: string[] = [];
+  const octokit = {
+    rest: {
+      teams: {
+        getMembershipForUserInOrg: async (args: any) => {
+          calls.push(args);
+          if (args.team_slug === "missing") {
+            const error: any = new Error("Not Found");
+            error.status = 404;
+            throw error;
+          }
+          return { data: { state: args.team_slug === "core" ? "active" : "pending" } };
+        },
+      },
+    },
+  };
+  const check = createTeamMembershipCheck(octokit as any, "acme", (message) => warnings.push(message));
+
+  expect(await check("core", "dev")).toBe(true);
+  expect(await check("other-org/invited", "dev")).toBe(false);
+  expect(await check("missing", "dev")).toBe(false);
+  expect(calls[0]).toEqual({ org: "acme", team_slug: "core", username: "dev" });
+  expect(calls[1].org).toBe("other-org");
+  expect(warnings).toEqual([]);
+});
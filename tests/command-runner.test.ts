@@ -1,5 +1,6 @@
 import { test, expect } from "bun:test";
 import { runCommand } from "../src/commands/command-runner.ts";
+import { createRunReport } from "../src/app/run-report.ts";
 import type { ReviewConfig, ReviewContext, PullRequestInfo, ChangedFile, CommandDefinition } from "../src/types.ts";
 import { makeOctokitSpy } from "./helpers/fake-octokit.ts";
 
@@ -273,3 +274,337 @@ test("runCommand logs assistant text when content is a string", async () => {
   }
   expect(logs.some((line) => line.includes("assistant: plain output"))).toBe(true);
 });
+
+test("runCommand validates declared args and interpolates them into the prompt", async () => {
+  const { octokit } = makeOctokitSpy();
+  const typedCommand: CommandDefinition = {
+    id: "security",
+    prompt: "Review ${args.area} at ${args.depth} depth (strict=${args.strict}).",
+    args: [
+      { name: "area", type: "path", required: true },
+      { name: "depth", type: "enum", values: ["quick", "deep"], default: "quick" },
+      { name: "strict", type: "bool", default: false },
+    ],
+  };
+  let systemPrompt = "";
+  let agentCreated = false;
+  const run = (argv: string[]) =>
+    runCommand({
+      mode: "pr",
+      command: typedCommand,
+      config: baseConfig,
+      context: baseContext,
+      octokit: octokit as any,
+      prInfo: basePrInfo,
+      changedFiles: baseFiles,
+      existingComments: [],
+      reviewThreads: [],
+      commandArgs: { args: argv.join(" "), argv },
+      commentType: "both",
+      allowlist: ["filesystem"],
+      overrides: {
+        model: { contextWindow: 1000 } as any,
+        compactionModel: null,
+        agentFactory: ({ initialState }: any) => {
+          agentCreated = true;
+          systemPrompt = initialState.systemPrompt;
+          return {
+            state: { error: null, messages: [] },
+            subscribe() {},
+            async prompt() {},
+            abort() {},
+          };
+        },
+      },
+    });
+
+  const invalid = await run(["--depth", "extreme"]);
+  expect(agentCreated).toBe(false);
+  expect(invalid).toEqual({
+    status: "invalid",
+    reason: "Missing required argument area. depth must be one of quick, deep (got \"extreme\").",
+    usage: [
+      "Usage: `!security <area> [<depth>] [--strict]`",
+      "- `area` (path, required)",
+      "- `depth` (quick|deep, default quick)",
+      "- `strict` (bool, default false)",
+    ].join("\n"),
+  });
+
+  const completed = await run(["src/api/", "--strict"]);
+  expect(completed).toEqual({
+    status: "completed",
+    output: { command: "security", verdict: undefined, findings: [], observations: [], text: "" },
+  });
+  expect(systemPrompt).toContain("Review src/api/ at quick depth (strict=true).");
+});
+
+test("runCommand retries on the fallback model when the command model runs out of quota", async () => {
+  const { octokit } = makeOctokitSpy();
+  const thinkingLevels: string[] = [];
+  const originalLog = console.log;
+  console.log = () => {};
+  try {
+    await runCommand({
+      mode: "pr",
+      command: { ...command, model: { reasoning: "high" } },
+      config: {
+        ...baseConfig,
+        fallback: { provider: "google", modelId: "gemini-2.5-flash", apiKey: "fallback" },
+      },
+      context: baseContext,
+      octokit: octokit as any,
+      prInfo: basePrInfo,
+      changedFiles: baseFiles,
+      existingComments: [],
+      reviewThreads: [],
+      commentType: "both",
+      allowlist: ["filesystem"],
+      overrides: {
+        model: { contextWindow: 1000 } as any,
+        compactionModel: null,
+        agentFactory: ({ initialState }: any) => {
+          thinkingLevels.push(initialState.thinkingLevel);
+          const first = thinkingLevels.length === 1;
+          return {
+            state: { errorMessage: first ? "429 RESOURCE_EXHAUSTED: quota exceeded" : undefined, messages: [] },
+            subscribe() {},
+            async prompt() {},
+            abort() {},
+          };
+        },
+      },
+    });
+  } finally {
+    console.log = originalLog;
+  }
+  expect(thinkingLevels).toEqual(["high", "high"]);
+});
+
+test("runCommand returns its findings and reply, and shows earlier pipeline output in the prompt", async () => {
+  const { octokit } = makeOctokitSpy();
+  let userPrompt = "";
+  const result = await runCommand({
+    mode: "pr",
+    command,
+    config: baseConfig,
+    context: baseContext,
+    octokit: octokit as any,
+    prInfo: basePrInfo,
+    changedFiles: baseFiles,
+    existingComments: [],
+    reviewThreads: [],
+    commentType: "issue",
+    allowlist: ["filesystem", "github.pr.feedback"],
+    pipelineInputs: [
+      {
+        command: "triage",
+        verdict: "Request Changes",
+        findings: [],
+        observations: [{ category: "risk", title: "Auth changes in src/a.ts" }],
+        text: "Look at src/a.ts first.",
+      },
+    ],
+    overrides: {
+      model: { contextWindow: 1000 } as any,
+      compactionModel: null,
+      agentFactory: ({ initialState }: any) => {
+        let subscriber: ((event: any) => void) | null = null;
+        const tool = (name: string) => initialState.tools.find((item: any) => item.name === name);
+        return {
+          state: { error: null, messages: [] },
+          subscribe(fn: (event: any) => void) {
+            subscriber = fn;
+          },
+          async prompt(input: string) {
+            userPrompt = input;
+            await tool("report_finding").execute("", {
+              finding_ref: "token-check",
+              category: "security",
+              severity: "high",
+              status: "new",
+              placement: "summary_only",
+              summary_only_reason: "Cross-file concern: the check is missing from every handler.",
+              title: "Token expiry is never checked",
+              evidence: ["src/a.ts:1"],
+            });
+            await tool("post_summary").execute("", { verdict: "Request Changes" });
+            subscriber?.({
+              type: "message_end",
+              message: { role: "assistant", content: [{ type: "text", text: "Flagged src/a.ts." }] },
+            });
+          },
+          abort() {},
+        };
+      },
+    },
+  });
+
+  expect(userPrompt).toContain("# Earlier Pipeline Steps");
+  expect(userPrompt).toContain("## triage (verdict: Request Changes)");
+  expect(userPrompt).toContain("- [risk] Auth changes in src/a.ts");
+  expect(userPrompt).toContain("Final reply:\nLook at src/a.ts first.");
+  expect(result.status).toBe("completed");
+  if (result.status !== "completed") return;
+  expect(result.output?.verdict).toBe("Request Changes");
+  expect(result.output?.text).toBe("Flagged src/a.ts.");
+  expect(result.output?.findings.map((finding) => [finding.title, finding.locations.map((item) => item.path)])).toEqual([
+    ["Token expiry is never checked", ["src/a.ts"]],
+  ]);
+});
+
+test("runCommand stops at the token budget and posts a partial summary", async () => {
+  const { octokit, calls } = makeOctokitSpy();
+  let aborted = 0;
+  const warnings: string[] = [];
+  const originalWarn = console.warn;
+  console.warn = (...args) => {
+    warnings.push(args.map(String).join(" "));
+  };
+  try {
+    await runCommand({
+      mode: "pr",
+      command: { ...command, limits: { maxTokens: 100 } },
+      config: { ...baseConfig, budget: { maxTokens: 5000, maxCostUsd: 10 } },
+      context: baseContext,
+      octokit: octokit as any,
+      prInfo: basePrInfo,
+      changedFiles: baseFiles,
+      existingComments: [],
+      reviewThreads: [],
+      commentType: "issue",
+      allowlist: ["filesystem", "github.pr.feedback"],
+      overrides: {
+        model: { contextWindow: 1000, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 } } as any,
+        compactionModel: null,
+        agentFactory: ({ initialState }: any) => {
+          let subscriber: ((event: any) => void) | null = null;
+          const tool = (name: string) => initialState.tools.find((item: any) => item.name === name);
+          const agent = {
+            state: { error: null, messages: [] },
+            subscribe(fn: (event: any) => void) {
+              subscriber = fn;
+            },
+            async prompt() {
+              await tool("report_finding").execute("", {
+                finding_ref: "token-check",
+                category: "security",
+                severity: "high",
+                status: "new",
+                placement: "summary_only",
+                summary_only_reason: "Cross-file concern: the check is missing from every handler.",
+                title: "Token expiry is never checked",
+              });
+              subscriber?.({
+                type: "message_end",
+                message: {
+                  role: "assistant",
+                  content: [],
+                  usage: {
+                    input: 90,
+                    output: 30,
+                    cacheRead: 0,
+                    cacheWrite: 0,
+                    totalTokens: 120,
+                    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+                  },
+                },
+              });
+            },
+            abort() {
+              aborted += 1;
+            },
+          };
+          return agent;
+        },
+      },
+    });
+  } finally {
+    console.warn = originalWarn;
+  }
+
+  expect(aborted).toBe(1);
+  expect(warnings).toEqual([
+    "[warn] Command security budget exhausted: 120 tokens reached limits.maxTokens (100). Stopping the agent.",
+  ]);
+  const summary = calls.find((call) => call.type === "issue_comment");
+  expect(summary?.args.body).toContain("**Budget exhausted**: 120 tokens reached limits.maxTokens (100).");
+  expect(summary?.args.body).toContain("Token expiry is never checked");
+  expect(summary?.args.body).toContain("Request Changes");
+});
+
+test("runCommand records tool calls, findings and billing in the run report", async () => {
+  const { octokit } = makeOctokitSpy();
+  const report = createRunReport({ eventName: "issue_comment", repository: "acme/repo", prNumber: 1 });
+  await runCommand({
+    mode: "pr",
+    command,
+    config: baseConfig,
+    context: baseContext,
+    octokit: octokit as any,
+    prInfo: basePrInfo,
+    changedFiles: baseFiles,
+    existingComments: [],
+    reviewThreads: [],
+    commentType: "issue",
+    allowlist: ["filesystem", "github.pr.feedback"],
+    runReport: report,
+    overrides: {
+      model: { contextWindow: 1000, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 } } as any,
+      compactionModel: null,
+      agentFactory: ({ initialState }: any) => {
+        let subscriber: ((event: any) => void) | null = null;
+        const tool = (name: string) => initialState.tools.find((item: any) => item.name === name);
+        return {
+          state: { error: null, messages: [] },
+          subscribe(fn: (event: any) => void) {
+            subscriber = fn;
+          },
+          async prompt() {
+            subscriber?.({ type: "tool_execution_start", toolCallId: "c1", toolName: "report_finding", args: {} });
+            await tool("report_finding").execute("c1", {
+              finding_ref: "token-check",
+              category: "security",
+              severity: "high",
+              status: "new",
+              placement: "summary_only",
+              summary_only_reason: "Cross-file concern: the check is missing from every handler.",
+              title: "Token expiry is never checked",
+            });
+            subscriber?.({ type: "tool_execution_end", toolCallId: "c1", toolName: "report_finding", isError: false });
+            await tool("post_summary").execute("c2", {});
+            subscriber?.({
+              type: "message_end",
+              message: {
+                role: "assistant",
+                content: [],
+                usage: {
+                  input: 90,
+                  output: 30,
+                  cacheRead: 0,
+                  cacheWrite: 0,
+                  totalTokens: 120,
+                  cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+                },
+              },
+            });
+          },
+          abort() {},
+        };
+      },
+    },
+  });
+
+  const [run] = report.toJSON().runs;
+  expect(run).toMatchObject({
+    kind: "command",
+    id: "security",
+    model: baseConfig.modelId,
+    status: "completed",
+    filesReviewed: baseFiles.map((file) => file.filename),
+    tools: { report_finding: { calls: 1, errors: 0 } },
+    verdict: "Request Changes",
+    billing: { input: 90, output: 30, total: 120 },
+  });
+  expect(run.findings.map((finding) => finding.title)).toEqual(["Token expiry is never checked"]);
+});
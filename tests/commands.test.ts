@@ -1,7 +1,7 @@
 import { test, expect } from "bun:test";
 import { CommandRegistry } from "../src/commands/registry.ts";
-import { matchesBotMention, parseCommandInvocation } from "../src/commands/args.ts";
-import { runActionFlow } from "../src/app/flow.ts";
+import { matchesBotMention, parseCommandArguments, parseCommandInvocation } from "../src/commands/args.ts";
+import { runActionFlow, runPrCommands } from "../src/app/flow.ts";
 import type { ActionConfig, ReviewConfig, ReviewContext } from "../src/types.ts";
 
 const commandDef = { id: "security", prompt: "Check auth" } as const;
@@ -31,6 +31,25 @@ test("parseCommandInvocation handles @mention form", () => {
   expect(invocation?.argv).toEqual(["quick"]);
 });
 
+test("parseCommandArguments reads options, positionals, bool flags and defaults", () => {
+  const definitions = [
+    { name: "area", type: "path" as const },
+    { name: "limit", type: "number" as const, default: 5 },
+    { name: "strict", type: "bool" as const, default: true },
+    { name: "label" },
+  ];
+  expect(parseCommandArguments(["--limit=10", "./src/../lib", "--no-strict", "hello world"], definitions)).toEqual({
+    values: { area: "lib", limit: 10, strict: false, label: "hello world" },
+    errors: [],
+  });
+  expect(parseCommandArguments(["/etc", "--limit", "many", "--verbose", "x", "y"], definitions).errors).toEqual([
+    "Unknown option --verbose.",
+    "Unexpected argument \"y\".",
+    "area must be a path inside the repository (got \"/etc\").",
+    "limit must be a number (got \"many\").",
+  ]);
+});
+
 test("matchesBotMention normalizes bot suffix", () => {
   expect(matchesBotMention("my-app", "my-app")).toBe(true);
   expect(matchesBotMention("my-app", "my-app[bot]")).toBe(true);
@@ -55,6 +74,7 @@ test("runActionFlow logs missing command id", async () => {
     commands: [],
     toolsAllowlist: [],
     outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
   };
   const context: ReviewContext = { owner: "o", repo: "r", prNumber: 1 };
   let message = "";
@@ -89,3 +109,301 @@ test("runActionFlow logs missing command id", async () => {
   });
   expect(message).toContain("Unknown command id");
 });
+
+test("runPrCommands runs trigger commands with the command comment type and ignore patterns", async () => {
+  const actionConfig: ActionConfig = {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 5,
+      ignorePatterns: ["*.lock"],
+      repoRoot: process.cwd(),
+      debug: false,
+      reasoning: "off",
+    },
+    reviewRun: [],
+    commands: [],
+    toolsAllowlist: ["filesystem", "github.pr.feedback"],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+  };
+  const runs: any[] = [];
+  const messages: string[] = [];
+  await runPrCommands({
+    config: actionConfig,
+    context: { owner: "o", repo: "r", prNumber: 1 },
+    octokit: {} as any,
+    source: "review.runOnLabels[needs-security-review]",
+    commandIds: ["security", "missing"],
+    commandRegistry: new CommandRegistry([{ ...commandDef, comment: { type: "issue" } } as any]),
+    fetchPrDataFn: async () => ({
+      prInfo: {
+        number: 1,
+        title: "PR",
+        body: "",
+        author: "author",
+        baseRef: "main",
+        headRef: "feature",
+        baseSha: "base",
+        headSha: "head",
+        url: "https://example.com/pr/1",
+      },
+      changedFiles: [
+        { filename: "src/a.ts", status: "modified", additions: 1, deletions: 0, changes: 1 },
+        { filename: "bun.lock", status: "modified", additions: 1, deletions: 0, changes: 1 },
+      ],
+    }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    runCommandFn: async (input: any) => {
+      runs.push(input);
+    },
+    logInfo: (message) => messages.push(message),
+  });
+  expect(runs.length).toBe(1);
+  expect(runs[0].command.id).toBe("security");
+  expect(runs[0].commentType).toBe("issue");
+  expect(runs[0].changedFiles.map((file: any) => file.filename)).toEqual(["src/a.ts"]);
+  expect(runs[0].allowlist).toEqual(["filesystem", "github.pr.feedback"]);
+  expect(messages).toEqual(["[warn] Unknown command id in review.runOnLabels[needs-security-review]: missing"]);
+});
+
+test("runPrCommands reviews the merge group range and reports the strictest verdict", async () => {
+  const actionConfig: ActionConfig = {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 5,
+      ignorePatterns: [],
+      repoRoot: process.cwd(),
+      debug: false,
+      reasoning: "off",
+    },
+    reviewRun: [],
+    commands: [],
+    toolsAllowlist: ["filesystem", "github.pr.feedback"],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+  };
+  const ranges: unknown[] = [];
+  const runs: any[] = [];
+  const outcome = await runPrCommands({
+    config: actionConfig,
+    context: { owner: "o", repo: "r", prNumber: 42 },
+    octokit: {} as any,
+    source: "review.mergeGroup",
+    commandIds: ["security", "style"],
+    commandRegistry: new CommandRegistry([commandDef as any, { id: "style", prompt: "Check style" } as any]),
+    mergeGroup: { baseSha: "queue-base", headSha: "queue-head" },
+    fetchPrDataFn: async () => {
+      throw new Error("merge group runs must not read the PR head");
+    },
+    fetchMergeGroupDataFn: async (_octokit, _context, range) => {
+      ranges.push(range);
+      return {
+        prInfo: {
+          number: 42,
+          title: "PR",
+          body: "",
+          author: "author",
+          baseRef: "main",
+          headRef: "feature",
+          baseSha: range.baseSha,
+          headSha: range.headSha,
+          url: "https://example.com/pr/42",
+        },
+        changedFiles: [{ filename: "src/a.ts", status: "modified", additions: 1, deletions: 0, changes: 1 }],
+      };
+    },
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    runCommandFn: async (input: any) => {
+      runs.push(input);
+      const blocking = input.command.id === "security";
+      return {
+        status: "completed",
+        output: {
+          command: input.command.id,
+          verdict: blocking ? "Request Changes" : "Approve",
+          findings: blocking
+            ? [{ category: "Security", severity: "high", status: "new", title: "Token leak", evidence: [] } as any]
+            : [],
+          observations: [],
+          text: "",
+        },
+      };
+    },
+    logInfo: () => {},
+  });
+
+  expect(ranges).toEqual([{ baseSha: "queue-base", headSha: "queue-head" }]);
+  expect(runs.map((run) => run.prInfo.headSha)).toEqual(["queue-head", "queue-head"]);
+  expect(outcome.verdict).toBe("Request Changes");
+  expect(outcome.findingsBySeverity).toEqual({ high: 1, medium: 0, low: 0 });
+  expect(outcome.findingsByStatus.new).toBe(1);
+});
+
+test("runActionFlow runs review.run commands concurrently and posts summaries in order", async () => {
+  const actionConfig: ActionConfig = {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 5,
+      ignorePatterns: [],
+      repoRoot: process.cwd(),
+      debug: false,
+      reasoning: "off",
+    },
+    reviewRun: [],
+    commands: [],
+    toolsAllowlist: [],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+    concurrency: { limit: 2, includeReview: true },
+  };
+  const posted: string[] = [];
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: async ({ body }: { body: string }) => {
+          posted.push(body);
+          return { data: { id: posted.length } };
+        },
+      },
+    },
+  };
+  const delays: Record<string, number> = { slow: 30, fast: 0, last: 0 };
+  let running = 0;
+  let maxRunning = 0;
+  const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+  await runActionFlow({
+    config: actionConfig,
+    context: { owner: "o", repo: "r", prNumber: 1 },
+    octokit: octokit as any,
+    fetchPrDataFn: async () => ({
+      prInfo: {
+        number: 1,
+        title: "PR",
+        body: "",
+        author: "author",
+        baseRef: "main",
+        headRef: "feature",
+        baseSha: "base",
+        headSha: "head",
+        url: "https://example.com/pr/1",
+      },
+      changedFiles: [],
+    }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    runReviewFn: async (input: any) => {
+      expect(typeof input.overrides?.streamFn).toBe("function");
+      await sleep(20);
+      await input.octokit.rest.issues.createComment({ body: "review" });
+      return { verdict: "Approve" } as any;
+    },
+    commandIds: ["slow", "fast", "last"],
+    commandRegistry: new CommandRegistry([{ id: "slow", prompt: "s" }, { id: "fast", prompt: "f" }, { id: "last", prompt: "l" }]),
+    runCommandFn: async (input: any) => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      expect(input.overrides?.streamFn).toBeDefined();
+      await sleep(delays[input.command.id]);
+      await input.summaryTurn;
+      await input.octokit.rest.issues.createComment({ body: input.command.id });
+      running -= 1;
+      return { status: "completed" };
+    },
+    logInfo: () => {},
+  });
+  expect(maxRunning).toBe(2);
+  expect(posted).toEqual(["review", "slow", "fast", "last"]);
+});
+
+test("command registry validates pipelines against commands", () => {
+  const commands = [{ id: "triage", prompt: "t" }, { id: "deep-dive", prompt: "d" }];
+  const registry = new CommandRegistry(commands, [
+    { id: "security-deep", steps: [{ command: "triage" }, { command: "deep-dive", files: "flagged" }] },
+  ]);
+  expect(registry.getPipeline("security-deep")?.steps.length).toBe(2);
+  expect(registry.get("security-deep")).toBeUndefined();
+  expect(() => new CommandRegistry(commands, [{ id: "triage", steps: [{ command: "deep-dive" }] }])).toThrow(
+    "Duplicate command id: triage"
+  );
+  expect(() => new CommandRegistry(commands, [{ id: "p", steps: [{ command: "missing" }] }])).toThrow(
+    "Pipeline p references unknown command: missing"
+  );
+});
+
+test("runPrCommands passes pipeline output forward and narrows flagged steps", async () => {
+  const finding = (path: string, status: string) => ({
+    category: "Security",
+    severity: "high",
+    status,
+    title: `Issue in ${path}`,
+    locations: [{ path, line: 1, side: "RIGHT" }],
+  });
+  const registry = new CommandRegistry(
+    [{ id: "triage", prompt: "t" }, { id: "deep-dive", prompt: "d" }, { id: "docs", prompt: "x" }],
+    [
+      { id: "security-deep", steps: [{ command: "triage" }, { command: "deep-dive", files: "flagged" }] },
+      { id: "quiet", steps: [{ command: "docs" }, { command: "deep-dive", files: "flagged" }] },
+    ]
+  );
+  const runs: any[] = [];
+  const messages: string[] = [];
+  const file = (filename: string) => ({ filename, status: "modified", additions: 1, deletions: 0, changes: 1 });
+  await runPrCommands({
+    config: {
+      review: {
+        provider: "google",
+        apiKey: "test",
+        modelId: "model",
+        maxFiles: 5,
+        ignorePatterns: [],
+        repoRoot: process.cwd(),
+        debug: false,
+        reasoning: "off",
+      },
+      reviewRun: [],
+      commands: [],
+      toolsAllowlist: [],
+      outputCommentType: "both",
+      dryRunDir: "sri-dry-run",
+    },
+    context: { owner: "o", repo: "r", prNumber: 1 },
+    octokit: {} as any,
+    source: "review.run",
+    commandIds: ["security-deep", "quiet"],
+    commandRegistry: registry,
+    fetchPrDataFn: async () => ({
+      prInfo: {
+        number: 1,
+        title: "PR",
+        body: "",
+        author: "author",
+        baseRef: "main",
+        headRef: "feature",
+        baseSha: "base",
+        headSha: "head",
+        url: "https://example.com/pr/1",
+      },
+      changedFiles: [file("src/auth.ts"), file("src/ui.ts"), file("src/old.ts")],
+    }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    runCommandFn: async (input: any) => {
+      runs.push(input);
+      const findings = input.command.id === "triage"
+        ? [finding("src/auth.ts", "new"), finding("src/old.ts", "resolved")]
+        : [];
+      return { status: "completed", output: { command: input.command.id, findings, observations: [], text: "done" } };
+    },
+    logInfo: (message) => messages.push(message),
+  });
+
+  expect(runs.map((run) => run.command.id)).toEqual(["triage", "deep-dive", "docs"]);
+  expect(runs[0].pipelineInputs).toEqual([]);
+  expect(runs[1].changedFiles.map((item: any) => item.filename)).toEqual(["src/auth.ts"]);
+  expect(runs[1].pipelineInputs.map((output: any) => output.command)).toEqual(["triage"]);
+  expect(messages).toEqual(["[pipeline] quiet: skipping deep-dive, earlier steps flagged no files."]);
+});
@@ -0,0 +1,281 @@
+import { test, expect } from "bun:test";
+import { runCommentCommand } from "../src/app/comment-command.ts";
+import { CommandRegistry } from "../src/commands/registry.ts";
+import { formatCommandOutcome } from "../src/commands/report.ts";
+import type { ActionConfig, CommandDefinition, PullRequestInfo } from "../src/types.ts";
+
+const prInfo: PullRequestInfo = {
+  number: 3,
+  title: "Test",
+  body: "",
+  author: "octocat",
+  baseRef: "main",
+  headRef: "feature",
+  baseSha: "base",
+  headSha: "head",
+  url: "",
+  isFork: false,
+};
+
+function makeConfig(commands: CommandDefinition[]): ActionConfig {
+  return {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 10,
+      ignorePatterns: [],
+      repoRoot: process.cwd(),
+      debug: false,
+      reasoning: "off",
+    },
+    reviewRun: [],
+    commands,
+    toolsAllowlist: ["filesystem"],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+  };
+}
+
+function makeOctokit() {
+  const calls: string[] = [];
+  const bodies: string[] = [];
+  const octokit = {
+    rest: {
+      reactions: {
+        createForIssueComment: async (args: any) => {
+          calls.push(`react:${args.content}`);
+          return { data: { id: args.content === "eyes" ? 900 : 901 } };
+        },
+        deleteForIssueComment: async (args: any) => {
+          calls.push(`unreact:${args.reaction_id}`);
+          return { data: {} };
+        },
+      },
+      issues: {
+        createComment: async (args: any) => {
+          calls.push("reply");
+          bodies.push(args.body);
+          return { data: { id: 1 } };
+        },
+      },
+    },
+  };
+  return { octokit, calls, bodies };
+}
+
+function run(commentBody: string, commands: CommandDefinition[], overrides: Record<string, any> = {}) {
+  const { octokit, calls, bodies } = makeOctokit();
+  const promise = runCommentCommand({
+    config: makeConfig(commands),
+    octokit: octokit as any,
+    context: { owner: "o", repo: "r", prNumber: 3 },
+    mode: {
+      mode: "issue_comment",
+      prNumber: 3,
+      isPullRequest: true,
+      commentBody,
+      commentId: 42,
+      author: "octocat",
+      authorAssociation: "MEMBER",
+    },
+    commandRegistry: new CommandRegistry(commands),
+    fetchPrDataFn: async () => ({ prInfo, changedFiles: [] }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    logInfo: () => {},
+    ...overrides,
+  });
+  return { promise, calls, bodies };
+}
+
+test("runCommentCommand acknowledges, runs, and reports success", async () => {
+  let ranWith: any = null;
+  const { promise, calls, bodies } = run("!security --strict", [{ id: "security", prompt: "Check." }], {
+    runCommandFn: async (input: any) => {
+      ranWith = input;
+      return { status: "completed" };
+    },
+  });
+  await promise;
+
+  expect(ranWith.commandArgs).toEqual({ args: "--strict", argv: ["--strict"] });
+  expect(calls).toEqual(["react:eyes", "reply", "unreact:900", "react:+1"]);
+  expect(bodies[0]).toBe("> !security --strict\n\n✅ `security` finished.");
+});
+
+test("runCommentCommand lists available commands for unknown ids", async () => {
+  const { promise, calls, bodies } = run("!secuirty", [
+    { id: "security", prompt: "Check." },
+    { id: "docs", prompt: "Docs." },
+  ]);
+  await promise;
+
+  expect(calls).toEqual(["react:eyes", "reply", "unreact:900", "react:-1"]);
+  expect(bodies[0]).toBe(
+    "> !secuirty\n\n❌ Unknown command `secuirty`. Available commands: `help`, `review`, `explain`, `dismiss`, `reopen`, `security`, `docs`."
+  );
+});
+
+test("runCommentCommand reports maxFiles skips and refusals", async () => {
+  const skipped = run("!security", [{ id: "security", prompt: "Check." }], {
+    runCommandFn: async () => ({ status: "skipped", reason: "12 files after filtering exceed limits.maxFiles (5)." }),
+  });
+  await skipped.promise;
+  expect(skipped.bodies[0]).toBe("> !security\n\n❌ `security` skipped: 12 files after filtering exceed limits.maxFiles (5).");
+
+  let ran = false;
+  const refused = run("!security", [{ id: "security", prompt: "Check.", permissions: { users: ["admin"] } }], {
+    runCommandFn: async () => {
+      ran = true;
+      return { status: "completed" };
+    },
+  });
+  await refused.promise;
+  expect(ran).toBe(false);
+  expect(refused.calls.at(-1)).toBe("react:-1");
+  expect(refused.bodies[0]).toContain("❌ Command not run: @octocat (MEMBER) is not allowed to run `security`.");
+});
+
+test("runCommentCommand replies with usage when arguments are invalid", async () => {
+  const { promise, calls, bodies } = run("!security --depth", [{ id: "security", prompt: "Check." }], {
+    runCommandFn: async () => ({ status: "invalid", reason: "Option --depth needs a value.", usage: "Usage: `!security [<depth>]`" }),
+  });
+  await promise;
+  expect(calls.at(-1)).toBe("react:-1");
+  expect(bodies[0]).toBe("> !security --depth\n\n❌ `security` not run: Option --depth needs a value.\n\nUsage: `!security [<depth>]`");
+});
+
+test("runCommentCommand reports failures and rethrows", async () => {
+  const { promise, calls, bodies } = run("!security", [{ id: "security", prompt: "Check." }], {
+    runCommandFn: async () => {
+      throw new Error("model unavailable");
+    },
+  });
+  await expect(promise).rejects.toThrow("model unavailable");
+  expect(calls.at(-1)).toBe("react:-1");
+  expect(bodies[0]).toBe("> !security\n\n❌ `security` failed: model unavailable");
+});
+
+test("runCommentCommand ignores mentions of other bots without reacting", async () => {
+  const { promise, calls } = run("@someone-else security", [{ id: "security", prompt: "Check." }]);
+  await promise;
+  expect(calls).toEqual([]);
+});
+
+test("runCommentCommand answers !help with built-in and configured commands", async () => {
+  const { promise, bodies } = run("!help", [
+    { id: "security", title: "Security scan", prompt: "Check." },
+    { id: "review", title: "Team review prompt", prompt: "Review." },
+  ]);
+  await promise;
+  expect(bodies[0]).toBe(
+    [
+      "> !help",
+      "",
+      "✅ `help` finished.",
+      "",
+      "Available commands:",
+      "",
+      "- `!help` — List available commands (built-in)",
+      "- `!explain` — Post the PR explainer (review guide and file guides) (built-in)",
+      '- `!dismiss` — Dismiss a finding as a false positive: `!dismiss <finding_ref> "reason"` (built-in)',
+      "- `!reopen` — Undo a dismissal: `!reopen <finding_ref>` (built-in)",
+      "- `!security` — Security scan",
+      "- `!review` — Team review prompt",
+    ].join("\n")
+  );
+});
+
+test("runCommentCommand runs a pipeline's steps in order and lists pipelines", async () => {
+  const commands: CommandDefinition[] = [
+    { id: "scan", prompt: "Scan." },
+    { id: "verify", title: "Verify", prompt: "Verify.", permissions: { users: ["admin"] } },
+  ];
+  const pipelines = [{ id: "deep", title: "Deep check", steps: [{ command: "scan" }, { command: "verify" }] }];
+  const ran: string[] = [];
+  const runCommandFn = async (input: any) => {
+    ran.push(input.command.id);
+    return { status: "completed" };
+  };
+
+  const refused = run("!deep", commands, { commandRegistry: new CommandRegistry(commands, pipelines), runCommandFn });
+  await refused.promise;
+  expect(ran).toEqual([]);
+  expect(refused.bodies[0]).toContain("❌ Command not run: @octocat (MEMBER) is not allowed to run `verify`.");
+
+  const open: CommandDefinition[] = [commands[0], { ...commands[1], permissions: undefined }];
+  const allowed = run("!deep", open, { commandRegistry: new CommandRegistry(open, pipelines), runCommandFn });
+  await allowed.promise;
+  expect(ran).toEqual(["scan", "verify"]);
+  expect(allowed.calls).toEqual(["react:eyes", "reply", "unreact:900", "react:+1"]);
+  expect(allowed.bodies[0]).toBe("> !deep\n\n✅ `deep` finished.");
+
+  const help = run("!help", open, { commandRegistry: new CommandRegistry(open, pipelines) });
+  await help.promise;
+  expect(help.bodies[0]).toEndWith("- `!verify` — Verify\n- `!deep` — Deep check (pipeline: scan → verify)");
+
+  const unknown = run("!dep", open, { commandRegistry: new CommandRegistry(open, pipelines) });
+  await unknown.promise;
+  expect(unknown.bodies[0]).toEndWith("`scan`, `verify`, `deep`.");
+});
+
+test("runCommentCommand !review runs a full review and reports the verdict", async () => {
+  let flowParams: any = null;
+  const { promise, bodies } = run("!review", [], {
+    runActionFlowFn: async (input: any) => {
+      flowParams = input;
+      return { verdict: "Request Changes" };
+    },
+  });
+  await promise;
+  expect(flowParams.fullReview).toBe(true);
+  expect(flowParams.context).toEqual({ owner: "o", repo: "r", prNumber: 3 });
+  expect(bodies[0]).toBe("> !review\n\n✅ `review` finished.\n\nVerdict: **Request Changes**.");
+});
+
+test("runCommentCommand !explain runs the explainer even when it is disabled", async () => {
+  let explainerParams: any = null;
+  const { promise, calls } = run("!explain", [], {
+    runPrExplainerFn: async (input: any) => {
+      explainerParams = input;
+    },
+  });
+  await promise;
+  expect(explainerParams.config.experimentalPrExplainer).toBeUndefined();
+  expect(explainerParams.prInfo.number).toBe(3);
+  expect(calls.at(-1)).toBe("react:+1");
+});
+
+test("runCommentCommand refuses model-backed built-ins for outside contributors", async () => {
+  const { octokit, bodies } = makeOctokit();
+  let ran = false;
+  await runCommentCommand({
+    config: makeConfig([]),
+    octokit: octokit as any,
+    context: { owner: "o", repo: "r", prNumber: 3 },
+    mode: {
+      mode: "issue_comment",
+      prNumber: 3,
+      isPullRequest: true,
+      commentBody: "!review",
+      commentId: 42,
+      author: "drive-by",
+      authorAssociation: "CONTRIBUTOR",
+    },
+    commandRegistry: new CommandRegistry([]),
+    fetchPrDataFn: async () => ({ prInfo, changedFiles: [] }),
+    runActionFlowFn: async () => {
+      ran = true;
+      return {} as any;
+    },
+    logInfo: () => {},
+  });
+  expect(ran).toBe(false);
+  expect(bodies[0]).toContain("is not allowed to run `review`");
+});
+
+test("formatCommandOutcome explains when no commands are configured", () => {
+  expect(formatCommandOutcome({ status: "unknown", command: "x", available: [] }, "@bot x")).toBe(
+    "> @bot x\n\n❌ Unknown command `x`. Available commands: none (no commands are configured in .reviewerc)."
+  );
+});
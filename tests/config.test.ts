@@ -2,7 +2,8 @@ import { test, expect } from "bun:test";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { normalizeProvider, parseReasoning, readConfig } from "../src/app/config.ts";
+import { normalizeProvider, parseReasoning, readConfig, resolveCommandReviewConfig } from "../src/app/config.ts";
+import type { ReviewConfig } from "../src/types.ts";
 
 test("normalizeProvider maps common aliases", () => {
   expect(normalizeProvider("gemini")).toBe("google");
@@ -17,6 +18,55 @@ test("parseReasoning accepts known levels", () => {
   expect(parseReasoning("xhigh")).toBe("xhigh");
 });
 
+test("resolveCommandReviewConfig applies a command model block over the review config", () => {
+  const base: ReviewConfig = {
+    provider: "openrouter",
+    apiKey: "primary-key",
+    modelId: "anthropic/claude-sonnet-4",
+    compactionModel: "google/gemini-2.5-flash",
+    maxFiles: 50,
+    ignorePatterns: [],
+    repoRoot: "/repo",
+    debug: false,
+    reasoning: "medium",
+    temperature: 0.4,
+    fallback: { provider: "google", modelId: "gemini-2.5-pro", apiKey: "fallback-key" },
+  };
+  const warnings: string[] = [];
+  const warn = (message: string) => warnings.push(message);
+
+  expect(resolveCommandReviewConfig(base, { id: "plain", prompt: "p" }, warn)).toBe(base);
+
+  const cheap = resolveCommandReviewConfig(
+    base,
+    { id: "docs", prompt: "p", model: { model: "google/gemini-2.5-flash", reasoning: "LOW" as any, temperature: 0 } },
+    warn
+  );
+  expect(cheap.provider).toBe("openrouter");
+  expect(cheap.modelId).toBe("google/gemini-2.5-flash");
+  expect(cheap.reasoning).toBe("low");
+  expect(cheap.temperature).toBe(0);
+  expect(cheap.compactionModel).toBe("google/gemini-2.5-flash");
+  expect(cheap.fallback).toEqual(base.fallback);
+
+  const gemini = resolveCommandReviewConfig(
+    base,
+    { id: "security", prompt: "p", model: { provider: "gemini", model: "gemini-2.5-pro", fallback: { model: "gemini-2.5-flash" } } },
+    warn
+  );
+  expect(gemini.provider).toBe("google");
+  expect(gemini.apiKey).toBe("fallback-key");
+  expect(gemini.compactionModel).toBeUndefined();
+  expect(gemini.fallback).toEqual({ provider: "google", modelId: "gemini-2.5-flash", apiKey: "fallback-key" });
+  expect(warnings).toEqual([]);
+
+  resolveCommandReviewConfig(base, { id: "gpt", prompt: "p", model: { provider: "openai", model: "gpt-5" } }, warn);
+  expect(warnings[0]).toContain("Command gpt uses provider openai");
+  expect(() =>
+    resolveCommandReviewConfig(base, { id: "broken", prompt: "p", model: { provider: "anthropic" } }, warn)
+  ).toThrow("Command broken: model.model is required");
+});
+
 test("readConfig merges .reviewerc defaults with action inputs", () => {
   const repoRoot = makeTempRepo();
   fs.writeFileSync(
@@ -139,6 +189,123 @@ test("readConfig enables experimental PR explainer from .reviewerc", () => {
   expect(config.review.experimentalPrExplainer).toBe(true);
 });
 
+test("readConfig enables dry run from .reviewerc and resolves dry-run-dir from the workspace", () => {
+  const repoRoot = makeTempRepo();
+  fs.writeFileSync(
+    path.join(repoRoot, ".reviewerc"),
+    [
+      "version: 1",
+      "review:",
+      "  dryRun: true",
+    ].join("\n"),
+    "utf8"
+  );
+
+  const config = withEnv(
+    {
+      GITHUB_WORKSPACE: repoRoot,
+      "INPUT_PROVIDER": "google",
+      "INPUT_MODEL": "gemini-3-pro-preview",
+      "INPUT_API-KEY": "test",
+      "INPUT_DRY-RUN-DIR": "artifacts/dry-run",
+    },
+    () => readConfig()
+  );
+
+  expect(config.dryRun).toBe(true);
+  expect(config.dryRunDir).toBe(path.join(repoRoot, "artifacts", "dry-run"));
+
+  const disabled = withEnv(
+    {
+      GITHUB_WORKSPACE: repoRoot,
+      "INPUT_PROVIDER": "google",
+      "INPUT_MODEL": "gemini-3-pro-preview",
+      "INPUT_API-KEY": "test",
+      "INPUT_DRY-RUN": "false",
+    },
+    () => readConfig()
+  );
+  expect(disabled.dryRun).toBe(false);
+});
+
+test("readConfig resolves review.sarifOutput from the workspace with input override", () => {
+  const repoRoot = makeTempRepo();
+  fs.writeFileSync(
+    path.join(repoRoot, ".reviewerc"),
+    [
+      "version: 1",
+      "review:",
+      "  sarifOutput: reports/findings.sarif",
+    ].join("\n"),
+    "utf8"
+  );
+  const env = {
+    GITHUB_WORKSPACE: repoRoot,
+    "INPUT_PROVIDER": "google",
+    "INPUT_MODEL": "gemini-3-pro-preview",
+    "INPUT_API-KEY": "test",
+  };
+
+  const config = withEnv(env, () => readConfig());
+  expect(config.review.sarifOutput).toBe(path.join(repoRoot, "reports", "findings.sarif"));
+
+  const overridden = withEnv({ ...env, "INPUT_SARIF-OUTPUT": "out.sarif" }, () => readConfig());
+  expect(overridden.review.sarifOutput).toBe(path.join(repoRoot, "out.sarif"));
+});
+
+test("readConfig reads trigger routing from .reviewerc", () => {
+  const repoRoot = makeTempRepo();
+  fs.writeFileSync(
+    path.join(repoRoot, ".reviewerc"),
+    [
+      "version: 1",
+      "review:",
+      "  triggers: [opened, ready_for_review]",
+      "  skipDrafts: true",
+      "  runOnLabels:",
+      "    needs-security-review: [security]",
+      "  mergeGroup: [security]",
+    ].join("\n"),
+    "utf8"
+  );
+
+  const config = withEnv(
+    {
+      GITHUB_WORKSPACE: repoRoot,
+      "INPUT_PROVIDER": "google",
+      "INPUT_MODEL": "gemini-3-pro-preview",
+      "INPUT_API-KEY": "test",
+    },
+    () => readConfig()
+  );
+
+  expect(config.triggers).toEqual({
+    actions: ["opened", "ready_for_review"],
+    skipDrafts: true,
+    runOnLabels: { "needs-security-review": ["security"] },
+    mergeGroup: ["security"],
+  });
+});
+
+test("readConfig reads review.concurrency and defaults to sequential commands", () => {
+  const env = {
+    "INPUT_PROVIDER": "google",
+    "INPUT_MODEL": "gemini-3-pro-preview",
+    "INPUT_API-KEY": "test",
+  };
+  const repoRoot = makeTempRepo();
+  const defaults = withEnv({ ...env, GITHUB_WORKSPACE: repoRoot }, () => readConfig());
+  expect(defaults.concurrency).toEqual({ limit: 1, includeReview: false });
+
+  fs.writeFileSync(
+    path.join(repoRoot, ".reviewerc"),
+    ["version: 1", "review:", "  concurrency: 3", "  concurrentReview: true"].join("\n"),
+    "utf8"
+  );
+  const config = withEnv({ ...env, GITHUB_WORKSPACE: repoRoot }, () => readConfig());
+  expect(config.concurrency).toEqual({ limit: 3, includeReview: true });
+});
+
 test("readConfig rejects invalid YAML", () => {
   const repoRoot = makeTempRepo();
   fs.writeFileSync(path.join(repoRoot, ".reviewerc"), "version: [", "utf8");
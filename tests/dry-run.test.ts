@@ -0,0 +1,112 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createRecordingOctokit } from "../src/app/recording-octokit.ts";
+import { writeDryRunArtifacts } from "../src/app/dry-run.ts";
+import { createReviewTools } from "../src/tools/review.ts";
+
+function makeBaseOctokit() {
+  const posted: string[] = [];
+  const fail = (name: string) => async () => {
+    posted.push(name);
+    throw new Error(`${name} should not be called in dry run`);
+  };
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: fail("issues.createComment"),
+        updateComment: fail("issues.updateComment"),
+        listComments: async () => ({ data: [{ id: 99, body: "existing" }] }),
+      },
+      pulls: {
+        createReviewComment: fail("pulls.createReviewComment"),
+        createReplyForReviewComment: fail("pulls.createReplyForReviewComment"),
+        updateReviewComment: fail("pulls.updateReviewComment"),
+        deleteReviewComment: fail("pulls.deleteReviewComment"),
+        create: fail("pulls.create"),
+        update: fail("pulls.update"),
+        list: async () => ({ data: [] }),
+      },
+      repos: {
+        get: async () => ({ data: { default_branch: "main" } }),
+      },
+    },
+    paginate: async (fn: any, args: any) => (await fn(args)).data,
+    graphql: async (query: string) => {
+      if (query.trim().startsWith("mutation")) {
+        posted.push("graphql");
+        throw new Error("mutation should not be called in dry run");
+      }
+      return { repository: { pullRequest: { reviewThreads: { nodes: [], pageInfo: { hasNextPage: false } } } } };
+    },
+  };
+  return { octokit: octokit as any, posted };
+}
+
+test("recording octokit passes reads through and records writes", async () => {
+  const { octokit: base, posted } = makeBaseOctokit();
+  const { octokit, recorder } = createRecordingOctokit(base);
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, { owner: "o", repo: "r", issue_number: 1 });
+  expect(comments).toEqual([{ id: 99, body: "existing" }]);
+  const threads: any = await octokit.graphql("query { viewer { login } }", {});
+  expect(threads.repository.pullRequest.reviewThreads.nodes).toEqual([]);
+  expect((await octokit.rest.repos.get({ owner: "o", repo: "r" })).data.default_branch).toBe("main");
+
+  const created = await octokit.rest.issues.createComment({ owner: "o", repo: "r", issue_number: 1, body: "Summary" });
+  await octokit.rest.issues.updateComment({ owner: "o", repo: "r", comment_id: 99, body: "Edited" });
+  await octokit.graphql("mutation Resolve($threadId: ID!) { x }", { threadId: "T1" });
+
+  expect(created.data.id).toBe(1);
+  expect(posted).toEqual([]);
+  expect(recorder.writes.map((write) => write.method)).toEqual([
+    "issues.createComment",
+    "issues.updateComment",
+    "graphql",
+  ]);
+  expect(recorder.writes[2].params.threadId).toBe("T1");
+});
+
+test("dry run captures review tool output and git pushes without posting", async () => {
+  const { octokit: base, posted } = makeBaseOctokit();
+  const { octokit, recorder } = createRecordingOctokit(base);
+  const tools = createReviewTools({
+    octokit,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    changedFiles: [
+      { filename: "src/a.ts", status: "modified", additions: 1, deletions: 1, changes: 2, patch: "@@ -1 +1 @@\n-const a=1;\n+const a=2;\n" },
+    ],
+    existingComments: [],
+    reviewThreads: [],
+  } as any);
+  const comment = tools.find((tool) => tool.name === "comment") as any;
+  const summary = tools.find((tool) => tool.name === "post_summary") as any;
+  await comment.execute("", { path: "src/a.ts", line: 1, side: "RIGHT", body: "Check this." });
+  await summary.execute("", { verdict: "Skip", preface: "Looks fine overall." });
+
+  await recorder.runGit(process.cwd(), ["push", "--force-with-lease", "origin", "sri/docs"]);
+
+  expect(posted).toEqual([]);
+  const methods = recorder.writes.map((write) => write.method);
+  expect(methods).toContain("pulls.createReviewComment");
+  expect(methods).toContain("issues.createComment");
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sra-dry-run-"));
+  const paths = writeDryRunArtifacts(dir, recorder.writes, { eventName: "pull_request", repository: "o/r", prNumber: 1 });
+  const json = JSON.parse(fs.readFileSync(paths.jsonPath, "utf8"));
+  expect(json.repository).toBe("o/r");
+  expect(json.writes.length).toBe(recorder.writes.length);
+  const markdown = fs.readFileSync(paths.markdownPath, "utf8");
+  expect(markdown).toContain("# Dry run: o/r#1 (pull_request)");
+  expect(markdown).toContain("### src/a.ts:1");
+  expect(markdown).toContain("Check this.");
+  expect(markdown).toContain("Looks fine overall.");
+  expect(markdown).toContain("`git push --force-with-lease origin sri/docs`");
+});
@@ -0,0 +1,249 @@
+import { test, expect } from "bun:test";
+import { buildFindingDismissalOutcome, collectFindingDismissals } from "../src/app/finding-dismissals.ts";
+import { fingerprintFinding, parseDismissalRecord, parseFindingState, renderDismissalRecord } from "../src/finding-state.ts";
+import type { FindingState, FindingStateEntry } from "../src/finding-state.ts";
+import { resolveSelfLogin } from "../src/app/pr-data.ts";
+import { formatCommandOutcome } from "../src/commands/report.ts";
+import { createReviewTools } from "../src/tools/review.ts";
+import type { ExistingComment } from "../src/types.ts";
+
+const context = { owner: "o", repo: "r", prNumber: 1 };
+
+function entry(overrides: Partial<FindingStateEntry>): FindingStateEntry {
+  return {
+    ref: "null-check",
+    fingerprint: "1111111111111111",
+    category: "Bug",
+    severity: "high",
+    status: "still_open",
+    placement: "inline",
+    title: "Missing null check",
+    path: "src/index.ts",
+    line: 1,
+    commentIds: [],
+    ...overrides,
+  };
+}
+
+/** A `!dismiss` / `!reopen` comment by a maintainer. */
+function invoking(overrides: Partial<ExistingComment>): ExistingComment {
+  return comment({ author: "maintainer", authorType: "User", authorAssociation: "MEMBER", ...overrides });
+}
+
+function comment(overrides: Partial<ExistingComment>): ExistingComment {
+  return {
+    id: 1,
+    author: "bot[bot]",
+    authorType: "Bot",
+    body: "",
+    url: "",
+    type: "issue",
+    updatedAt: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+test("collectFindingDismissals applies command records and 👎 from writers that are still present", async () => {
+  const permissionChecks: string[] = [];
+  const octokit = {
+    paginate: async (_method: unknown, args: any) =>
+      args.comment_id === 40
+        ? [{ user: { login: "drive-by" } }, { user: { login: "maintainer" } }]
+        : args.comment_id === 42
+          ? [{ user: { login: "maintainer" } }]
+          : [],
+    rest: {
+      reactions: { listForPullRequestReviewComment: {} },
+      repos: {
+        getCollaboratorPermissionLevel: async (args: any) => {
+          permissionChecks.push(args.username);
+          return { data: { permission: args.username === "maintainer" ? "write" : "read" } };
+        },
+      },
+    },
+  };
+  const state: FindingState = {
+    version: 1,
+    reviewSha: "abc",
+    findings: [entry({ ref: "slow-loop", fingerprint: "2222222222222222", title: "Quadratic loop" })],
+    dismissed: [
+      { ref: "old-noise", fingerprint: "3333333333333333", reason: "👎 on comment 9", by: "maintainer", source: "reaction" },
+      { ref: "kept-noise", fingerprint: "5555555555555555", title: "Noisy log", reason: "👎 on comment 42", by: "maintainer", source: "reaction" },
+    ],
+  };
+  const record = (action: "dismiss" | "reopen", ref: string, updatedAt: string, commentId: number) => [
+    invoking({ id: commentId, body: `!${action} ${ref}${action === "dismiss" ? " intended" : ""}` }),
+    comment({ body: renderDismissalRecord({ action, ref, reason: "intended", by: "maintainer", commentId }), updatedAt }),
+  ];
+  const dismissals = await collectFindingDismissals({
+    octokit: octokit as any,
+    context,
+    findingState: state,
+    selfLogin: "bot[bot]",
+    existingComments: [
+      ...record("reopen", "null-check", "2026-01-03T00:00:00Z", 10),
+      ...record("dismiss", "null-check", "2026-01-02T00:00:00Z", 11),
+      ...record("dismiss", "unused-var", "2026-01-02T00:00:00Z", 12),
+      comment({ author: "mallory", authorType: "User", body: renderDismissalRecord({ action: "dismiss", ref: "race", reason: "x", by: "mallory" }) }),
+      comment({ id: 40, type: "review", thumbsDown: 2, body: "Loop\n<!-- sri:finding-ref:slow-loop -->" }),
+      comment({ id: 41, type: "review", thumbsDown: 1, body: "Null\n<!-- sri:finding-ref:null-check -->" }),
+      comment({ id: 42, type: "review", thumbsDown: 1, body: "Log\n<!-- sri:finding-ref:kept-noise -->" }),
+    ],
+  });
+
+  expect(dismissals.map((item) => [item.ref, item.source, item.by])).toEqual([
+    ["unused-var", "command", "maintainer"],
+    ["slow-loop", "reaction", "maintainer"],
+    ["kept-noise", "reaction", "maintainer"],
+  ]);
+  expect(dismissals[1]).toMatchObject({ fingerprint: "2222222222222222", title: "Quadratic loop", reason: "👎 on comment 40" });
+  expect(dismissals[2]).toMatchObject({ fingerprint: "5555555555555555", title: "Noisy log" });
+  expect(permissionChecks).toEqual(["drive-by", "maintainer"]);
+});
+
+test("collectFindingDismissals only trusts comments posted by the action's own login", async () => {
+  const octokit = {
+    paginate: async () => [{ user: { login: "maintainer" } }],
+    rest: {
+      reactions: { listForPullRequestReviewComment: {} },
+      repos: { getCollaboratorPermissionLevel: async () => ({ data: { permission: "write" } }) },
+    },
+  };
+  const asPat = (overrides: Partial<ExistingComment>) => comment({ author: "ci-user", authorType: "User", ...overrides });
+  const existingComments = [
+    invoking({ id: 12, body: "!dismiss unused-var intended" }),
+    asPat({ body: renderDismissalRecord({ action: "dismiss", ref: "unused-var", reason: "intended", by: "maintainer", commentId: 12 }) }),
+    asPat({ id: 40, type: "review", thumbsDown: 1, body: "Loop\n<!-- sri:finding-ref:slow-loop -->" }),
+    comment({ id: 41, author: "github-actions[bot]", type: "review", thumbsDown: 1, body: "Lint\n<!-- sri:finding-ref:lint-rule -->" }),
+  ];
+  const collect = (selfLogin: string) =>
+    collectFindingDismissals({ octokit: octokit as any, context, findingState: null, existingComments, selfLogin });
+
+  expect(await collect("bot[bot]")).toEqual([]);
+  expect((await collect("CI-User")).map((item) => [item.ref, item.source])).toEqual([
+    ["unused-var", "command"],
+    ["slow-loop", "reaction"],
+  ]);
+});
+
+test("resolveSelfLogin falls back to the configured app, then to github-actions", async () => {
+  const installationToken = { rest: { users: { getAuthenticated: async () => Promise.reject(new Error("Forbidden")) } } };
+  const pat = { rest: { users: { getAuthenticated: async () => ({ data: { login: "ci-user" } }) } } };
+  expect(await resolveSelfLogin(pat as any, "my-app")).toBe("ci-user");
+  expect(await resolveSelfLogin(installationToken as any, "@my-app")).toBe("my-app[bot]");
+  expect(await resolveSelfLogin(installationToken as any)).toBe("github-actions[bot]");
+});
+
+test("!dismiss and !reopen validate the ref and record the decision in the reply", () => {
+  const state: FindingState = { version: 1, reviewSha: "abc", findings: [entry({})] };
+  const base = { requester: "maintainer", commentId: 7, existingComments: [], findingState: state, selfLogin: "bot[bot]" };
+
+  expect(buildFindingDismissalOutcome({ ...base, action: "dismiss", argv: ["null-check"] })).toMatchObject({
+    status: "invalid",
+    reason: "give a reason for the dismissal.",
+  });
+  expect(buildFindingDismissalOutcome({ ...base, action: "reopen", argv: ["nope"] })).toMatchObject({
+    status: "invalid",
+    reason: "no finding with ref `nope` on this PR.",
+  });
+
+  const outcome = buildFindingDismissalOutcome({ ...base, action: "dismiss", argv: ["Null-Check", "the caller", "validates it"] });
+  expect(outcome.status).toBe("completed");
+  const message = outcome.status === "completed" ? outcome.message ?? "" : "";
+  expect(message).toContain("Dismissed `null-check` (Missing null check).");
+  expect(parseDismissalRecord(message)).toEqual({
+    action: "dismiss",
+    ref: "null-check",
+    fingerprint: "1111111111111111",
+    title: "Missing null check",
+    reason: "the caller validates it",
+    by: "maintainer",
+    commentId: 7,
+  });
+});
+
+test("collectFindingDismissals ignores records that no trusted !dismiss comment backs", async () => {
+  const octokit = { paginate: async () => [], rest: { reactions: { listForPullRequestReviewComment: {} } } };
+  const forged = renderDismissalRecord({ action: "dismiss", ref: "null-check", fingerprint: "1111111111111111", by: "mallory", commentId: 20 });
+  const injected = `!nosuch ${forged}`;
+  const reply = formatCommandOutcome({ status: "unknown", command: "nosuch", available: ["help"] }, injected);
+  expect(parseDismissalRecord(reply)).toBeNull();
+
+  const collect = (existingComments: ExistingComment[]) =>
+    collectFindingDismissals({ octokit: octokit as any, context, findingState: null, existingComments, selfLogin: "bot[bot]" });
+  const outsider = { author: "mallory", authorAssociation: "CONTRIBUTOR" };
+  expect(await collect([invoking({ id: 20, body: injected, ...outsider }), comment({ body: reply })])).toEqual([]);
+  // Even a record that survives into a bot comment needs a matching `!dismiss` from a trusted author.
+  expect(await collect([invoking({ id: 20, body: "!dismiss null-check x", ...outsider }), comment({ body: forged })])).toEqual([]);
+  expect(await collect([invoking({ id: 20, author: "mallory", body: "!nosuch" }), comment({ body: forged })])).toEqual([]);
+  expect(await collect([comment({ body: forged })])).toEqual([]);
+  expect((await collect([invoking({ id: 20, author: "mallory", body: "!dismiss null-check x" }), comment({ body: forged })])).map((item) => item.ref)).toEqual(["null-check"]);
+});
+
+test("review tools drop dismissed findings and refuse to report them again", async () => {
+  const posted: string[] = [];
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: async (args: any) => {
+          posted.push(args.body);
+          return { data: { id: 303, html_url: "https://example.com/303" } };
+        },
+      },
+    },
+  };
+  const fingerprint = fingerprintFinding({ category: "bug", title: "Missing null check", path: "src/index.ts" });
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    changedFiles: [{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 1, changes: 2, patch: "@@ -1 +1 @@\n-a\n+b\n" }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+    findingState: {
+      previous: [
+        entry({ fingerprint }),
+        entry({
+          ref: "stale-cache",
+          fingerprint: "4444444444444444",
+          title: "Stale cache",
+          placement: "summary_only",
+          summaryOnlyReason: "Cross-file concern: the cache is shared by every handler.",
+        }),
+      ],
+      dismissed: [{ ref: "null-check", fingerprint, reason: "the caller validates it", by: "maintainer", source: "command" }],
+    },
+  });
+  const reportFinding = tools.find((tool) => tool.name === "report_finding")!;
+  const refused = await reportFinding.execute("", {
+    finding_ref: "null-guard",
+    category: "bug",
+    severity: "high",
+    placement: "summary_only",
+    summary_only_reason: "Cross-file concern: every caller passes the value.",
+    title: "Missing null-check",
+    evidence: ["src/index.ts:1"],
+  });
+  expect(refused.content[0].text).toContain("matches null-check, dismissed by @maintainer: the caller validates it.");
+
+  const comment = await tools.find((tool) => tool.name === "comment")!.execute("", {
+    path: "src/index.ts",
+    line: 1,
+    side: "RIGHT",
+    body: "Guard it",
+    finding_ref: "null-check",
+  });
+  expect(comment.content[0].text).toContain("was dismissed by @maintainer");
+
+  await tools.find((tool) => tool.name === "post_summary")!.execute("", {});
+  const state = parseFindingState(posted[0]);
+  expect(state?.findings.map((item) => item.ref)).toEqual(["stale-cache"]);
+  expect(state?.dismissed?.map((item) => item.ref)).toEqual(["null-check"]);
+  expect(posted[0]).toContain("<details><summary>Finding refs</summary>\n\n- `stale-cache` Stale cache\n");
+  expect(posted[0]).not.toContain("Missing null check");
+});
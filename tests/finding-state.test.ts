@@ -0,0 +1,230 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fingerprintFinding, parseFindingState, readFindingCode, renderFindingState } from "../src/finding-state.ts";
+import type { FindingStateEntry } from "../src/finding-state.ts";
+import { findLastFindingState } from "../src/app/last-review.ts";
+import { createReviewTools } from "../src/tools/review.ts";
+import type { ExistingComment } from "../src/types.ts";
+
+const patch = `@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n`;
+
+function entry(overrides: Partial<FindingStateEntry>): FindingStateEntry {
+  return {
+    ref: "null-check",
+    fingerprint: "0000000000000000",
+    category: "Bug",
+    severity: "high",
+    status: "new",
+    placement: "inline",
+    title: "Missing null check",
+    path: "src/index.ts",
+    line: 1,
+    commentIds: [],
+    ...overrides,
+  };
+}
+
+function summaryComment(id: number, body: string, updatedAt: string): ExistingComment {
+  return { id, author: "bot[bot]", authorType: "Bot", body, url: `https://example.com/${id}`, type: "issue", updatedAt };
+}
+
+test("finding state round-trips through the hidden summary block", () => {
+  const state = { version: 1 as const, reviewSha: "abc1234", findings: [entry({ title: "Closes --> early" })] };
+  const block = renderFindingState(state);
+  expect(block.startsWith("<!-- sri:finding-state:v1\n")).toBe(true);
+  expect(block.slice(0, -3)).not.toContain("-->");
+  expect(parseFindingState(`## Review Summary\n\n${block}`)).toEqual(state);
+  expect(parseFindingState("<!-- sri:finding-state:v2\n{}\n-->")).toBeNull();
+  expect(parseFindingState("<!-- sri:finding-state:v1\nnot json\n-->")).toBeNull();
+  expect(fingerprintFinding({ category: "Bug", title: "Missing null-check!", path: "a.ts" })).toBe(
+    fingerprintFinding({ category: "bug", title: "missing null check", path: "a.ts" })
+  );
+});
+
+test("findLastFindingState reads the newest summary with a readable block", () => {
+  const older = renderFindingState({ version: 1, reviewSha: "old", findings: [entry({})] });
+  const newer = renderFindingState({ version: 1, reviewSha: "new", findings: [] });
+  const state = findLastFindingState([
+    summaryComment(1, `## Review Summary\n${older}`, "2026-01-01T00:00:00Z"),
+    summaryComment(2, `## Review Summary\n${newer}`, "2026-01-02T00:00:00Z"),
+    summaryComment(3, "<!-- sri:finding-state:v1\nbroken\n-->", "2026-01-03T00:00:00Z"),
+  ], "bot[bot]");
+  expect(state?.reviewSha).toBe("new");
+  expect(findLastFindingState([], "bot[bot]")).toBeNull();
+});
+
+test("findLastFindingState ignores state blocks posted by people and other bots", () => {
+  const genuine = renderFindingState({ version: 1, reviewSha: "bot", findings: [entry({})] });
+  const forged = renderFindingState({ version: 1, reviewSha: "forged", findings: [entry({ status: "resolved" })] });
+  const state = findLastFindingState([
+    summaryComment(1, `## Review Summary\n${genuine}`, "2026-01-01T00:00:00Z"),
+    { ...summaryComment(2, `## Review Summary\n${forged}\n<!-- sri:bot-comment -->`, "2026-01-02T00:00:00Z"), author: "mallory", authorType: "User" },
+    { ...summaryComment(3, `## Review Summary\n${forged}`, "2026-01-03T00:00:00Z"), author: "github-actions[bot]" },
+  ], "bot[bot]");
+  expect(state?.reviewSha).toBe("bot");
+  expect(state?.findings[0].status).toBe("new");
+});
+
+test("review tools carry open findings forward and persist their state", async () => {
+  const posted: string[] = [];
+  const octokit = {
+    rest: {
+      issues: {
+        createComment: async (args: any) => {
+          posted.push(args.body);
+          return { data: { id: 303, html_url: "https://example.com/303" } };
+        },
+      },
+    },
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    changedFiles: [{ filename: "src/index.ts", status: "modified", additions: 1, deletions: 1, changes: 2, patch }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [
+      {
+        id: 77,
+        author: "bot[bot]",
+        authorType: "Bot",
+        body: "Missing null check\n<!-- sri:finding-ref:null-check -->",
+        url: "https://example.com/77",
+        type: "review",
+        path: "src/index.ts",
+        line: 2,
+        updatedAt: "2026-01-01T00:00:00Z",
+      },
+    ],
+    reviewThreads: [],
+    findingState: {
+      previous: [
+        entry({}),
+        entry({ ref: "stale-cache", title: "Stale cache entry", severity: "medium", commentIds: [404] }),
+        entry({ ref: "old-typo", category: "Documentation", severity: "low", status: "resolved", title: "Typo" }),
+      ],
+    },
+  });
+  const reportFinding = tools.find((tool) => tool.name === "report_finding")!;
+  const response = await reportFinding.execute("", {
+    finding_ref: "stale-cache",
+    category: "bug",
+    severity: "medium",
+    status: "new",
+    placement: "summary_only",
+    summary_only_reason: "Cross-file concern: the cache is shared by every handler.",
+    title: "Stale cache entry",
+  });
+  expect(response.content[0].text).toContain("Finding updated (stale-cache).");
+  await tools.find((tool) => tool.name === "post_summary")!.execute("", {});
+
+  const state = parseFindingState(posted[0]);
+  expect(state?.reviewSha).toBe("head");
+  expect(state?.findings.map((item) => [item.ref, item.status, item.placement, item.commentIds])).toEqual([
+    ["null-check", "still_open", "inline", [77]],
+    ["stale-cache", "still_open", "summary_only", []],
+  ]);
+  expect(state?.findings[0]).toMatchObject({ path: "src/index.ts", line: 2 });
+  expect(posted[0]).toContain("**Verdict:** Request Changes");
+  expect(posted[0]).not.toContain("Typo");
+});
+
+test("fingerprints follow the code around a finding rather than its line", () => {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sri-fingerprint-"));
+  const code = "function load(user) {\n  return user.name;\n}\n";
+  fs.writeFileSync(path.join(repoRoot, "before.ts"), code);
+  fs.writeFileSync(path.join(repoRoot, "after.ts"), `// header\n\n\n${code}`);
+  const before = readFindingCode(repoRoot, "before.ts", 2);
+  const after = readFindingCode(repoRoot, "after.ts", 5);
+  expect(before).toBe(after);
+  expect(fingerprintFinding({ category: "Bug", title: "Missing null check", code: before })).toBe(
+    fingerprintFinding({ category: "bug", title: "null check missing", code: after })
+  );
+  expect(fingerprintFinding({ category: "Bug", title: "Missing null check", code: before })).not.toBe(
+    fingerprintFinding({ category: "Bug", title: "Missing null check", code: readFindingCode(repoRoot, "after.ts", 1) })
+  );
+  expect(readFindingCode(repoRoot, "missing.ts", 1)).toBe("");
+  expect(readFindingCode(repoRoot, "../outside.ts", 1)).toBe("");
+});
+
+test("review tools merge a re-reported carried finding and refuse a second comment for it", async () => {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sri-fingerprint-"));
+  fs.mkdirSync(path.join(repoRoot, "src"));
+  fs.writeFileSync(path.join(repoRoot, "src/index.ts"), "// moved\nconst a = 2;\n");
+  const fingerprint = fingerprintFinding({
+    category: "bug",
+    title: "Missing null check",
+    code: readFindingCode(repoRoot, "src/index.ts", 2),
+  });
+  const created: number[] = [];
+  const octokit = {
+    rest: {
+      pulls: {
+        createReviewComment: async () => {
+          created.push(1);
+          return { data: { id: 500, html_url: "https://example.com/500" } };
+        },
+      },
+    },
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    changedFiles: [
+      { filename: "src/index.ts", status: "modified", additions: 2, deletions: 1, changes: 3, patch: `@@ -1,1 +1,2 @@\n+// moved\n-const a = 1;\n+const a = 2;\n` },
+    ],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [
+      {
+        id: 77,
+        author: "bot[bot]",
+        authorType: "Bot",
+        body: "Missing null check\n<!-- sri:finding-ref:null-check -->",
+        url: "https://example.com/77",
+        type: "review",
+        path: "src/index.ts",
+        line: 1,
+        updatedAt: "2026-01-01T00:00:00Z",
+      },
+    ],
+    reviewThreads: [],
+    findingState: { previous: [entry({ fingerprint, line: 1, commentIds: [77] })] },
+    repoRoot,
+  });
+  const response = await tools.find((tool) => tool.name === "report_finding")!.execute("", {
+    finding_ref: "null-guard",
+    category: "bug",
+    severity: "high",
+    status: "new",
+    placement: "inline",
+    title: "Null check missing",
+    evidence: ["src/index.ts:2"],
+  });
+  expect(response.content[0].text).toContain("Finding updated (null-check). null-guard matches null-check");
+
+  const comment = tools.find((tool) => tool.name === "comment")!;
+  const refused = await comment.execute("", { path: "src/index.ts", line: 2, side: "RIGHT", body: "Guard it", finding_ref: "null-guard" });
+  expect(refused.content[0].text).toContain("already posted as comment 77 at src/index.ts:1");
+  expect(created).toHaveLength(0);
+
+  const allowed = await comment.execute("", {
+    path: "src/index.ts",
+    line: 2,
+    side: "RIGHT",
+    body: "Guard it",
+    finding_ref: "null-guard",
+    allow_new_thread: true,
+  });
+  expect(allowed.content[0].text).toBe("Comment posted: 500");
+});
@@ -21,6 +21,7 @@ const actionConfig: ActionConfig = {
   commands: [],
   toolsAllowlist: [],
   outputCommentType: "both",
+  dryRunDir: "sri-dry-run",
 };
 
 const context: ReviewContext = {
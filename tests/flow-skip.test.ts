@@ -1,4 +1,7 @@
 import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
 import { runActionFlow } from "../src/app/flow.ts";
 import type { ActionConfig, ReviewConfig, ReviewContext } from "../src/types.ts";
 
@@ -19,6 +22,7 @@ const actionConfig: ActionConfig = {
   commands: [],
   toolsAllowlist: [],
   outputCommentType: "both",
+  dryRunDir: "sri-dry-run",
 };
 
 const context: ReviewContext = {
@@ -30,7 +34,7 @@ const context: ReviewContext = {
 test("runActionFlow skips large PR after ignore filtering", async () => {
   const fixture = await Bun.file("tests/fixtures/harness/flow-skip.json").json();
   let skipped = false;
-  await runActionFlow({
+  const outcome = await runActionFlow({
     config: actionConfig,
     context,
     octokit: {} as any,
@@ -47,4 +51,26 @@ test("runActionFlow skips large PR after ignore filtering", async () => {
   });
 
   expect(skipped).toBe(true);
+  expect(outcome.verdict).toBe("Skipped");
+  expect(outcome.findingsBySeverity).toEqual({ high: 0, medium: 0, low: 0 });
+});
+
+test("runActionFlow writes an empty SARIF log when it skips the review", async () => {
+  const fixture = await Bun.file("tests/fixtures/harness/flow-skip.json").json();
+  const sarifOutput = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "sri-flow-skip-")), "findings.sarif");
+  await runActionFlow({
+    config: { ...actionConfig, review: { ...baseConfig, sarifOutput } },
+    context,
+    octokit: {} as any,
+    fetchPrDataFn: async () => ({ prInfo: fixture.prInfo, changedFiles: fixture.changedFiles }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [], reviewThreads: [] }),
+    postSkipSummaryFn: async () => {},
+    runReviewFn: async () => {
+      throw new Error("runReview should not be called");
+    },
+  });
+
+  const log = JSON.parse(fs.readFileSync(sarifOutput, "utf8"));
+  expect(log.runs[0].results).toEqual([]);
+  expect(log.runs[0].versionControlProvenance[0].revisionId).toBe(fixture.prInfo.headSha);
 });
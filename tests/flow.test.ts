@@ -20,6 +20,7 @@ const actionConfig: ActionConfig = {
   commands: [],
   toolsAllowlist: [],
   outputCommentType: "both",
+  dryRunDir: "sri-dry-run",
 };
 
 const context: ReviewContext = {
@@ -111,6 +112,42 @@ test("runActionFlow passes scope warning and previous summary into runReview", a
   expect(captured.fullPrChangedFiles).toEqual(files);
 });
 
+test("runActionFlow reviews the whole PR when a full review is requested", async () => {
+  const comments: ExistingComment[] = [
+    {
+      id: 1,
+      author: "bot",
+      body: "## Review Summary\n\n**Verdict:** Approve\n\n<!-- sri:last-reviewed-sha:abcdef1 -->",
+      url: "https://example.com/comment/1",
+      type: "issue",
+      updatedAt: "2026-01-01T00:00:00Z",
+    },
+  ];
+  let scoped = false;
+  let captured: any = null;
+  await runActionFlow({
+    config: { ...actionConfig, review: { ...config, maxFiles: 5 } },
+    context,
+    octokit: {} as any,
+    fullReview: true,
+    fetchPrDataFn: async () => ({ prInfo, changedFiles: files }),
+    fetchExistingCommentsFn: async () => ({ existingComments: comments, reviewThreads: [] }),
+    fetchChangesSinceReviewFn: async () => {
+      scoped = true;
+      throw new Error("should not scope");
+    },
+    runReviewFn: async (input) => {
+      captured = input;
+    },
+    logInfo: () => {},
+  });
+
+  expect(scoped).toBe(false);
+  expect(captured.changedFiles).toEqual(files);
+  expect(captured.lastReviewedSha).toBeNull();
+  expect(captured.previousVerdict).toBe("Approve");
+});
+
 test("runActionFlow posts no-new-changes summary and skips review when scope says skip", async () => {
   const comments: ExistingComment[] = [
     {
@@ -234,3 +271,42 @@ test("runActionFlow logs scope shadow telemetry for skip decisions", async () =>
   expect(line).toContain("always_review_files_after_ignore=2");
   expect(line).toContain("file_delta_vs_always_review=2");
 });
+
+test("runActionFlow reads the last reviewed SHA from a submitted review body", async () => {
+  const comments: ExistingComment[] = [
+    {
+      id: 7,
+      author: "bot",
+      body: "## Review Summary\n\n**Verdict:** Request Changes\n\n<!-- sri:last-reviewed-sha:1234abc -->",
+      url: "https://example.com/review/7",
+      type: "pull_review",
+      updatedAt: "2026-01-01T00:00:00Z",
+    },
+  ];
+
+  let captured: any = null;
+  await runActionFlow({
+    config: {
+      ...actionConfig,
+      review: { ...config, maxFiles: 5 },
+    },
+    context,
+    octokit: {} as any,
+    fetchPrDataFn: async () => ({ prInfo, changedFiles: files }),
+    fetchExistingCommentsFn: async () => ({ existingComments: comments, reviewThreads: [] }),
+    fetchChangesSinceReviewFn: async (_octokit, _context, baseSha) => ({
+      files,
+      warning: null,
+      decision: REVIEW_SCOPE_DECISIONS.REVIEW,
+      reasonCode: REVIEW_SCOPE_REASON_CODES.SCOPED_REVIEW,
+      reason: `Scoped from ${baseSha}`,
+    }),
+    runReviewFn: async (input) => {
+      captured = input;
+    },
+  });
+
+  expect(captured.lastReviewedSha).toBe("1234abc");
+  expect(captured.previousVerdict).toBe("Request Changes");
+  expect(captured.previousReviewUrl).toBe("https://example.com/review/7");
+});
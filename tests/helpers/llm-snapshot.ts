@@ -550,6 +550,7 @@ async function runScheduleScenario(
     },
     toolsAllowlist: ["filesystem", "repo.write", "github.pr.manage"],
     outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
   };
 
   const prevJob = process.env.GITHUB_JOB;
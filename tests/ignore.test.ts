@@ -0,0 +1,177 @@
+import { test, expect } from "bun:test";
+import { execSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { applyIgnorePatterns, fetchReviewIgnore, isIgnoredPath, parseReviewIgnore, readReviewIgnore } from "../src/app/ignore.ts";
+import { findLineSuppressions } from "../src/app/suppressions.ts";
+import { createReviewTools } from "../src/tools/review.ts";
+import type { ChangedFile } from "../src/types.ts";
+
+function makeRepo(files: Record<string, string>): string {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sri-ignore-"));
+  for (const [name, content] of Object.entries(files)) {
+    fs.mkdirSync(path.dirname(path.join(repoRoot, name)), { recursive: true });
+    fs.writeFileSync(path.join(repoRoot, name), content);
+  }
+  return repoRoot;
+}
+
+function changed(filename: string, status = "modified", patch = "@@ -5 +5 @@\n-a\n+b\n"): ChangedFile {
+  return { filename, status, additions: 1, deletions: 1, changes: 2, patch };
+}
+
+test(".reviewignore follows gitignore semantics", async () => {
+  const patterns = parseReviewIgnore(
+    ["# generated output", "dist/", "/docs/*.md", "*.snap", "!keep.snap", "\\#notes", "", "fixtures"].join("\n")
+  );
+  expect(patterns).toEqual([
+    "**/dist/**",
+    "docs/*.md",
+    "docs/*.md/**",
+    "**/*.snap",
+    "**/*.snap/**",
+    "!**/keep.snap",
+    "!**/keep.snap/**",
+    "**/#notes",
+    "**/#notes/**",
+    "**/fixtures",
+    "**/fixtures/**",
+  ]);
+  expect(isIgnoredPath("packages/app/dist/index.js", patterns)).toBe(true);
+  expect(isIgnoredPath("dist", patterns)).toBe(false);
+  expect(isIgnoredPath("docs/guide.md", patterns)).toBe(true);
+  expect(isIgnoredPath("packages/docs/guide.md", patterns)).toBe(false);
+  expect(isIgnoredPath("tests/__snapshots__/a.snap", patterns)).toBe(true);
+  expect(isIgnoredPath("tests/keep.snap", patterns)).toBe(false);
+  expect(isIgnoredPath(".github/fixtures/pr.json", patterns)).toBe(true);
+
+  const repoRoot = makeRepo({ ".reviewignore": "vendor/\n" });
+  execSync("git init -b main && git add . && git -c user.name=t -c user.email=t@example.com commit -m base", {
+    cwd: repoRoot,
+    stdio: "ignore",
+  });
+  fs.writeFileSync(path.join(repoRoot, ".reviewignore"), "src/\n");
+  expect(await readReviewIgnore(repoRoot, "HEAD")).toEqual(["**/vendor/**"]);
+  expect(await readReviewIgnore(repoRoot, "missing")).toEqual([]);
+});
+
+test("fetchReviewIgnore reads .reviewignore at the base commit", async () => {
+  const requests: unknown[] = [];
+  const octokit = {
+    rest: {
+      repos: {
+        getContent: async (args: any) => {
+          requests.push(args);
+          if (args.ref !== "base") throw Object.assign(new Error("Not Found"), { status: 404 });
+          return { data: { type: "file", encoding: "base64", content: Buffer.from("vendor/\n").toString("base64") } };
+        },
+      },
+    },
+  };
+  const context = { owner: "o", repo: "r" };
+  expect(await fetchReviewIgnore(octokit as any, context, "base")).toEqual(["**/vendor/**"]);
+  expect(await fetchReviewIgnore(octokit as any, context, "other")).toEqual([]);
+  expect(requests[0]).toEqual({ owner: "o", repo: "r", path: ".reviewignore", ref: "base" });
+});
+
+test("applyIgnorePatterns drops files with an sri-ignore-file directive", () => {
+  const repoRoot = makeRepo({
+    "src/generated.ts": "// sri-ignore-file\nexport const table = [];\n",
+    "scripts/build.py": "#!/usr/bin/env python\n# sri-ignore-file: vendored\n",
+    "src/app.ts": 'const marker = "sri-ignore-file";\n',
+    "src/late.ts": "export const a = 1;\n// sri-ignore-file\n",
+    "src/new.ts": "/**\n * sri-ignore-file\n */\n// sri-ignore-file\nexport const b = 2;\n",
+  });
+  const files = [
+    changed("src/generated.ts"),
+    changed("scripts/build.py"),
+    changed("src/app.ts"),
+    changed("src/gone.ts", "removed"),
+    changed("x.lock"),
+    changed("src/late.ts"),
+    changed("src/new.ts", "modified", "@@ -3,0 +4 @@\n+// sri-ignore-file\n"),
+  ];
+  expect(applyIgnorePatterns(files, ["*.lock"], repoRoot).map((file) => file.filename)).toEqual([
+    "src/app.ts",
+    "src/gone.ts",
+    "src/late.ts",
+    "src/new.ts",
+  ]);
+  expect(applyIgnorePatterns(files, ["*.lock"]).map((file) => file.filename)).toHaveLength(6);
+  // Without a patch (binary or too large), the directive may be new: only a pure rename keeps it.
+  const { patch: _patch, ...unpatched } = changed("src/generated.ts");
+  expect(applyIgnorePatterns([unpatched], [], repoRoot)).toHaveLength(1);
+  expect(applyIgnorePatterns([{ ...unpatched, status: "renamed", additions: 0, deletions: 0, changes: 0 }], [], repoRoot)).toEqual([]);
+  // A narrower scope still sees the directive the PR added.
+  expect(applyIgnorePatterns([changed("src/new.ts", "modified", "@@ -5 +5 @@\n-a\n+b\n")], [], repoRoot, files)).toHaveLength(1);
+});
+
+test("sri-ignore-next-line suppresses matching findings and comments", async () => {
+  const repoRoot = makeRepo({
+    "src/index.ts": [
+      "// sri-ignore-next-line: security token is a public test fixture",
+      'const token = "abc";',
+      "/* sri-ignore-next-line */",
+      "eval(code);",
+    ].join("\n"),
+  });
+  expect(findLineSuppressions(repoRoot, "src/index.ts", [2], "Bug")).toEqual([]);
+  expect(findLineSuppressions(repoRoot, "src/index.ts", [4], "Bug")).toEqual([{ line: 3, category: "all", reason: "" }]);
+  expect(findLineSuppressions(repoRoot, "src/index.ts", [4], "Bug", new Set([3]))).toEqual([]);
+  expect(findLineSuppressions(repoRoot, "src/index.ts", [4], "Bug", null)).toEqual([]);
+
+  let posted = 0;
+  const octokit = {
+    rest: {
+      pulls: {
+        createReviewComment: async () => {
+          posted += 1;
+          return { data: { id: 500, html_url: "https://example.com/500" } };
+        },
+      },
+    },
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "head",
+    modelId: "model",
+    reviewSha: "head",
+    changedFiles: [changed("src/index.ts", "modified", "@@ -1,4 +1,4 @@\n // x\n-a\n+b\n /* y */\n-c\n+d\n")],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+    repoRoot,
+  });
+  const reportFinding = tools.find((tool) => tool.name === "report_finding")!;
+  const refused = await reportFinding.execute("", {
+    finding_ref: "hardcoded-token",
+    category: "security",
+    severity: "high",
+    placement: "inline",
+    title: "Hardcoded token",
+    evidence: ["src/index.ts:2"],
+  });
+  expect(refused.content[0].text).toBe(
+    "src/index.ts:2 is suppressed for Security findings by the sri-ignore-next-line comment on line 1: token is a public test fixture. Do not post feedback there. Finding hardcoded-token was not recorded."
+  );
+  const recorded = await reportFinding.execute("", {
+    finding_ref: "token-naming",
+    category: "design",
+    severity: "low",
+    placement: "inline",
+    title: "Token name is vague",
+    evidence: ["src/index.ts:2"],
+  });
+  expect(recorded.content[0].text).toContain("Finding recorded (token-naming).");
+
+  const comment = tools.find((tool) => tool.name === "comment")!;
+  const blocked = await comment.execute("", { path: "src/index.ts", line: 4, side: "RIGHT", body: "Avoid eval." });
+  expect(blocked.content[0].text).toContain("suppressed for every category");
+  const allowed = await comment.execute("", { path: "src/index.ts", line: 2, side: "RIGHT", body: "Rename.", finding_ref: "token-naming" });
+  expect(allowed.content[0].text).toBe("Comment posted: 500");
+  expect(posted).toBe(1);
+});
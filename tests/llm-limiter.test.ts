@@ -0,0 +1,66 @@
+import { test, expect } from "bun:test";
+import { createAssistantMessageEventStream, getModel } from "@mariozechner/pi-ai";
+import { createLlmLimiter } from "../src/agent/llm-limiter.ts";
+
+const model = getModel("google", "gemini-2.5-flash");
+
+function doneMessage(text: string) {
+  return {
+    role: "assistant" as const,
+    content: [{ type: "text" as const, text }],
+    api: model.api,
+    provider: model.provider,
+    model: model.id,
+    usage: {
+      input: 0,
+      output: 0,
+      cacheRead: 0,
+      cacheWrite: 0,
+      totalTokens: 0,
+      cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+    },
+    stopReason: "stop" as const,
+    timestamp: 0,
+  };
+}
+
+test("createLlmLimiter holds requests beyond the limit until a stream ends", async () => {
+  const limiter = createLlmLimiter(1);
+  const started: string[] = [];
+  const pending: Array<() => void> = [];
+  const streamFn = ((_model: any, context: any) => {
+    const label = context.systemPrompt;
+    started.push(label);
+    const stream = createAssistantMessageEventStream();
+    pending.push(() => stream.push({ type: "done", reason: "stop", message: doneMessage(label) }));
+    return stream;
+  }) as any;
+  const limited = limiter.wrap(streamFn);
+
+  const first = limited(model, { systemPrompt: "first", messages: [] });
+  const second = limited(model, { systemPrompt: "second", messages: [] });
+  await Bun.sleep(0);
+  expect(started).toEqual(["first"]);
+  expect(limiter.active()).toBe(1);
+
+  pending.shift()?.();
+  expect((await first.result()).content).toEqual([{ type: "text", text: "first" }]);
+  await Bun.sleep(0);
+  expect(started).toEqual(["first", "second"]);
+
+  pending.shift()?.();
+  await second.result();
+  await Bun.sleep(0);
+  expect(limiter.active()).toBe(0);
+});
+
+test("createLlmLimiter turns a throwing stream function into an error event", async () => {
+  const limiter = createLlmLimiter(2);
+  const limited = limiter.wrap((() => {
+    throw new Error("boom");
+  }) as any);
+  const result = await limited(model, { messages: [] }).result();
+  expect(result.stopReason).toBe("error");
+  expect(result.errorMessage).toBe("boom");
+  expect(limiter.active()).toBe(0);
+});
@@ -0,0 +1,144 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execSync } from "node:child_process";
+import { readLocalPrData } from "../src/app/local-git.ts";
+import { parseLocalReviewArgs, renderLocalReview, runLocalReview } from "../src/app/local-review.ts";
+import type { ActionConfig } from "../src/types.ts";
+
+function initRepo(): string {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sra-local-"));
+  execSync("git init -b main", { cwd: repoRoot, stdio: "ignore" });
+  execSync("git config user.name \"Test\"", { cwd: repoRoot });
+  execSync("git config user.email \"test@example.com\"", { cwd: repoRoot });
+  fs.writeFileSync(path.join(repoRoot, "keep.ts"), "export const a = 1;\n", "utf8");
+  fs.writeFileSync(path.join(repoRoot, "old.ts"), "export const moved = true;\nexport const extra = 1;\n", "utf8");
+  fs.writeFileSync(path.join(repoRoot, "gone.ts"), "export const gone = 1;\n", "utf8");
+  execSync("git add . && git commit -m \"base\"", { cwd: repoRoot, stdio: "ignore" });
+  execSync("git checkout -b feature", { cwd: repoRoot, stdio: "ignore" });
+  fs.writeFileSync(path.join(repoRoot, "keep.ts"), "export const a = 2;\n", "utf8");
+  fs.writeFileSync(path.join(repoRoot, "added.ts"), "export const b = 1;\n", "utf8");
+  fs.rmSync(path.join(repoRoot, "gone.ts"));
+  execSync("git mv old.ts new.ts", { cwd: repoRoot });
+  execSync("git add -A && git commit -m \"first change\"", { cwd: repoRoot, stdio: "ignore" });
+  fs.writeFileSync(path.join(repoRoot, "added.ts"), "export const b = 2;\n", "utf8");
+  execSync("git add -A && git commit -m \"second change\"", { cwd: repoRoot, stdio: "ignore" });
+  return repoRoot;
+}
+
+function makeConfig(repoRoot: string): ActionConfig {
+  return {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 10,
+      ignorePatterns: [],
+      repoRoot,
+      debug: false,
+      reasoning: "off",
+    },
+    reviewRun: [],
+    commands: [],
+    toolsAllowlist: ["filesystem"],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+  };
+}
+
+test("readLocalPrData builds PR info and changed files from a git range", async () => {
+  const repoRoot = initRepo();
+  const { prInfo, changedFiles } = await readLocalPrData({ repoRoot, base: "main", head: "HEAD" });
+
+  expect(prInfo.title).toBe("first change");
+  expect(prInfo.body).toBe("- second change\n- first change");
+  expect(prInfo.author).toBe("Test");
+  expect(prInfo.headSha).toBe(execSync("git rev-parse HEAD", { cwd: repoRoot }).toString().trim());
+  expect(prInfo.baseSha).toBe(execSync("git rev-parse main", { cwd: repoRoot }).toString().trim());
+
+  const byName = new Map(changedFiles.map((file) => [file.filename, file]));
+  expect(byName.get("keep.ts")).toMatchObject({ status: "modified", additions: 1, deletions: 1, changes: 2 });
+  expect(byName.get("keep.ts")?.patch?.startsWith("@@ -1 +1 @@")).toBe(true);
+  expect(byName.get("added.ts")).toMatchObject({ status: "added", additions: 1, deletions: 0 });
+  expect(byName.get("gone.ts")).toMatchObject({ status: "removed", additions: 0, deletions: 1 });
+  expect(byName.get("new.ts")).toMatchObject({ status: "renamed", previous_filename: "old.ts" });
+});
+
+test("readLocalPrData rejects unknown refs", async () => {
+  const repoRoot = initRepo();
+  await expect(readLocalPrData({ repoRoot, base: "nope", head: "HEAD" })).rejects.toThrow("Unknown git ref: nope");
+});
+
+test("parseLocalReviewArgs reads flags with defaults", () => {
+  expect(parseLocalReviewArgs([])).toEqual({ base: "main", head: "HEAD" });
+  expect(parseLocalReviewArgs(["--base", "origin/main", "--head=feature", "--output", "review.md"])).toEqual({
+    base: "origin/main",
+    head: "feature",
+    output: "review.md",
+  });
+  expect(() => parseLocalReviewArgs(["--what"])).toThrow("Unknown option: --what");
+  expect(() => parseLocalReviewArgs(["--base"])).toThrow("Missing value for --base");
+});
+
+test("runLocalReview renders summary and inline comments instead of posting", async () => {
+  const repoRoot = initRepo();
+  const outputPath = path.join(repoRoot, "review.md");
+  let reviewedFiles: string[] = [];
+
+  const writes = await runLocalReview({
+    config: makeConfig(repoRoot),
+    args: { base: "main", head: "HEAD", output: outputPath },
+    logInfo: () => {},
+    runReviewFn: async (input) => {
+      reviewedFiles = input.changedFiles.map((file) => file.filename);
+      const files = await input.octokit.paginate(input.octokit.rest.pulls.listFiles, {
+        owner: input.context.owner,
+        repo: input.context.repo,
+        pull_number: input.context.prNumber,
+        per_page: 100,
+      });
+      expect(files.length).toBe(4);
+      await input.octokit.rest.pulls.createReviewComment({
+        owner: input.context.owner,
+        repo: input.context.repo,
+        pull_number: input.context.prNumber,
+        commit_id: input.prInfo.headSha,
+        path: "keep.ts",
+        line: 1,
+        side: "RIGHT",
+        body: "Value changed.\n\n<!-- sri:bot-comment -->",
+      });
+      const summary = await input.octokit.rest.issues.createComment({
+        owner: input.context.owner,
+        repo: input.context.repo,
+        issue_number: input.context.prNumber,
+        body: "## Review Summary\n\nDraft",
+      });
+      await input.octokit.rest.issues.updateComment({
+        owner: input.context.owner,
+        repo: input.context.repo,
+        comment_id: summary.data.id,
+        body: "## Review Summary\n\nFinal\n\n<!-- sri:last-reviewed-sha:abc -->",
+      });
+    },
+  });
+
+  expect(reviewedFiles.sort()).toEqual(["added.ts", "gone.ts", "keep.ts", "new.ts"]);
+  expect(writes.map((write) => write.method)).toEqual([
+    "pulls.createReviewComment",
+    "issues.createComment",
+    "issues.updateComment",
+  ]);
+  const markdown = fs.readFileSync(outputPath, "utf8");
+  expect(markdown).toContain("# Local review: main...HEAD");
+  expect(markdown).toContain("Final");
+  expect(markdown).not.toContain("Draft");
+  expect(markdown).toContain("### keep.ts:1");
+  expect(markdown).toContain("Value changed.");
+  expect(markdown).not.toContain("<!--");
+});
+
+test("renderLocalReview notes empty output", () => {
+  expect(renderLocalReview([], { base: "main", head: "HEAD" })).toContain("_No review output was produced._");
+});
@@ -1,5 +1,5 @@
 import { test, expect } from "bun:test";
-import { resolveRunModeFromEvent, shouldHandleIssueComment } from "../src/app/mode.ts";
+import { resolveRunModeFromEvent, shouldHandleIssueComment, shouldHandleReviewComment } from "../src/app/mode.ts";
 
 test("resolveRunModeFromEvent handles pull_request", () => {
   const mode = resolveRunModeFromEvent("pull_request", { pull_request: { number: 5 } });
@@ -12,12 +12,15 @@ test("resolveRunModeFromEvent handles pull_request", () => {
 test("resolveRunModeFromEvent handles issue_comment for PR", () => {
   const mode = resolveRunModeFromEvent("issue_comment", {
     issue: { number: 7, pull_request: { url: "https://example.com" } },
-    comment: { body: "!security" },
+    comment: { id: 70, body: "!security", user: { login: "octocat" }, author_association: "CONTRIBUTOR" },
   });
   expect(mode.mode).toBe("issue_comment");
   if (mode.mode === "issue_comment") {
     expect(mode.isPullRequest).toBe(true);
     expect(mode.prNumber).toBe(7);
+    expect(mode.commentId).toBe(70);
+    expect(mode.author).toBe("octocat");
+    expect(mode.authorAssociation).toBe("CONTRIBUTOR");
   }
 });
 
@@ -62,6 +65,16 @@ test("resolveRunModeFromEvent handles schedule", () => {
   }
 });
 
+test("resolveRunModeFromEvent handles push", () => {
+  const mode = resolveRunModeFromEvent("push", {
+    ref: "refs/heads/main",
+    before: "abc",
+    after: "def",
+    repository: { default_branch: "main" },
+  });
+  expect(mode).toEqual({ mode: "push", ref: "refs/heads/main", before: "abc", after: "def", defaultBranch: "main" });
+});
+
 test("resolveRunModeFromEvent handles workflow_dispatch", () => {
   const mode = resolveRunModeFromEvent("workflow_dispatch", {});
   expect(mode.mode).toBe("schedule");
@@ -69,3 +82,55 @@ test("resolveRunModeFromEvent handles workflow_dispatch", () => {
     expect(mode.trigger).toBe("workflow_dispatch");
   }
 });
+
+test("resolveRunModeFromEvent handles pull_request_review_comment replies", () => {
+  const mode = resolveRunModeFromEvent("pull_request_review_comment", {
+    action: "created",
+    pull_request: { number: 9 },
+    comment: { id: 55, in_reply_to_id: 50, user: { login: "alice", type: "User" }, author_association: "MEMBER" },
+  });
+  expect(mode).toEqual({
+    mode: "review_comment",
+    prNumber: 9,
+    action: "created",
+    commentId: 55,
+    inReplyToId: 50,
+    author: "alice",
+    authorType: "User",
+    authorAssociation: "MEMBER",
+  });
+  expect(shouldHandleReviewComment(mode, () => {})).toBe(true);
+});
+
+test("shouldHandleReviewComment skips new threads, edits, bot replies, and untrusted authors", () => {
+  const base = { action: "created", pull_request: { number: 9 } };
+  const messages: string[] = [];
+  const log = (message: string) => messages.push(message);
+  const newThread = resolveRunModeFromEvent("pull_request_review_comment", {
+    ...base,
+    comment: { id: 55, user: { login: "alice", type: "User" } },
+  });
+  const edited = resolveRunModeFromEvent("pull_request_review_comment", {
+    ...base,
+    action: "edited",
+    comment: { id: 55, in_reply_to_id: 50, user: { login: "alice", type: "User" } },
+  });
+  const bot = resolveRunModeFromEvent("pull_request_review_comment", {
+    ...base,
+    comment: { id: 55, in_reply_to_id: 50, user: { login: "github-actions[bot]", type: "Bot" } },
+  });
+  const outsider = resolveRunModeFromEvent("pull_request_review_comment", {
+    ...base,
+    comment: { id: 55, in_reply_to_id: 50, user: { login: "mallory", type: "User" }, author_association: "CONTRIBUTOR" },
+  });
+  expect(shouldHandleReviewComment(newThread, log)).toBe(false);
+  expect(shouldHandleReviewComment(edited, log)).toBe(false);
+  expect(shouldHandleReviewComment(bot, log)).toBe(false);
+  expect(shouldHandleReviewComment(outsider, log)).toBe(false);
+  expect(messages).toEqual([
+    "Review comment starts a new thread. Skipping thread reply.",
+    "Review comment action edited ignored.",
+    "Review comment by github-actions[bot] is from a bot. Skipping thread reply.",
+    "Review comment by mallory (CONTRIBUTOR) is not from OWNER/MEMBER/COLLABORATOR. Skipping thread reply.",
+  ]);
+});
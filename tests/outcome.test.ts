@@ -0,0 +1,62 @@
+import { test, expect } from "bun:test";
+import { evaluateFailOn, parseFailOn, setReviewOutputs, skippedReviewOutcome } from "../src/app/outcome.ts";
+import type { ReviewOutcome } from "../src/types.ts";
+
+function makeOutcome(overrides: Partial<ReviewOutcome>): ReviewOutcome {
+  return { ...skippedReviewOutcome(), ...overrides };
+}
+
+test("parseFailOn accepts comma-separated conditions and rejects unknown ones", () => {
+  expect(parseFailOn("")).toEqual([]);
+  expect(parseFailOn("none")).toEqual([]);
+  expect(parseFailOn(" High, request-changes ,high")).toEqual(["high", "request-changes"]);
+  expect(() => parseFailOn("critical")).toThrow("Invalid fail-on: critical");
+});
+
+test("evaluateFailOn gates on severity thresholds and the verdict", () => {
+  const outcome = makeOutcome({
+    verdict: "Request Changes",
+    findingsBySeverity: { high: 0, medium: 2, low: 1 },
+  });
+  expect(evaluateFailOn([], outcome)).toBeNull();
+  expect(evaluateFailOn(["high"], outcome)).toBeNull();
+  expect(evaluateFailOn(["medium"], outcome)).toBe(
+    "Review failed the fail-on policy: unresolved findings at or above medium severity (2 medium)."
+  );
+  expect(evaluateFailOn(["high", "request-changes"], outcome)).toBe(
+    "Review failed the fail-on policy: verdict is Request Changes."
+  );
+  expect(evaluateFailOn(["low"], makeOutcome({ verdict: "Approve" }))).toBeNull();
+});
+
+test("setReviewOutputs exposes verdict, counts and billing as strings", () => {
+  const outputs: Record<string, string> = {};
+  setReviewOutputs(
+    makeOutcome({
+      verdict: "Approve",
+      findingsBySeverity: { high: 0, medium: 0, low: 1 },
+      findingsByStatus: { new: 1, still_open: 0, resolved: 2 },
+      inlineComments: 3,
+      suggestions: 1,
+      billing: { input: 100, output: 20, total: 120, cost: 0.0125 },
+    }),
+    (name, value) => {
+      outputs[name] = value;
+    }
+  );
+  expect(outputs).toEqual({
+    verdict: "Approve",
+    "findings-high": "0",
+    "findings-medium": "0",
+    "findings-low": "1",
+    "findings-new": "1",
+    "findings-still-open": "0",
+    "findings-resolved": "2",
+    "inline-comments": "3",
+    suggestions: "1",
+    "tokens-input": "100",
+    "tokens-output": "20",
+    "tokens-total": "120",
+    cost: "0.012500",
+  });
+});
@@ -0,0 +1,209 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { execSync } from "node:child_process";
+import { renderPushAuditReport, runPushAudit } from "../src/app/push-audit.ts";
+import type { ActionConfig, ReviewOutcome } from "../src/types.ts";
+
+function initRepo(): { repoRoot: string; before: string; after: string } {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sra-push-"));
+  execSync("git init -b main", { cwd: repoRoot, stdio: "ignore" });
+  execSync("git config user.name \"Test\"", { cwd: repoRoot });
+  execSync("git config user.email \"test@example.com\"", { cwd: repoRoot });
+  fs.writeFileSync(path.join(repoRoot, "a.ts"), "export const a = 1;\n", "utf8");
+  execSync("git add . && git commit -m \"base\"", { cwd: repoRoot, stdio: "ignore" });
+  const before = execSync("git rev-parse HEAD", { cwd: repoRoot }).toString().trim();
+  fs.writeFileSync(path.join(repoRoot, "a.ts"), "export const a = 2;\n", "utf8");
+  execSync("git add . && git commit -m \"hotfix straight to main\"", { cwd: repoRoot, stdio: "ignore" });
+  const after = execSync("git rev-parse HEAD", { cwd: repoRoot }).toString().trim();
+  return { repoRoot, before, after };
+}
+
+function makeConfig(repoRoot: string): ActionConfig {
+  return {
+    review: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 10,
+      ignorePatterns: [],
+      repoRoot,
+      debug: false,
+      reasoning: "off",
+      checkRun: true,
+    },
+    reviewRun: [],
+    commands: [],
+    toolsAllowlist: ["filesystem"],
+    outputCommentType: "both",
+    dryRunDir: "sri-dry-run",
+  };
+}
+
+function outcomeWith(high: number): ReviewOutcome {
+  return {
+    verdict: high > 0 ? "Request Changes" : "Approve",
+    findingsBySeverity: { high, medium: 0, low: 0 },
+    findingsByStatus: { new: high, still_open: 0, resolved: 0 },
+    inlineComments: 0,
+    suggestions: 0,
+    billing: { input: 0, output: 0, total: 0, cost: 0 },
+  };
+}
+
+function makeOctokit() {
+  const calls: Array<{ type: string; args: any }> = [];
+  const octokit = {
+    rest: {
+      issues: {
+        create: async (args: any) => {
+          calls.push({ type: "issue", args });
+          return { data: { number: 77 } };
+        },
+        createComment: async (args: any) => {
+          calls.push({ type: "comment", args });
+          return { data: { id: 5, html_url: "https://github.com/o/r/pull/9#issuecomment-5" } };
+        },
+      },
+    },
+  };
+  return { octokit, calls };
+}
+
+test("runPushAudit files an issue for direct pushes with findings", async () => {
+  const { repoRoot, before, after } = initRepo();
+  const { octokit, calls } = makeOctokit();
+  let reviewInput: any = null;
+  const outcome = await runPushAudit({
+    config: makeConfig(repoRoot),
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    mode: { mode: "push", ref: "refs/heads/main", before, after, defaultBranch: "main" },
+    findMergedPullRequestFn: async () => null,
+    runReviewFn: async (input) => {
+      reviewInput = input;
+      await input.octokit.rest.issues.createComment({
+        owner: "o",
+        repo: "r",
+        issue_number: 0,
+        body: "## Review Summary\n\nMissing guard, see [a.ts:1 (RIGHT, comment)](local://pulls.createReviewComment/2).",
+      });
+      return outcomeWith(1);
+    },
+    logInfo: () => {},
+  });
+
+  expect(outcome.findingsBySeverity.high).toBe(1);
+  expect(reviewInput.config.checkRun).toBe(false);
+  expect(reviewInput.prInfo.title).toBe("Post-merge audit of main: hotfix straight to main");
+  expect(reviewInput.changedFiles.map((file: any) => file.filename)).toEqual(["a.ts"]);
+  expect(calls.length).toBe(1);
+  expect(calls[0].type).toBe("issue");
+  expect(calls[0].args.title).toBe(`Post-merge audit: 1 finding(s) in ${before.slice(0, 7)}..${after.slice(0, 7)}`);
+  expect(calls[0].args.body).toContain("Missing guard, see a.ts:1 (RIGHT, comment).");
+  expect(calls[0].args.body).toContain("<!-- sri:push-audit -->");
+});
+
+test("runPushAudit comments on the merged PR and skips PRs reviewed at their final head", async () => {
+  const { repoRoot, before, after } = initRepo();
+  const mode = { mode: "push" as const, ref: "refs/heads/main", before, after, defaultBranch: "main" };
+  const reviewedSummary = {
+    id: 1,
+    author: "github-actions[bot]",
+    authorType: "Bot",
+    body: "<!-- sri:last-reviewed-sha:feedface -->",
+    url: "",
+    type: "issue" as const,
+    updatedAt: "2026-01-01T00:00:00Z",
+  };
+
+  const first = makeOctokit();
+  await runPushAudit({
+    config: makeConfig(repoRoot),
+    octokit: first.octokit as any,
+    owner: "o",
+    repo: "r",
+    mode,
+    findMergedPullRequestFn: async () => ({ number: 9, headSha: "cafebabe", url: "" }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [reviewedSummary], reviewThreads: [] }),
+    runReviewFn: async () => outcomeWith(2),
+    logInfo: () => {},
+  });
+  expect(first.calls.map((call) => call.type)).toEqual(["comment"]);
+  expect(first.calls[0].args.issue_number).toBe(9);
+
+  const second = makeOctokit();
+  let reviewed = false;
+  const skipped = await runPushAudit({
+    config: makeConfig(repoRoot),
+    octokit: second.octokit as any,
+    owner: "o",
+    repo: "r",
+    mode,
+    findMergedPullRequestFn: async () => ({ number: 9, headSha: "feedface", url: "" }),
+    fetchExistingCommentsFn: async () => ({ existingComments: [reviewedSummary], reviewThreads: [] }),
+    runReviewFn: async () => {
+      reviewed = true;
+      return outcomeWith(2);
+    },
+    logInfo: () => {},
+  });
+  expect(reviewed).toBe(false);
+  expect(skipped.verdict).toBe("Skipped");
+  expect(second.calls).toEqual([]);
+});
+
+test("runPushAudit ignores other branches and branch creation", async () => {
+  const messages: string[] = [];
+  const { octokit, calls } = makeOctokit();
+  const base = { config: makeConfig(process.cwd()), octokit: octokit as any, owner: "o", repo: "r", logInfo: (m: string) => messages.push(m) };
+  await runPushAudit({ ...base, mode: { mode: "push", ref: "refs/heads/feature", before: "a", after: "b", defaultBranch: "main" } });
+  await runPushAudit({
+    ...base,
+    mode: { mode: "push", ref: "refs/heads/main", before: "0000000000000000000000000000000000000000", after: "b", defaultBranch: "main" },
+  });
+  expect(calls).toEqual([]);
+  expect(messages[0]).toContain("not to the default branch");
+  expect(messages[1]).toContain("no previous commit");
+});
+
+test("runPushAudit unshallows a shallow checkout and explains a missing previous head", async () => {
+  const origin = initRepo();
+  const clone = fs.mkdtempSync(path.join(os.tmpdir(), "sra-push-clone-"));
+  execSync(`git clone --quiet --depth 1 --branch main file://${origin.repoRoot} ${clone}`, { stdio: "ignore" });
+  const { octokit } = makeOctokit();
+  let reviewInput: any = null;
+  const base = {
+    config: makeConfig(clone),
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    findMergedPullRequestFn: async () => null,
+    runReviewFn: async (input: any) => {
+      reviewInput = input;
+      return outcomeWith(0);
+    },
+    logInfo: () => {},
+  };
+  await runPushAudit({
+    ...base,
+    mode: { mode: "push", ref: "refs/heads/main", before: origin.before, after: origin.after, defaultBranch: "main" },
+  });
+  expect(reviewInput.changedFiles.map((file: any) => file.filename)).toEqual(["a.ts"]);
+
+  const unknown = "1234567890123456789012345678901234567890";
+  await expect(
+    runPushAudit({ ...base, mode: { mode: "push", ref: "refs/heads/main", before: unknown, after: origin.after, defaultBranch: "main" } })
+  ).rejects.toThrow(`Post-merge audit needs the previous head ${unknown} in the checkout`);
+});
+
+test("renderPushAuditReport keeps link labels from local writes", () => {
+  const report = renderPushAuditReport(
+    [{ id: 1, method: "issues.createComment", params: { body: "See [x.ts:3 (RIGHT, comment)](local://pulls.createReviewComment/2)." } }],
+    "Post-merge audit: abc..def"
+  );
+  expect(report).toContain("# Post-merge audit: abc..def");
+  expect(report).toContain("See x.ts:3 (RIGHT, comment).");
+});
@@ -1088,6 +1088,155 @@ test("comment tool accepts valid diff lines on LEFT/RIGHT", async () => {
   expect(calls[1].type).toBe("comment");
 });
 
+const rangePatch = `@@ -1,4 +1,5 @@\n const a = 1;\n-const b = 2;\n+const b = 3;\n+const c = 4;\n const d = 5;\n const e = 6;\n@@ -20,2 +21,2 @@\n-const z = 1;\n+const z = 2;\n`;
+
+function makeRangeReviewTools() {
+  const { octokit, calls } = makeOctokitSpy();
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "sha",
+    modelId: "model",
+    reviewSha: "sha",
+    changedFiles: [{ filename: "src/index.ts", status: "modified", additions: 3, deletions: 2, changes: 5, patch: rangePatch }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+  });
+  return { tools, calls };
+}
+
+test("comment and suggest tools post multi-line ranges with start_line/start_side", async () => {
+  const { tools, calls } = makeRangeReviewTools();
+  await getTool(tools, "comment").execute("", {
+    path: "src/index.ts",
+    start_line: 2,
+    line: 4,
+    side: "RIGHT",
+    body: "These assignments drift together",
+  });
+  await getTool(tools, "suggest").execute("", {
+    path: "src/index.ts",
+    start_line: 2,
+    line: 3,
+    side: "RIGHT",
+    comment: "Keep the values in one declaration.",
+    suggestion: "const [b, c] = [3, 4];\r\n",
+  });
+
+  expect(calls.length).toBe(2);
+  expect(calls[0].args).toMatchObject({ line: 4, side: "RIGHT", start_line: 2, start_side: "RIGHT" });
+  expect(calls[1].args).toMatchObject({ line: 3, side: "RIGHT", start_line: 2, start_side: "RIGHT" });
+  expect(calls[1].args.body).toContain("```suggestion\nconst [b, c] = [3, 4];\n```");
+});
+
+test("comment tool rejects ranges that leave the diff or run backwards", async () => {
+  const { tools, calls } = makeRangeReviewTools();
+  const commentTool = getTool(tools, "comment");
+  const acrossHunks = await commentTool.execute("", {
+    path: "src/index.ts",
+    start_line: 5,
+    line: 21,
+    side: "RIGHT",
+    body: "Spans two hunks",
+  });
+  const backwards = await commentTool.execute("", {
+    path: "src/index.ts",
+    start_line: 4,
+    line: 2,
+    side: "RIGHT",
+    body: "Backwards",
+  });
+
+  expect(calls.length).toBe(0);
+  expect(acrossHunks.content[0].text).toContain("Line 6 of range 5-21 is not present");
+  expect(backwards.content[0].text).toContain("must be before line");
+});
+
+test("suggest tool fences suggestions that contain backticks and rejects LEFT ranges", async () => {
+  const { tools, calls } = makeRangeReviewTools();
+  const suggestTool = getTool(tools, "suggest");
+  const left = await suggestTool.execute("", {
+    path: "src/index.ts",
+    start_line: 1,
+    line: 2,
+    side: "LEFT",
+    comment: "Old side",
+    suggestion: "const b = 2;",
+  });
+  await suggestTool.execute("", {
+    path: "src/index.ts",
+    line: 3,
+    side: "RIGHT",
+    comment: "Document the value.",
+    suggestion: "/** ```ts\nconst c = 4;\n``` */\nconst c = 4;",
+  });
+
+  expect(left.details.id).toBe(-1);
+  expect(calls.length).toBe(1);
+  expect(calls[0].args.body).toContain("````suggestion\n/** ```ts");
+  expect(calls[0].args.body).toContain("const c = 4;\n````");
+});
+
+test("comment tool posts file-level comments linked to placement=file findings", async () => {
+  const { octokit, calls } = makeOctokitSpy();
+  (octokit.rest.pulls as any).createReviewComment = async (args: any) => {
+    calls.push({ type: "comment", args });
+    return { data: { id: 202, html_url: "https://github.com/o/r/pull/1#discussion_r202" } };
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "sha",
+    modelId: "model",
+    reviewSha: "sha",
+    changedFiles: [{ filename: "assets/logo.png", status: "modified", additions: 0, deletions: 0, changes: 0 }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+  });
+
+  await getTool(tools, "report_finding").execute("", {
+    finding_ref: "design-logo-size",
+    category: "design",
+    severity: "low",
+    status: "new",
+    placement: "file",
+    title: "Logo asset is checked in at print resolution",
+  });
+  const lineResult = await getTool(tools, "comment").execute("", {
+    path: "assets/logo.png",
+    line: 1,
+    side: "RIGHT",
+    body: "Too large",
+  });
+  expect(lineResult.content[0].text).toContain("subject_type=file");
+  const unknown = await getTool(tools, "comment").execute("", {
+    path: "assets/missing.png",
+    subject_type: "file",
+    body: "Not in PR",
+  });
+  expect(unknown.details.id).toBe(-1);
+  await getTool(tools, "comment").execute("", {
+    path: "assets/logo.png",
+    subject_type: "file",
+    finding_ref: "design-logo-size",
+    body: "Export this at 2x instead of print resolution.",
+  });
+  await getTool(tools, "post_summary").execute("", { verdict: "Approve" });
+
+  const reviewComments = calls.filter((call) => call.type === "comment");
+  expect(reviewComments.length).toBe(1);
+  expect(reviewComments[0].args).toMatchObject({ path: "assets/logo.png", subject_type: "file", commit_id: "sha" });
+  expect(reviewComments[0].args.line).toBeUndefined();
+  const summary = calls.find((call) => call.type === "issue_comment");
+  expect(summary?.args.body).toContain("assets/logo.png (file, comment)");
+});
+
 test("comment tool allows replies by thread_id even when line not in diff", async () => {
   const patch = `@@ -1,2 +1,2 @@\n-const a = 1;\n+const a = 2;\n`;
   const { octokit, calls } = makeOctokitSpy();
@@ -2043,3 +2192,335 @@ test("suggest tool replies to session-posted comment at same location", async ()
   const newCommentCalls = calls.filter((c) => c.type === "comment");
   expect(newCommentCalls.length).toBe(1);
 });
+
+function makeBatchedReviewTools(createReview: (args: any) => Promise<any>, summaryTurn?: Promise<unknown>) {
+  const calls: Array<{ type: string; args: any }> = [];
+  const octokit = {
+    rest: {
+      pulls: {
+        createReviewComment: async (args: any) => {
+          calls.push({ type: "comment", args });
+          return { data: { id: 202 } };
+        },
+        createReview: async (args: any) => {
+          calls.push({ type: "review", args });
+          return createReview(args);
+        },
+      },
+      issues: {
+        createComment: async (args: any) => {
+          calls.push({ type: "issue_comment", args });
+          return { data: { id: 303 } };
+        },
+      },
+    },
+    graphql: async () => ({}),
+  };
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "sha",
+    modelId: "model",
+    reviewSha: "sha",
+    changedFiles: [{ filename: "src/retry.ts", status: "modified", additions: 1, deletions: 1, changes: 2, patch }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+    batchReview: true,
+    summaryTurn,
+  });
+  return { tools, calls };
+}
+
+test("batched review queues inline comments and submits them with the summary", async () => {
+  const { tools, calls } = makeBatchedReviewTools(async () => ({ data: { id: 404 } }));
+
+  await getTool(tools, "report_finding").execute("", {
+    finding_ref: "bug-retry-loop",
+    category: "bug",
+    severity: "medium",
+    status: "new",
+    placement: "inline",
+    title: "Retry loop never stops on permanent 4xx responses",
+  });
+  const commentResult = await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 1,
+    side: "RIGHT",
+    finding_ref: "bug-retry-loop",
+    body: "Stop retrying on terminal client errors.",
+  });
+  expect(commentResult.content[0].text).toContain("queued for the batched review");
+  const duplicate = await getTool(tools, "suggest").execute("", {
+    path: "src/retry.ts",
+    line: 1,
+    side: "RIGHT",
+    comment: "Guard it",
+    suggestion: "const a = 3;",
+  });
+  expect(duplicate.content[0].text).toContain("already queued");
+  await getTool(tools, "suggest").execute("", {
+    path: "src/retry.ts",
+    line: 1,
+    side: "LEFT",
+    comment: "Old value",
+    suggestion: "const a = 0;",
+  });
+
+  const summaryResult = await getTool(tools, "post_summary").execute("", {
+    verdict: "Request Changes",
+    preface: "Retry termination logic should be corrected.",
+  });
+
+  expect(calls.some((call) => call.type === "comment" || call.type === "issue_comment")).toBe(false);
+  const reviewCalls = calls.filter((call) => call.type === "review");
+  expect(reviewCalls.length).toBe(1);
+  expect(reviewCalls[0].args.event).toBe("REQUEST_CHANGES");
+  expect(reviewCalls[0].args.commit_id).toBe("sha");
+  expect(reviewCalls[0].args.body).toContain("Retry termination logic should be corrected.");
+  expect(reviewCalls[0].args.body).toContain("src/retry.ts:1 (RIGHT, comment), in this review");
+  expect(reviewCalls[0].args.comments.map((comment: any) => comment.side)).toEqual(["RIGHT", "LEFT"]);
+  expect(reviewCalls[0].args.comments[1].body).toContain("```suggestion");
+  expect(summaryResult.content[0].text).toContain("Review submitted: 404 (REQUEST_CHANGES, 2 inline comment(s))");
+});
+
+test("batched review waits for its summary turn before submitting", async () => {
+  let releaseTurn: () => void = () => {};
+  const turn = new Promise<void>((resolve) => {
+    releaseTurn = resolve;
+  });
+  const { tools, calls } = makeBatchedReviewTools(async () => ({ data: { id: 404 } }), turn);
+
+  const summary = getTool(tools, "post_summary").execute("", { verdict: "Approve", preface: "Looks good." });
+  await new Promise((resolve) => setTimeout(resolve, 10));
+  expect(calls).toEqual([]);
+  releaseTurn();
+  await summary;
+  expect(calls.map((call) => call.type)).toEqual(["review"]);
+});
+
+test("batched review submits file-level comments with the review", async () => {
+  const { tools, calls } = makeBatchedReviewTools(async () => ({ data: { id: 404 } }));
+
+  await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    subject_type: "file",
+    body: "This module needs tests for the retry budget.",
+  });
+  await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 1,
+    side: "RIGHT",
+    body: "Stop retrying on terminal client errors.",
+  });
+  const summaryResult = await getTool(tools, "post_summary").execute("", {
+    verdict: "Request Changes",
+    preface: "Retry handling needs tests.",
+  });
+
+  expect(calls.filter((call) => call.type === "comment")).toEqual([]);
+  const reviewCalls = calls.filter((call) => call.type === "review");
+  expect(reviewCalls[0].args.comments).toEqual([
+    { path: "src/retry.ts", subject_type: "file", body: expect.stringContaining("needs tests for the retry budget") },
+    expect.objectContaining({ path: "src/retry.ts", line: 1, side: "RIGHT" }),
+  ]);
+  expect(summaryResult.content[0].text).toContain("2 inline comment(s)");
+});
+
+test("batched review falls back to COMMENT and body-only comments on 422", async () => {
+  const { tools, calls } = makeBatchedReviewTools(async (args) => {
+    if (args.event === "APPROVE") {
+      const error: any = new Error("Unprocessable Entity: Can not approve your own pull request");
+      error.status = 422;
+      throw error;
+    }
+    if (args.comments) {
+      const error: any = new Error("Unprocessable Entity: Line could not be resolved");
+      error.status = 422;
+      throw error;
+    }
+    return { data: { id: 505 } };
+  });
+
+  await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 1,
+    side: "RIGHT",
+    body: "Nit: name this constant.",
+  });
+  await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    subject_type: "file",
+    body: "Add a module doc comment.",
+  });
+  const summaryResult = await getTool(tools, "post_summary").execute("", {
+    verdict: "Approve",
+    preface: "Looks good.",
+  });
+
+  const reviewCalls = calls.filter((call) => call.type === "review");
+  expect(reviewCalls.map((call) => [call.args.event, Boolean(call.args.comments)])).toEqual([
+    ["APPROVE", true],
+    ["COMMENT", true],
+    ["COMMENT", false],
+  ]);
+  expect(reviewCalls[1].args.body).not.toContain("### Inline comments (could not be anchored)");
+  expect(reviewCalls[2].args.body.split("### Inline comments (could not be anchored)")).toHaveLength(2);
+  expect(reviewCalls[2].args.body).toContain("Nit: name this constant.");
+  expect(reviewCalls[2].args.body).toContain("**`src/retry.ts`** (file, comment)");
+  expect(summaryResult.content[0].text).toContain("Review submitted: 505 (COMMENT, 0 inline comment(s))");
+  expect(summaryResult.content[0].text).toContain("APPROVE was rejected by GitHub");
+});
+
+function makePolicyReviewTools(findingPolicy: Record<string, unknown>) {
+  const calls: Array<{ type: string; args: any }> = [];
+  let nextId = 500;
+  const octokit = {
+    rest: {
+      pulls: {
+        createReviewComment: async (args: any) => {
+          calls.push({ type: "comment", args });
+          nextId += 1;
+          return { data: { id: nextId, html_url: `https://example.com/c/${nextId}` } };
+        },
+      },
+      issues: {
+        createComment: async (args: any) => {
+          calls.push({ type: "issue_comment", args });
+          return { data: { id: 303 } };
+        },
+      },
+    },
+    graphql: async () => ({}),
+  };
+  let flushDeferred: (() => Promise<void>) | null = null;
+  const tools = createReviewTools({
+    octokit: octokit as any,
+    owner: "o",
+    repo: "r",
+    pullNumber: 1,
+    headSha: "sha",
+    modelId: "model",
+    reviewSha: "sha",
+    changedFiles: [{
+      filename: "src/retry.ts",
+      status: "modified",
+      additions: 3,
+      deletions: 0,
+      changes: 3,
+      patch: "@@ -1,1 +1,4 @@\n a\n+b\n+c\n+d\n",
+    }],
+    getBilling: () => ({ input: 0, output: 0, total: 0, cost: 0 }),
+    existingComments: [],
+    reviewThreads: [],
+    findingPolicy,
+    onDeferredComments: (flush) => {
+      flushDeferred = flush;
+    },
+  });
+  return { tools, calls, flush: () => flushDeferred?.() };
+}
+
+test("severityFloor demotes low-severity findings to observations", async () => {
+  const { tools, calls } = makePolicyReviewTools({ severityFloor: "medium" });
+
+  const demoted = await getTool(tools, "report_finding").execute("", {
+    finding_ref: "naming-nit",
+    category: "refactoring",
+    severity: "low",
+    status: "new",
+    placement: "inline",
+    title: "Helper name is misleading and duplicates the retry wording",
+  });
+  expect(demoted.content[0].text).toContain("below this command's severity floor (medium)");
+  const rejected = await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 2,
+    side: "RIGHT",
+    finding_ref: "naming-nit",
+    body: "Rename this.",
+  });
+  expect(rejected.content[0].text).toContain("below the severity floor");
+  await getTool(tools, "post_summary").execute("", { verdict: "Approve", preface: "Minor notes only." });
+
+  const summary = calls.find((call) => call.type === "issue_comment");
+  expect(calls.filter((call) => call.type === "comment")).toHaveLength(0);
+  expect(summary?.args.body).toContain("### Key Findings");
+  expect(summary?.args.body).toContain("Helper name is misleading");
+  expect(summary?.args.body).not.toContain("ref=naming-nit");
+});
+
+test("maxFindings posts the highest-severity queued comments and keeps the rest summary-only", async () => {
+  const { tools, calls, flush } = makePolicyReviewTools({ maxFindings: 1, format: "checklist" });
+  const findings = [
+    { ref: "bug-low-path", severity: "low", line: 2, title: "Fallback path leaks the retry counter" },
+    { ref: "bug-high-path", severity: "high", line: 3, title: "Retry loop never stops on permanent errors" },
+  ];
+  for (const finding of findings) {
+    await getTool(tools, "report_finding").execute("", {
+      finding_ref: finding.ref,
+      category: "bug",
+      severity: finding.severity,
+      status: "new",
+      placement: "inline",
+      title: finding.title,
+    });
+    const queued = await getTool(tools, "comment").execute("", {
+      path: "src/retry.ts",
+      line: finding.line,
+      side: "RIGHT",
+      finding_ref: finding.ref,
+      body: `Fix ${finding.ref}.`,
+    });
+    expect(queued.content[0].text).toContain("At most 1 new inline comment(s) are posted");
+  }
+  expect(calls).toHaveLength(0);
+
+  await getTool(tools, "post_summary").execute("", { verdict: "Request Changes", preface: "One blocker." });
+  await flush();
+
+  const posted = calls.filter((call) => call.type === "comment");
+  expect(posted).toHaveLength(1);
+  expect(posted[0].args.line).toBe(3);
+  const body = calls.find((call) => call.type === "issue_comment")?.args.body ?? "";
+  expect(body).toContain("### Checklist");
+  expect(body).toContain("- [ ] [high] Bug: [Retry loop never stops on permanent errors](https://example.com/c/501)");
+  expect(body).toContain("- [ ] [low] Bug: Fallback path leaks the retry counter");
+  expect(body).toContain("placement=summary_only");
+});
+
+test("maxFindings lists queued comments without a finding_ref that did not fit", async () => {
+  const { tools, calls, flush } = makePolicyReviewTools({ maxFindings: 1 });
+  await getTool(tools, "report_finding").execute("", {
+    finding_ref: "bug-high-path",
+    category: "bug",
+    severity: "high",
+    status: "new",
+    placement: "inline",
+    title: "Retry loop never stops on permanent errors",
+  });
+  const unlinked = await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 2,
+    side: "RIGHT",
+    body: "Consider a named constant here.\n\nIt reads better.",
+  });
+  expect(unlinked.content[0].text).toContain("Without a finding_ref it ranks below every finding's comment.");
+  await getTool(tools, "comment").execute("", {
+    path: "src/retry.ts",
+    line: 3,
+    side: "RIGHT",
+    finding_ref: "bug-high-path",
+    body: "Stop on 4xx.",
+  });
+
+  const result = await getTool(tools, "post_summary").execute("", { verdict: "Request Changes", preface: "One blocker." });
+  await flush();
+
+  expect(calls.filter((call) => call.type === "comment").map((call) => call.args.line)).toEqual([3]);
+  expect(result.content[0].text).toContain("1 queued inline comment(s) without a finding_ref did not fit the maxFindings cap");
+  const body = calls.find((call) => call.type === "issue_comment")?.args.body ?? "";
+  expect(body).toContain("<details><summary>Inline comments over the cap</summary>\n\n- `src/retry.ts:2` Consider a named constant here.\n");
+});
@@ -0,0 +1,112 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { createRunReport, renderRunReportSummary, writeRunReport } from "../src/app/run-report.ts";
+
+function makeClock(start = 1_700_000_000_000) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+test("run recorder counts tool calls, compactions, fallbacks and findings", () => {
+  const clock = makeClock();
+  const report = createRunReport({ eventName: "pull_request", repository: "o/r", prNumber: 7 }, clock.now);
+  report.setScope({
+    decision: "review",
+    reasonCode: "SCOPED_REVIEW",
+    reason: "Reviewing changes since last review.",
+    lastReviewedSha: "abc",
+    headSha: "def",
+    scopedFiles: 2,
+    prFiles: 5,
+  });
+  const recorder = report.startRun({ kind: "review", id: "review", model: "primary" });
+  const billing = { input: 0, output: 0, total: 0, cost: 0 };
+  recorder.setBilling(billing);
+  recorder.setFiles(["src/a.ts", "src/b.ts"]);
+  recorder.onAgentEvent({ type: "tool_execution_start", toolCallId: "1", toolName: "read" });
+  clock.advance(40);
+  recorder.onAgentEvent({ type: "tool_execution_end", toolCallId: "1", toolName: "read", isError: false });
+  recorder.onAgentEvent({ type: "tool_execution_start", toolCallId: "2", toolName: "read" });
+  clock.advance(10);
+  recorder.onAgentEvent({ type: "tool_execution_end", toolCallId: "2", toolName: "read", isError: true });
+  recorder.onAgentEvent({ type: "message_end" });
+  recorder.onCompaction({ estimatedTokens: 900, threshold: 800, prunedMessages: 4, keptMessages: 3, summary: "deterministic" });
+  recorder.onFallback("primary", "backup", "quota exhausted after 3 consecutive 429s");
+  recorder.setSummary({
+    verdict: "Request Changes",
+    findings: [
+      {
+        findingRef: "f1",
+        title: "Missing check",
+        category: "bug",
+        severity: "high",
+        status: "new",
+        locations: [{ path: "src/a.ts", line: 3 }],
+      },
+      {
+        findingRef: "f2",
+        title: "Old issue",
+        category: "bug",
+        severity: "low",
+        status: "resolved",
+        locations: [],
+      },
+    ],
+  } as any);
+  billing.total = 1200;
+  billing.cost = 0.25;
+  clock.advance(1950);
+  recorder.finish("completed");
+  recorder.finish("failed", "ignored after finish");
+
+  const commandRecorder = report.startRun({ kind: "command", id: "security" });
+  commandRecorder.finish("skipped", "9 files after filtering exceed limits.maxFiles (5).");
+
+  const data = report.toJSON();
+  expect(data.scope?.reasonCode).toBe("SCOPED_REVIEW");
+  expect(data.runs[0]).toMatchObject({
+    kind: "review",
+    model: "backup",
+    status: "completed",
+    durationMs: 2000,
+    filesReviewed: ["src/a.ts", "src/b.ts"],
+    tools: { read: { calls: 2, errors: 1, totalMs: 50 } },
+    fallbacks: [{ from: "primary", to: "backup", reason: "quota exhausted after 3 consecutive 429s" }],
+    verdict: "Request Changes",
+    billing: { input: 0, output: 0, total: 1200, cost: 0.25 },
+  });
+  expect(data.runs[0].compactions).toHaveLength(1);
+  expect(data.runs[0].findings[0].locations).toEqual(["src/a.ts:3"]);
+  expect(data.runs[1]).toMatchObject({ id: "security", status: "skipped", detail: "9 files after filtering exceed limits.maxFiles (5)." });
+  expect(data.totals).toEqual({ durationMs: 2000, findings: 1, billing: { input: 0, output: 0, total: 1200, cost: 0.25 } });
+});
+
+test("run report renders a job summary table and writes JSON", () => {
+  const clock = makeClock();
+  const report = createRunReport({ eventName: "issue_comment", repository: "o/r", prNumber: 7 }, clock.now);
+  expect(renderRunReportSummary(report.toJSON())).toContain("No review or command ran.");
+
+  const recorder = report.startRun({ kind: "command", id: "perf", model: "m" });
+  recorder.setBudgetExhausted("run time reached limits.maxDurationSeconds (30s)");
+  clock.advance(250);
+  recorder.finish("completed");
+  const markdown = renderRunReportSummary(report.toJSON());
+  expect(markdown).toContain("### Reviewer run: o/r#7 (issue_comment)");
+  expect(markdown).toContain(
+    "| `perf` | m | completed (budget: run time reached limits.maxDurationSeconds (30s)) | - | 0 | 0 | 0 | 0 | $0.0000 | 250ms |"
+  );
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sri-run-report-"));
+  const filePath = path.join(dir, "nested", "report.json");
+  writeRunReport(filePath, report.toJSON());
+  const written = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  expect(written.version).toBe(1);
+  expect(written.runs[0].budgetExhausted).toBe("run time reached limits.maxDurationSeconds (30s)");
+});
@@ -96,3 +96,43 @@ test("runReview uses iteration-limit reason when tool executions exceed", async
   expect(calls.length).toBe(1);
   expect(calls[0].args.body).toContain("Agent exceeded iteration limit before posting summary.");
 });
+
+test("runReview stops at the token budget and posts a partial summary", async () => {
+  const { octokit, calls } = makeOctokitSpy();
+  const usage = {
+    input: 150,
+    output: 50,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 200,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+  const fakeAgent = createFakeAgent({
+    events: [{ type: "message_end", message: { role: "assistant", model: "model", content: [], usage } }],
+  });
+  const originalWarn = console.warn;
+  console.warn = () => {};
+  try {
+    await runReview({
+      config: { ...baseConfig, budget: { maxTokens: 100 } },
+      context: baseContext,
+      octokit: octokit as any,
+      prInfo: basePrInfo,
+      changedFiles: baseChangedFiles,
+      existingComments: [],
+      reviewThreads: [],
+      overrides: {
+        model: { contextWindow: 1000, cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 } } as any,
+        compactionModel: null,
+        agentFactory: () => fakeAgent,
+      },
+    });
+  } finally {
+    console.warn = originalWarn;
+  }
+
+  expect(calls.length).toBe(1);
+  expect(calls[0].args.body).toContain("**Budget exhausted**: 200 tokens reached limits.maxTokens (100).");
+  expect(calls[0].args.body).toContain("Skipped");
+  expect(calls[0].args.body).not.toContain("Approve");
+});
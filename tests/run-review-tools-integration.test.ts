@@ -105,3 +105,57 @@ test("runReview tool integration posts comment and suggestion", async () => {
   expect(calls[1].args.body).toContain("```suggestion");
   expect(calls[2].type).toBe("issue_comment");
 });
+
+test("runReview posts comments queued for a batched review before a failure summary", async () => {
+  const { octokit, calls } = makeOctokitSpy();
+
+  const agentFactory = ({ initialState }: any) => {
+    const tools = initialState.tools as Array<any>;
+    const commentTool = tools.find((tool) => tool.name === "comment");
+    return {
+      state: { error: null, messages: [] },
+      subscribe() {},
+      async prompt() {
+        await commentTool.execute("", { path: "src/index.ts", line: 1, side: "RIGHT", body: "First point" });
+        await commentTool.execute("", { path: "src/index.ts", line: 2, side: "RIGHT", body: "Second point" });
+        const error = new Error("429 Resource exhausted");
+        (error as any).status = 429;
+        throw error;
+      },
+      abort() {},
+    };
+  };
+
+  // A threshold of 1 ends the retries on the first 429, so the run fails without sleeping.
+  const savedThreshold = process.env.LLM_FALLBACK_AFTER_QUOTA_ERRORS;
+  process.env.LLM_FALLBACK_AFTER_QUOTA_ERRORS = "1";
+  try {
+    await expect(
+      runReview({
+        config: { ...baseConfig, batchReview: true },
+        context: baseContext,
+        octokit: octokit as any,
+        prInfo: basePrInfo,
+        changedFiles: baseChangedFiles,
+        existingComments: [],
+        reviewThreads: [],
+        overrides: {
+          model: { contextWindow: 1000 } as any,
+          compactionModel: null,
+          agentFactory,
+        },
+      })
+    ).rejects.toThrow();
+  } finally {
+    if (savedThreshold === undefined) {
+      delete process.env.LLM_FALLBACK_AFTER_QUOTA_ERRORS;
+    } else {
+      process.env.LLM_FALLBACK_AFTER_QUOTA_ERRORS = savedThreshold;
+    }
+  }
+
+  expect(calls.map((call) => call.type)).toEqual(["review_comment", "review_comment", "issue_comment"]);
+  expect(calls[0].args.body).toContain("First point");
+  expect(calls[1].args.body).toContain("Second point");
+  expect(calls[2].args.body).toContain("LLM request failed after retries.");
+});
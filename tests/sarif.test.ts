@@ -0,0 +1,94 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { buildSarifLog, writeSarifReport } from "../src/agent/sarif.ts";
+import type { PublishedSummary } from "../src/summary.ts";
+
+const summary: PublishedSummary = {
+  verdict: "Request Changes",
+  body: "",
+  findings: [
+    {
+      findingRef: "bug-null-guard",
+      category: "Unused Code",
+      severity: "high",
+      status: "new",
+      title: "Null guard is missing",
+      details: "Dereference happens before the null check.",
+      locations: [
+        { path: "src/a.ts", line: 4, side: "RIGHT" },
+        { path: "src/a.ts", line: 2, side: "LEFT" },
+      ],
+    },
+    {
+      category: "Design",
+      severity: "low",
+      status: "still_open",
+      title: "Leaky abstraction",
+      locations: [{ path: "src/b.ts", line: 10, side: "RIGHT" }],
+    },
+    {
+      category: "Bug",
+      severity: "medium",
+      status: "resolved",
+      title: "Fixed already",
+      locations: [{ path: "src/c.ts", line: 1, side: "RIGHT" }],
+    },
+    {
+      category: "Security",
+      severity: "medium",
+      status: "new",
+      title: "Cross-cutting concern",
+      locations: [],
+    },
+  ],
+};
+
+test("buildSarifLog maps findings to SARIF results", () => {
+  const log = buildSarifLog(summary, { repositoryUri: "https://github.com/o/r", revisionId: "abc" }) as any;
+  expect(log.version).toBe("2.1.0");
+  const run = log.runs[0];
+  expect(run.tool.driver.rules.map((rule: any) => rule.id)).toContain("unused-code");
+  expect(run.versionControlProvenance).toEqual([{ repositoryUri: "https://github.com/o/r", revisionId: "abc" }]);
+  expect(run.results).toEqual([
+    {
+      ruleId: "unused-code",
+      level: "error",
+      message: { text: "Null guard is missing\n\nDereference happens before the null check." },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/a.ts", uriBaseId: "%SRCROOT%" },
+            region: { startLine: 4 },
+          },
+        },
+      ],
+      partialFingerprints: { "findingRef/v1": "bug-null-guard" },
+      properties: { severity: "high", status: "new" },
+    },
+    {
+      ruleId: "design",
+      level: "note",
+      message: { text: "Leaky abstraction" },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "src/b.ts", uriBaseId: "%SRCROOT%" },
+            region: { startLine: 10 },
+          },
+        },
+      ],
+      properties: { severity: "low", status: "still_open" },
+    },
+  ]);
+});
+
+test("writeSarifReport writes an empty run when no summary was published", () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sra-sarif-"));
+  const filePath = path.join(dir, "nested", "findings.sarif");
+  writeSarifReport(filePath, null);
+  const log = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  expect(log.runs[0].results).toEqual([]);
+  expect(log.runs[0].versionControlProvenance).toBeUndefined();
+});
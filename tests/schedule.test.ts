@@ -28,6 +28,7 @@ const baseConfig: ActionConfig = {
   },
   toolsAllowlist: ["filesystem", "git.read", "git.history", "github.pr.read", "github.pr.feedback", "github.pr.manage", "repo.write"],
   outputCommentType: "both",
+  dryRunDir: "sri-dry-run",
 };
 
 test("runScheduledFlow no-ops when job id missing", async () => {
@@ -1,5 +1,5 @@
 import { test, expect } from "bun:test";
-import { buildAdaptiveSummaryMarkdown, buildSummaryMarkdown } from "../src/summary.ts";
+import { buildAdaptiveSummaryMarkdown, buildNarrativeSummaryMarkdown, buildSummaryMarkdown } from "../src/summary.ts";
 import { buildUserPrompt } from "../src/prompts/review.ts";
 
 test("buildSummaryMarkdown adds footer + marker", () => {
@@ -434,3 +434,32 @@ test("buildAdaptiveSummaryMarkdown includes key findings observations", () => {
   expect(summary).toContain("**Legacy npm lockfile removed** (Risk)");
   expect(summary).not.toContain("No new issues, resolutions, or still-open items");
 });
+
+test("buildNarrativeSummaryMarkdown renders unresolved findings as paragraphs by severity", () => {
+  const body = buildNarrativeSummaryMarkdown({
+    verdict: "Request Changes",
+    findings: [
+      { findingRef: "doc-gap", category: "Documentation", severity: "low", status: "new", title: "README omits the new flag" },
+      {
+        findingRef: "auth-bypass",
+        category: "Security",
+        severity: "high",
+        status: "still_open",
+        title: "Token check can be bypassed",
+        details: "Expired tokens are accepted when the clock skew header is set.",
+        action: "Reject expired tokens before applying skew.",
+      },
+      { findingRef: "old-leak", category: "Bug", severity: "medium", status: "resolved", title: "Connection leak on retry" },
+    ],
+    mode: "standard",
+    isFollowUp: false,
+  });
+
+  expect(body).toContain("### Review Narrative");
+  expect(body).toContain(
+    "**Token check can be bypassed** (security, high severity, still open). Expired tokens are accepted when the clock skew header is set. Next step: Reject expired tokens before applying skew."
+  );
+  expect(body.indexOf("Token check")).toBeLessThan(body.indexOf("README omits"));
+  expect(body).toContain("Resolved since the last review: Connection leak on retry.");
+  expect(body).toContain("ref=auth-bypass");
+});
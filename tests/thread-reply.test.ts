@@ -0,0 +1,194 @@
+import { test, expect } from "bun:test";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { findBotThreadForReply, runThreadReply } from "../src/agent/thread-reply.ts";
+import type { ExistingComment, ReviewConfig, ReviewThreadInfo } from "../src/types.ts";
+import { makeOctokitSpy } from "./helpers/fake-octokit.ts";
+
+const BOT_MARKER = "<!-- sri:bot-comment -->";
+
+function makeComment(overrides: Partial<ExistingComment>): ExistingComment {
+  return {
+    id: 1,
+    author: "github-actions[bot]",
+    authorType: "Bot",
+    body: `Null check is missing.\n\n${BOT_MARKER}`,
+    url: "",
+    type: "review",
+    path: "src/a.ts",
+    line: 2,
+    side: "RIGHT",
+    updatedAt: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+const thread: ReviewThreadInfo = {
+  id: 7,
+  threadId: "T_7",
+  path: "src/a.ts",
+  line: 2,
+  side: "RIGHT",
+  isOutdated: false,
+  resolved: false,
+  lastUpdatedAt: "2026-01-01T00:00:00Z",
+  lastActor: "alice",
+  rootCommentId: 10,
+  url: "",
+};
+
+const comments: ExistingComment[] = [
+  makeComment({ id: 10 }),
+  makeComment({ id: 12, author: "alice", authorType: "User", body: "The caller already validates this.", inReplyToId: 10 }),
+  makeComment({ id: 20, author: "bob", authorType: "User", body: "Unrelated human thread." }),
+  makeComment({ id: 21, author: "carol", authorType: "User", body: "Agreed.", inReplyToId: 20 }),
+];
+
+test("findBotThreadForReply returns history only for human replies on open bot threads", () => {
+  const found = findBotThreadForReply(12, comments, [thread]);
+  expect(found?.root.id).toBe(10);
+  expect(found?.thread?.id).toBe(7);
+  expect(found?.history.map((comment) => comment.id)).toEqual([10, 12]);
+
+  expect(findBotThreadForReply(21, comments, [thread])).toBeNull();
+  expect(findBotThreadForReply(10, comments, [thread])).toBeNull();
+  expect(findBotThreadForReply(12, comments, [{ ...thread, resolved: true }])).toBeNull();
+});
+
+test("runThreadReply prompts a focused agent with the thread and file at head", async () => {
+  const repoRoot = fs.mkdtempSync(path.join(os.tmpdir(), "sra-thread-"));
+  fs.mkdirSync(path.join(repoRoot, "src"));
+  fs.writeFileSync(path.join(repoRoot, "src", "a.ts"), "const a = parse(x);\nreturn a.value;\n");
+  const config: ReviewConfig = {
+    provider: "google",
+    apiKey: "test",
+    modelId: "model",
+    maxFiles: 10,
+    ignorePatterns: [],
+    repoRoot,
+    debug: false,
+    reasoning: "off",
+  };
+  const { octokit } = makeOctokitSpy();
+  let toolNames: string[] = [];
+  let systemPrompt = "";
+  let userPrompt = "";
+  await runThreadReply({
+    config,
+    context: { owner: "o", repo: "r", prNumber: 1 },
+    octokit: octokit as any,
+    prInfo: {
+      number: 1,
+      title: "Parse payloads",
+      body: "",
+      author: "alice",
+      baseRef: "main",
+      headRef: "feature",
+      baseSha: "base",
+      headSha: "head",
+      url: "https://example.com/pr/1",
+    },
+    changedFiles: [],
+    existingComments: comments,
+    reviewThreads: [thread],
+    commentId: 12,
+    overrides: {
+      model: { contextWindow: 1000 } as any,
+      compactionModel: null,
+      agentFactory: ({ initialState }: any) => {
+        toolNames = initialState.tools.map((tool: any) => tool.name);
+        systemPrompt = initialState.systemPrompt;
+        return {
+          state: { error: null, messages: [] },
+          subscribe() {},
+          async prompt(message: string) {
+            userPrompt = message;
+          },
+          abort() {},
+        };
+      },
+    },
+  });
+
+  expect(toolNames.sort()).toEqual(["find", "grep", "ls", "read", "reply_comment", "resolve_thread", "terminate"]);
+  expect(systemPrompt).toContain("concede plainly");
+  expect(userPrompt).toContain("Root comment id (for reply_comment): 10");
+  expect(userPrompt).toContain("Thread id (for resolve_thread): 7");
+  expect(userPrompt).toContain("## Reply by alice\nThe caller already validates this.");
+  expect(userPrompt).not.toContain(BOT_MARKER);
+  expect(userPrompt).toContain("2: return a.value;");
+});
+
+test("runThreadReply signs replies with the model and the run's billing", async () => {
+  const { octokit, calls } = makeOctokitSpy();
+  const usage = {
+    input: 1000,
+    output: 500,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 1500,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  };
+  await runThreadReply({
+    config: {
+      provider: "google",
+      apiKey: "test",
+      modelId: "model",
+      maxFiles: 10,
+      ignorePatterns: [],
+      repoRoot: os.tmpdir(),
+      debug: false,
+      reasoning: "off",
+    },
+    context: { owner: "o", repo: "r", prNumber: 1 },
+    octokit: octokit as any,
+    prInfo: {
+      number: 1,
+      title: "Parse payloads",
+      body: "",
+      author: "alice",
+      baseRef: "main",
+      headRef: "feature",
+      baseSha: "base",
+      headSha: "head",
+      url: "https://example.com/pr/1",
+    },
+    changedFiles: [],
+    existingComments: comments,
+    reviewThreads: [thread],
+    commentId: 12,
+    overrides: {
+      model: { contextWindow: 1000, cost: { input: 1, output: 2, cacheRead: 0, cacheWrite: 0 } } as any,
+      compactionModel: null,
+      agentFactory: ({ initialState }: any) => {
+        const subscribers: Array<(event: any) => void> = [];
+        return {
+          state: { error: null, messages: [] },
+          subscribe(fn: (event: any) => void) {
+            subscribers.push(fn);
+          },
+          async prompt() {
+            for (const fn of subscribers) fn({ type: "message_end", message: { role: "assistant", content: [], usage } });
+            const reply = initialState.tools.find((tool: any) => tool.name === "reply_comment");
+            await reply.execute("", { comment_id: 10, body: "Agreed, the caller validates it." });
+          },
+          abort() {},
+        };
+      },
+    },
+  });
+
+  const replies = calls.filter((call) => call.type === "reply");
+  expect(replies).toHaveLength(1);
+  expect(replies[0].args.body).toBe(
+    [
+      "Agreed, the caller validates it.",
+      "",
+      "---",
+      "*Replied by shitty-reviewing-agent • model: model*",
+      "*Billing: input 1000 • output 500 • total 1500 • cost $0.002000*",
+      BOT_MARKER,
+    ].join("\n")
+  );
+});
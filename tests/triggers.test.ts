@@ -0,0 +1,62 @@
+import { test, expect } from "bun:test";
+import { resolveRunModeFromEvent } from "../src/app/mode.ts";
+import { planMergeGroupRun, planPullRequestRun } from "../src/app/triggers.ts";
+import type { TriggerConfig } from "../src/types.ts";
+
+const triggers: TriggerConfig = {
+  actions: ["opened", "synchronize", "ready_for_review"],
+  skipDrafts: true,
+  runOnLabels: { "needs-security-review": ["security"] },
+  mergeGroup: ["security"],
+};
+
+function pullRequest(action: string, extra: Record<string, unknown> = {}) {
+  const mode = resolveRunModeFromEvent("pull_request", {
+    action,
+    pull_request: { number: 3, draft: false },
+    ...extra,
+  });
+  if (mode.mode !== "pull_request") throw new Error("expected pull_request mode");
+  return mode;
+}
+
+test("planPullRequestRun reviews every non-label action when triggers are unset", () => {
+  expect(planPullRequestRun(pullRequest("opened"), undefined)).toEqual({ review: true, commandIds: [] });
+  expect(planPullRequestRun(pullRequest("edited"), undefined)).toEqual({ review: true, commandIds: [] });
+  expect(planPullRequestRun(pullRequest("labeled", { label: { name: "bug" } }), undefined).skipReason).toContain(
+    "does not trigger"
+  );
+});
+
+test("planPullRequestRun follows configured actions and skips drafts", () => {
+  expect(planPullRequestRun(pullRequest("ready_for_review"), triggers)).toEqual({ review: true, commandIds: [] });
+  expect(planPullRequestRun(pullRequest("reopened"), triggers).review).toBe(false);
+  const draft = planPullRequestRun(pullRequest("synchronize", { pull_request: { number: 3, draft: true } }), triggers);
+  expect(draft.review).toBe(false);
+  expect(draft.skipReason).toContain("draft");
+});
+
+test("planPullRequestRun runs label commands without the full review", () => {
+  const plan = planPullRequestRun(pullRequest("labeled", { label: { name: "needs-security-review" } }), triggers);
+  expect(plan).toEqual({ review: false, commandIds: ["security"] });
+  const other = planPullRequestRun(pullRequest("labeled", { label: { name: "docs" } }), triggers);
+  expect(other.skipReason).toContain("label docs");
+});
+
+test("planMergeGroupRun resolves the queued PR and its commands", () => {
+  const mode = resolveRunModeFromEvent("merge_group", {
+    action: "checks_requested",
+    merge_group: { head_sha: "abc123", base_sha: "def456", head_ref: "refs/heads/gh-readonly-queue/main/pr-42-0123abcd" },
+  });
+  expect(mode).toEqual({
+    mode: "merge_group",
+    prNumber: 42,
+    headSha: "abc123",
+    baseSha: "def456",
+    headRef: "refs/heads/gh-readonly-queue/main/pr-42-0123abcd",
+  });
+  if (mode.mode !== "merge_group") return;
+  expect(planMergeGroupRun(mode, triggers)).toEqual({ review: false, commandIds: ["security"] });
+  expect(planMergeGroupRun(mode, { ...triggers, mergeGroup: [] }).skipReason).toContain("No review.mergeGroup");
+  expect(planMergeGroupRun({ ...mode, prNumber: null }, triggers).skipReason).toContain("Could not find a PR number");
+});